@@ -1,15 +1,34 @@
 import { Request, Response } from 'express';
-import { TeamConfig, SprintData } from '../types';
-import { getTeamConfigs } from '../utils/s3';
-import { getCachedSprintData, cacheSprintData } from '../utils/s3';
+import * as zlib from 'zlib';
+import { TeamConfig, SprintData, SprintSummary, CachedSprintEntry, SprintDataChunkPart, SprintJob, SprintRangeResponse } from '../types';
+import { getTeamConfigs, getTeamConfig } from '../utils/storage';
+import {
+  getCachedSprintData,
+  getCachedSprintSummary,
+  getCachedSprintChunk,
+  listCachedSprintIndices,
+  listCachedSprints,
+  deleteCachedSprintData,
+  getCachedSprintCatalogue,
+  deleteCachedSprintCatalogue
+} from '../utils/storage';
 import { JiraService } from '../services/jiraService';
-import { BuildkiteService } from '../services/buildkiteService';
+import { SprintDataService } from '../services/sprintDataService';
+import { SprintJobService } from '../services/sprintJobService';
+import { canAccessTeam } from '../services/authService';
 import { decrypt } from '../utils/encryption';
+import { SprintNotFoundError, SprintNotStartedError } from '../utils/errors';
 
 export class SprintController {
+  private static MAX_RANGE_SIZE = 52;
+
   async getSprintData(req: Request, res: Response): Promise<void> {
     try {
       const { team, sprintIdentifier, identifierType } = req.query;
+      // Skip the cache and replace the entry with fresh data from Jira and CI
+      const refresh = req.query.refresh === 'true';
+      // The client loads a large cached sprint's issues and builds itself (see getSprintChunk)
+      const lazyChunks = req.query.lazyChunks === 'true';
       
       if (!team || !sprintIdentifier || !identifierType) {
         res.status(400).json({ error: 'Team, sprintIdentifier, and identifierType are required' });
@@ -35,7 +54,9 @@ export class SprintController {
       const decryptedTeamConfig: TeamConfig = {
         ...teamConfig,
         JIRA_TOKEN: decrypt(teamConfig.JIRA_TOKEN),
-        BUILDKITE_TOKEN: decrypt(teamConfig.BUILDKITE_TOKEN)
+        BUILDKITE_TOKEN: decrypt(teamConfig.BUILDKITE_TOKEN),
+        GITHUB_TOKEN: teamConfig.GITHUB_TOKEN && decrypt(teamConfig.GITHUB_TOKEN),
+        GITLAB_TOKEN: teamConfig.GITLAB_TOKEN && decrypt(teamConfig.GITLAB_TOKEN)
       };
       
       // Resolve sprint identifier to stable sprint index
@@ -45,37 +66,279 @@ export class SprintController {
       
       console.log(`Resolved sprint identifier "${sprintIdentifier}" (type: ${type}) to index ${sprintIndex}`);
       
-      // Get sprint metadata to determine if it's active (for cache key generation)
+      const sprintDataService = new SprintDataService(decryptedTeamConfig);
+      // Get sprint metadata to determine if it's active (for cache and job key generation)
       const sprintMetadata = await jiraService.getSprintMetadata(sprintIndex);
       const isActive = sprintMetadata.state === 'active';
+      if (!refresh) {
+        // Check cache using stable sprint index and active state
+        const cached = await getCachedSprintSummary(decryptedTeamConfig, sprintIndex, isActive);
+        if (cached && !sprintDataService.isSyncDue(cached.data)) {
+          console.log(`Cache hit for sprint index ${sprintIndex}${isActive ? ' (active sprint)' : ''}`);
+          if (cached.data.chunks && !lazyChunks) {
+            res.json(await getCachedSprintData(decryptedTeamConfig, sprintIndex, isActive));
+          } else {
+            this.sendGzippedJson(req, res, cached.gzippedJson);
+          }
+          return;
+        }
+        if (cached) {
+          console.log(`Syncing active sprint index ${sprintIndex} fetched at ${cached.data.fetchedAt || 'an unknown time'}`);
+        }
+      }
       
-      // Check cache using stable sprint index and active state
-      const cachedData = await getCachedSprintData(decryptedTeamConfig, sprintIndex, isActive);
-      if (cachedData) {
-        console.log(`Cache hit for sprint index ${sprintIndex}${isActive ? ' (active sprint - daily cache)' : ''}`);
-        res.json(cachedData);
+      if (refresh) {
+        console.log(`Refresh requested for sprint index ${sprintIndex}, fetching fresh data`);
+      }
+      
+      // Fetch fresh data (or sync a cached active sprint) using resolved sprint index (also caches it),
+      // taking over the sprint's job if one is still queued so the worker doesn't fetch it again
+      const sprintData = await new SprintJobService().fetchInline(decryptedTeamConfig, sprintIndex, isActive, refresh);
+      
+      res.json(sprintData);
+    } catch (error) {
+      if (this.handleSprintResolutionError(error, res)) return;
+      console.error('Error getting sprint data:', error);
+      res.status(500).json({ error: 'Failed to get sprint data' });
+    }
+  }
+
+  /**
+   * Get one chunk of a large cached sprint's issues or builds, as listed in its `chunks`.
+   * Query: team, sprintIndex, active (whether the sprint was active), chunkSet, part (issues or builds), chunk
+   */
+  async getSprintChunk(req: Request, res: Response): Promise<void> {
+    try {
+      const { team, chunkSet, part } = req.query;
+      const sprintIndex = parseInt(req.query.sprintIndex as string, 10);
+      const chunkIndex = parseInt(req.query.chunk as string, 10);
+      
+      if (!team || isNaN(sprintIndex) || isNaN(chunkIndex) || typeof chunkSet !== 'string' || !/^[\w-]+$/.test(chunkSet)) {
+        res.status(400).json({ error: 'Team, sprintIndex, chunkSet and chunk are required' });
+        return;
+      }
+      if (part !== 'issues' && part !== 'builds') {
+        res.status(400).json({ error: 'part must be either "issues" or "builds"' });
+        return;
+      }
+      
+      const teams = await getTeamConfigs();
+      const teamConfig = teams.find(t => t.team === team);
+      if (!teamConfig) {
+        res.status(404).json({ error: 'Team not found' });
         return;
       }
       
-      console.log(`Cache miss for sprint index ${sprintIndex}, fetching fresh data`);
+      const chunk = await getCachedSprintChunk(
+        teamConfig, sprintIndex, req.query.active === 'true', chunkSet, part as SprintDataChunkPart, chunkIndex
+      );
+      if (!chunk) {
+        res.status(404).json({ error: 'Chunk not found, the sprint may have been refreshed since it was loaded' });
+        return;
+      }
       
-      // Fetch fresh data using resolved sprint index
-      const buildkiteService = new BuildkiteService(decryptedTeamConfig);
-      const sprintData = await jiraService.getSprintData(sprintIndex);
+      // A chunk set is never rewritten, only replaced by a new one
+      res.set('Cache-Control', 'private, max-age=86400, immutable');
+      this.sendGzippedJson(req, res, chunk);
+    } catch (error) {
+      console.error('Error getting sprint chunk:', error);
+      res.status(500).json({ error: 'Failed to get sprint chunk' });
+    }
+  }
+
+  /**
+   * Get a contiguous range of sprints in one call: the cached ones, plus a job for each sprint that isn't
+   * cached (or is due a sync) for the client to poll, so no sprint is fetched within the request.
+   * Query: team, to (default LATEST_CLOSED), and either from or last=N; identifierType applies to from/to.
+   */
+  async getSprintRange(req: Request, res: Response): Promise<void> {
+    try {
+      const { team, from, last } = req.query;
+      const to = (req.query.to as string) || 'LATEST_CLOSED';
+      const identifierType = (req.query.identifierType as string) || 'index';
       
-      // Add build data if available
-      if (decryptedTeamConfig.BUILDKITE_TOKEN) {
-        const builds = await buildkiteService.getBuilds(sprintData.sprint.start, sprintData.sprint.end);
-        sprintData.builds = builds;
+      if (!team || (from === undefined && last === undefined)) {
+        res.status(400).json({ error: 'Team and either from or last are required' });
+        return;
       }
       
-      // Cache the data using stable sprint index
-      await cacheSprintData(decryptedTeamConfig, sprintIndex, sprintData);
+      // Validate identifierType
+      if (identifierType !== 'index' && identifierType !== 'name') {
+        res.status(400).json({ error: 'identifierType must be either "index" or "name"' });
+        return;
+      }
       
-      res.json(sprintData);
+      const lastCount = last !== undefined ? parseInt(last as string, 10) : undefined;
+      if (lastCount !== undefined && (isNaN(lastCount) || lastCount < 1)) {
+        res.status(400).json({ error: 'last must be a positive number' });
+        return;
+      }
+      
+      const sprintJobService = new SprintJobService();
+      const decryptedTeamConfig = await sprintJobService.getDecryptedTeamConfig(team as string);
+      
+      if (!decryptedTeamConfig) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      // Resolve range boundaries to stable sprint indices once, up front
+      const jiraService = new JiraService(decryptedTeamConfig);
+      const resolveBoundary = (identifier: string) => jiraService.resolveSprintIdentifier(
+        identifier,
+        identifier === 'LATEST_CLOSED' ? 'name' : identifierType as 'index' | 'name'
+      );
+      const toIndex = await resolveBoundary(to);
+      const fromIndex = Math.max(0, lastCount !== undefined ? toIndex - lastCount + 1 : await resolveBoundary(from as string));
+      
+      if (fromIndex > toIndex) {
+        res.status(400).json({ error: `Invalid sprint range: ${fromIndex} to ${toIndex}` });
+        return;
+      }
+      
+      if (toIndex - fromIndex + 1 > SprintController.MAX_RANGE_SIZE) {
+        res.status(400).json({ error: `Sprint range cannot exceed ${SprintController.MAX_RANGE_SIZE} sprints` });
+        return;
+      }
+      
+      console.log(`Resolved sprint range for ${team}: ${fromIndex} to ${toIndex}`);
+      
+      const { sprints, stale } = await new SprintDataService(decryptedTeamConfig).getCachedSprintRange(fromIndex, toIndex);
+      const jobs: SprintJob[] = [];
+      for (const sprintMetadata of stale) {
+        jobs.push(await sprintJobService.enqueue(decryptedTeamConfig, sprintMetadata.index, false, sprintMetadata));
+      }
+      this.runQueuedJobsInline(sprintJobService, jobs);
+      
+      const response: SprintRangeResponse = { sprints, jobs };
+      res.json(response);
     } catch (error) {
-      console.error('Error getting sprint data:', error);
-      res.status(500).json({ error: 'Failed to get sprint data' });
+      if (this.handleSprintResolutionError(error, res)) return;
+      console.error('Error getting sprint range:', error);
+      res.status(500).json({ error: 'Failed to get sprint range' });
+    }
+  }
+
+  /**
+   * List every sprint on a team's board (most recent first) with whether its data is cached
+   */
+  async getTeamSprints(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      const refresh = req.query.refresh === 'true';
+      
+      const decryptedTeamConfig = await new SprintJobService().getDecryptedTeamConfig(teamId);
+      
+      if (!decryptedTeamConfig) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      const jiraService = new JiraService(decryptedTeamConfig);
+      const [catalogue, cachedIndices] = await Promise.all([
+        jiraService.getSprintCatalogue(refresh),
+        listCachedSprintIndices(decryptedTeamConfig)
+      ]);
+      
+      const sprints: SprintSummary[] = catalogue
+        .map(sprint => ({
+          ...sprint,
+          cached: sprint.state !== 'future' && cachedIndices.has(sprint.index)
+        }))
+        .reverse();
+      
+      res.json(sprints);
+    } catch (error) {
+      console.error('Error getting team sprints:', error);
+      res.status(500).json({ error: 'Failed to get team sprints' });
+    }
+  }
+
+  /**
+   * List a team's cached sprint data with size and fetch time, most recent sprint first
+   */
+  async getSprintCache(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      
+      const stored = await getTeamConfig(teamId);
+      if (!stored) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      const [entries, catalogue] = await Promise.all([
+        listCachedSprints(stored.config),
+        getCachedSprintCatalogue(stored.config)
+      ]);
+      const sprintNames = new Map((catalogue?.sprints || []).map(sprint => [sprint.index, sprint.name]));
+      
+      const cache: CachedSprintEntry[] = entries
+        .map(({ key, ...entry }) => ({
+          ...entry,
+          ...(sprintNames.has(entry.sprintIndex) && { sprintName: sprintNames.get(entry.sprintIndex) })
+        }))
+        .sort((a, b) => b.sprintIndex - a.sprintIndex || (b.date || '').localeCompare(a.date || ''));
+      
+      res.json(cache);
+    } catch (error) {
+      console.error('Error getting sprint cache:', error);
+      res.status(500).json({ error: 'Failed to get sprint cache' });
+    }
+  }
+
+  /**
+   * Delete all of a team's cached sprint data and its sprint catalogue
+   */
+  async deleteSprintCache(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      
+      const stored = await getTeamConfig(teamId);
+      if (!stored) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      const deleted = await deleteCachedSprintData(stored.config);
+      await deleteCachedSprintCatalogue(stored.config);
+      
+      res.json({ deleted });
+    } catch (error) {
+      console.error('Error deleting sprint cache:', error);
+      res.status(500).json({ error: 'Failed to delete sprint cache' });
+    }
+  }
+
+  /**
+   * Delete the cached data of one sprint, including earlier daily entries of an active sprint
+   */
+  async deleteSprintCacheEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      const sprintIndex = parseInt(req.params.sprintIndex, 10);
+      
+      if (isNaN(sprintIndex) || sprintIndex < 0) {
+        res.status(400).json({ error: 'sprintIndex must be a non-negative number' });
+        return;
+      }
+      
+      const stored = await getTeamConfig(teamId);
+      if (!stored) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      const deleted = await deleteCachedSprintData(stored.config, sprintIndex);
+      if (deleted === 0) {
+        res.status(404).json({ error: 'Sprint is not cached' });
+        return;
+      }
+      
+      res.json({ deleted });
+    } catch (error) {
+      console.error('Error deleting sprint cache entry:', error);
+      res.status(500).json({ error: 'Failed to delete sprint cache entry' });
     }
   }
 
@@ -107,7 +370,9 @@ export class SprintController {
       const decryptedTeamConfig: TeamConfig = {
         ...teamConfig,
         JIRA_TOKEN: decrypt(teamConfig.JIRA_TOKEN),
-        BUILDKITE_TOKEN: decrypt(teamConfig.BUILDKITE_TOKEN)
+        BUILDKITE_TOKEN: decrypt(teamConfig.BUILDKITE_TOKEN),
+        GITHUB_TOKEN: teamConfig.GITHUB_TOKEN && decrypt(teamConfig.GITHUB_TOKEN),
+        GITLAB_TOKEN: teamConfig.GITLAB_TOKEN && decrypt(teamConfig.GITLAB_TOKEN)
       };
       
       // Resolve sprint identifier to stable sprint index
@@ -132,9 +397,108 @@ export class SprintController {
         });
       }
     } catch (error) {
+      if (this.handleSprintResolutionError(error, res)) return;
       console.error('Error in wait endpoint:', error);
       res.status(500).json({ error: 'Failed to check sprint data status' });
     }
   }
 
+  async createSprintJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { team, sprintIdentifier, identifierType, refresh } = req.body;
+      
+      if (!team || sprintIdentifier === undefined || sprintIdentifier === '' || !identifierType) {
+        res.status(400).json({ error: 'Team, sprintIdentifier, and identifierType are required' });
+        return;
+      }
+      
+      // Validate identifierType
+      if (identifierType !== 'index' && identifierType !== 'name') {
+        res.status(400).json({ error: 'identifierType must be either "index" or "name"' });
+        return;
+      }
+      
+      const sprintJobService = new SprintJobService();
+      const decryptedTeamConfig = await sprintJobService.getDecryptedTeamConfig(team);
+      
+      if (!decryptedTeamConfig) {
+        res.status(404).json({ error: 'Team not found' });
+        return;
+      }
+      
+      // Resolve sprint identifier to stable sprint index so the job ID matches the cache key
+      const jiraService = new JiraService(decryptedTeamConfig);
+      const sprintIndex = await jiraService.resolveSprintIdentifier(sprintIdentifier, identifierType);
+      
+      const job = await sprintJobService.enqueue(decryptedTeamConfig, sprintIndex, refresh === true);
+      this.runQueuedJobsInline(sprintJobService, [job]);
+      
+      res.status(job.status === 'completed' ? 200 : 202).json(job);
+    } catch (error) {
+      if (this.handleSprintResolutionError(error, res)) return;
+      console.error('Error creating sprint job:', error);
+      res.status(500).json({ error: 'Failed to create sprint job' });
+    }
+  }
+
+  async getSprintJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId } = req.params;
+      
+      const job = await new SprintJobService().getJob(jobId);
+      
+      // Jobs of other teams are reported as missing rather than forbidden
+      if (!job || !canAccessTeam(req.user, job.team)) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+      
+      res.json(job);
+    } catch (error) {
+      console.error('Error getting sprint job:', error);
+      res.status(500).json({ error: 'Failed to get sprint job' });
+    }
+  }
+
+  /**
+   * Without a separate worker process, run the queue in this process after responding
+   */
+  private runQueuedJobsInline(sprintJobService: SprintJobService, jobs: SprintJob[]): void {
+    if (jobs.some(job => job.status === 'queued') && process.env.SPRINT_JOB_RUNNER === 'inline') {
+      sprintJobService.processQueuedJobs().catch(error => {
+        console.error('Error running sprint jobs inline:', error);
+      });
+    }
+  }
+
+  /**
+   * Send JSON that is stored gzipped as-is, so it isn't decompressed and compressed again
+   */
+  private sendGzippedJson(req: Request, res: Response, gzippedJson: Buffer): void {
+    res.type('json');
+    res.vary('Accept-Encoding');
+    if (!req.acceptsEncodings('gzip')) {
+      res.send(zlib.gunzipSync(gzippedJson));
+      return;
+    }
+    // The compression middleware leaves responses that already have a Content-Encoding alone
+    res.set('Content-Encoding', 'gzip');
+    res.send(gzippedJson);
+  }
+
+  /**
+   * Map sprint lookup failures to client errors
+   * @returns true if a response was sent
+   */
+  private handleSprintResolutionError(error: unknown, res: Response): boolean {
+    if (error instanceof SprintNotFoundError) {
+      res.status(404).json({ error: error.message, candidates: error.candidates });
+      return true;
+    }
+    if (error instanceof SprintNotStartedError) {
+      res.status(400).json({ error: error.message });
+      return true;
+    }
+    return false;
+  }
 }
@@ -1,19 +1,34 @@
 import { Request, Response } from 'express';
-import { TeamConfig } from '../types';
-import { getTeamConfigs, saveTeamConfigs } from '../utils/s3';
+import { TeamConfig, TeamAuditAction } from '../types';
+import { listTeamConfigs, getTeamConfig, createTeamConfig, updateTeamConfig, deleteTeamConfig } from '../utils/storage';
 import { encrypt, decrypt } from '../utils/encryption';
+import { JiraService } from '../services/jiraService';
+import { TeamValidationService } from '../services/teamValidationService';
+import { TeamAuditService } from '../services/teamAuditService';
+import { canAccessTeam } from '../services/authService';
+import { normaliseBaseUrl } from '../utils/jiraUrl';
+import { WORKFLOW_CATEGORIES, parseWorkflowProfile } from '../utils/workflow';
+import { parseReleaseRules } from '../utils/releaseRules';
+import { ConflictError } from '../utils/errors';
+
+const INVALID_JIRA_BASE_URL = 'JIRA_BASE_URL must be an https URL, e.g. https://your-domain.atlassian.net';
+const INVALID_GITLAB_BASE_URL = 'GITLAB_BASE_URL must be an https URL, e.g. https://gitlab.example.com';
+const INVALID_WORKFLOW_PROFILE = `WORKFLOW_PROFILE must map column or status names to one of: ${WORKFLOW_CATEGORIES.join(', ')}`;
+const INVALID_RELEASE_RULES = 'BUILDKITE_RELEASE_RULES must map pipeline slugs to rules with valid regexes ' +
+  '(blockStepPattern, metaData and env values) and a boolean followTriggers';
+const ENCRYPTED_PLACEHOLDER = '***encrypted***';
+
+type TeamTokens = { JIRA_TOKEN: string; BUILDKITE_TOKEN: string; GITHUB_TOKEN?: string; GITLAB_TOKEN?: string };
 
 export class TeamController {
+  private auditService = new TeamAuditService();
+
   async getTeams(req: Request, res: Response): Promise<void> {
     try {
-      const teams = await getTeamConfigs();
+      const teams = (await listTeamConfigs()).filter(team => canAccessTeam(req.user, team.config.team));
       
-      // Decrypt sensitive fields for display
-      const decryptedTeams = teams.map(team => ({
-        ...team,
-        JIRA_TOKEN: '***encrypted***',
-        BUILDKITE_TOKEN: '***encrypted***'
-      }));
+      // Hide tokens; the ETag is sent back as If-Match when saving
+      const decryptedTeams = teams.map(({ config, etag }) => ({ ...this.maskTokens(config), etag }));
       
       res.json(decryptedTeams);
     } catch (error) {
@@ -24,26 +39,60 @@ export class TeamController {
 
   async createTeam(req: Request, res: Response): Promise<void> {
     try {
-      const teamData: TeamConfig = req.body;
+      const { etag: _etag, ...teamData }: TeamConfig & { etag?: string } = req.body;
+      
+      if (!teamData.team || !teamData.team.trim() || !/\w/.test(teamData.team)) {
+        res.status(400).json({ error: 'team name is required' });
+        return;
+      }
+      
+      const jiraBaseUrl = this.parseBaseUrl(teamData.JIRA_BASE_URL);
+      if (jiraBaseUrl === null) {
+        res.status(400).json({ error: INVALID_JIRA_BASE_URL });
+        return;
+      }
+      
+      const gitlabBaseUrl = this.parseBaseUrl(teamData.GITLAB_BASE_URL);
+      if (gitlabBaseUrl === null) {
+        res.status(400).json({ error: INVALID_GITLAB_BASE_URL });
+        return;
+      }
+      
+      const workflowProfile = parseWorkflowProfile(teamData.WORKFLOW_PROFILE);
+      if (workflowProfile === null) {
+        res.status(400).json({ error: INVALID_WORKFLOW_PROFILE });
+        return;
+      }
+      
+      const releaseRules = parseReleaseRules(teamData.BUILDKITE_RELEASE_RULES);
+      if (releaseRules === null) {
+        res.status(400).json({ error: INVALID_RELEASE_RULES });
+        return;
+      }
       
       // Encrypt sensitive fields
       const encryptedTeam: TeamConfig = {
         ...teamData,
+        team: teamData.team.trim(),
+        JIRA_BASE_URL: jiraBaseUrl,
+        GITLAB_BASE_URL: gitlabBaseUrl,
+        WORKFLOW_PROFILE: workflowProfile,
+        BUILDKITE_RELEASE_RULES: releaseRules,
         JIRA_TOKEN: encrypt(teamData.JIRA_TOKEN),
-        BUILDKITE_TOKEN: encrypt(teamData.BUILDKITE_TOKEN)
+        BUILDKITE_TOKEN: encrypt(teamData.BUILDKITE_TOKEN),
+        GITHUB_TOKEN: teamData.GITHUB_TOKEN ? encrypt(teamData.GITHUB_TOKEN) : undefined,
+        GITLAB_TOKEN: teamData.GITLAB_TOKEN ? encrypt(teamData.GITLAB_TOKEN) : undefined
       };
       
-      const existingTeams = await getTeamConfigs();
-      const updatedTeams = [...existingTeams, encryptedTeam];
-      
-      await saveTeamConfigs(updatedTeams);
-      
-      res.status(201).json({ 
-        ...encryptedTeam,
-        JIRA_TOKEN: '***encrypted***',
-        BUILDKITE_TOKEN: '***encrypted***'
+      const etag = await createTeamConfig(encryptedTeam);
+      // Recorded once saved, as a duplicate name only shows then; nothing is lost if this fails
+      await this.recordAudit('create', req, undefined, encryptedTeam).catch(error => {
+        console.error('Failed to record create in team audit log:', error);
       });
+      
+      res.status(201).json({ ...this.maskTokens(encryptedTeam), etag });
     } catch (error) {
+      if (this.handleConflict(error, res)) return;
       console.error('Error creating team:', error);
       res.status(500).json({ error: 'Failed to create team' });
     }
@@ -54,43 +103,89 @@ export class TeamController {
       const { teamId } = req.params;
       const teamData: TeamConfig = req.body;
       
-      const existingTeams = await getTeamConfigs();
-      const teamIndex = existingTeams.findIndex(t => t.team === teamId);
-      
-      if (teamIndex === -1) {
+      const stored = await getTeamConfig(teamId);
+      if (!stored) {
         res.status(404).json({ error: 'Team not found' });
         return;
       }
       
-      const existingTeam = existingTeams[teamIndex];
+      const existingTeam = stored.config;
+      const etag = this.getExpectedEtag(req, stored.etag);
+      if (etag === null) {
+        res.status(409).json({ error: `Team "${teamId}" was changed by someone else, reload it and try again` });
+        return;
+      }
+      
+      const jiraBaseUrl = this.parseBaseUrl(teamData.JIRA_BASE_URL);
+      if (jiraBaseUrl === null) {
+        res.status(400).json({ error: INVALID_JIRA_BASE_URL });
+        return;
+      }
+      
+      const gitlabBaseUrl = this.parseBaseUrl(teamData.GITLAB_BASE_URL);
+      if (gitlabBaseUrl === null) {
+        res.status(400).json({ error: INVALID_GITLAB_BASE_URL });
+        return;
+      }
+      
+      const workflowProfile = parseWorkflowProfile(teamData.WORKFLOW_PROFILE);
+      if (workflowProfile === null) {
+        res.status(400).json({ error: INVALID_WORKFLOW_PROFILE });
+        return;
+      }
+      
+      const releaseRules = parseReleaseRules(teamData.BUILDKITE_RELEASE_RULES);
+      if (releaseRules === null) {
+        res.status(400).json({ error: INVALID_RELEASE_RULES });
+        return;
+      }
+      
+      // A kept token would otherwise be sent to the new site on the next sprint fetch
+      const siteChange = this.findStoredTokenSiteChange(teamData, existingTeam);
+      if (siteChange) {
+        res.status(400).json({ error: siteChange });
+        return;
+      }
       
       // Prepare updated team data
       const updatedTeam: TeamConfig = {
         team: existingTeam.team, // Keep the original team name
         JIRA_EMAIL: teamData.JIRA_EMAIL,
+        JIRA_BASE_URL: jiraBaseUrl,
         JIRA_PROJECT: teamData.JIRA_PROJECT,
         JIRA_BOARD_ID: teamData.JIRA_BOARD_ID,
         BUILDKITE_PIPELINES: teamData.BUILDKITE_PIPELINES,
+        GITLAB_BASE_URL: gitlabBaseUrl,
         INCIDENT_FIELD: teamData.INCIDENT_FIELD,
         INCIDENT_REGEX: teamData.INCIDENT_REGEX,
+        JIRA_STORY_POINTS_FIELD: teamData.JIRA_STORY_POINTS_FIELD,
+        JIRA_CATEGORY_FIELDS: teamData.JIRA_CATEGORY_FIELDS,
+        JIRA_EPIC_FIELD: teamData.JIRA_EPIC_FIELD,
+        JIRA_ASSIGNEE_FIELD: teamData.JIRA_ASSIGNEE_FIELD,
+        JIRA_TEAM_FIELD: teamData.JIRA_TEAM_FIELD,
+        WORKFLOW_PROFILE: workflowProfile,
+        BUILDKITE_RELEASE_RULES: releaseRules,
         // Only encrypt tokens if they are not the placeholder value
-        JIRA_TOKEN: teamData.JIRA_TOKEN === '***encrypted***' 
+        JIRA_TOKEN: teamData.JIRA_TOKEN === ENCRYPTED_PLACEHOLDER 
           ? existingTeam.JIRA_TOKEN 
           : encrypt(teamData.JIRA_TOKEN),
-        BUILDKITE_TOKEN: teamData.BUILDKITE_TOKEN === '***encrypted***' 
+        BUILDKITE_TOKEN: teamData.BUILDKITE_TOKEN === ENCRYPTED_PLACEHOLDER 
           ? existingTeam.BUILDKITE_TOKEN 
-          : encrypt(teamData.BUILDKITE_TOKEN)
+          : encrypt(teamData.BUILDKITE_TOKEN),
+        GITHUB_TOKEN: teamData.GITHUB_TOKEN === ENCRYPTED_PLACEHOLDER
+          ? existingTeam.GITHUB_TOKEN
+          : teamData.GITHUB_TOKEN ? encrypt(teamData.GITHUB_TOKEN) : undefined,
+        GITLAB_TOKEN: teamData.GITLAB_TOKEN === ENCRYPTED_PLACEHOLDER
+          ? existingTeam.GITLAB_TOKEN
+          : teamData.GITLAB_TOKEN ? encrypt(teamData.GITLAB_TOKEN) : undefined
       };
       
-      existingTeams[teamIndex] = updatedTeam;
-      await saveTeamConfigs(existingTeams);
+      await this.recordAudit('update', req, existingTeam, updatedTeam);
+      const newEtag = await updateTeamConfig(updatedTeam, etag);
       
-      res.json({ 
-        ...updatedTeam,
-        JIRA_TOKEN: '***encrypted***',
-        BUILDKITE_TOKEN: '***encrypted***'
-      });
+      res.json({ ...this.maskTokens(updatedTeam), etag: newEtag });
     } catch (error) {
+      if (this.handleConflict(error, res)) return;
       console.error('Error updating team:', error);
       res.status(500).json({ error: 'Failed to update team' });
     }
@@ -100,19 +195,289 @@ export class TeamController {
     try {
       const { teamId } = req.params;
       
-      const existingTeams = await getTeamConfigs();
-      const filteredTeams = existingTeams.filter(t => t.team !== teamId);
-      
-      if (filteredTeams.length === existingTeams.length) {
+      const stored = await getTeamConfig(teamId);
+      if (!stored) {
         res.status(404).json({ error: 'Team not found' });
         return;
       }
       
-      await saveTeamConfigs(filteredTeams);
+      const etag = this.getExpectedEtag(req, stored.etag);
+      if (etag === null) {
+        res.status(409).json({ error: `Team "${teamId}" was changed by someone else, reload it and try again` });
+        return;
+      }
+      
+      await this.recordAudit('delete', req, stored.config, undefined);
+      await deleteTeamConfig(teamId, etag);
       res.status(204).send();
     } catch (error) {
+      if (this.handleConflict(error, res)) return;
       console.error('Error deleting team:', error);
       res.status(500).json({ error: 'Failed to delete team' });
     }
   }
+
+  /**
+   * A team's configuration history, newest first. Also works for deleted teams.
+   */
+  async getTeamAudit(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      
+      const entries = await this.auditService.getAuditLog(teamId);
+      if (entries.length === 0) {
+        res.status(404).json({ error: 'No audit history for team' });
+        return;
+      }
+      
+      res.json(entries);
+    } catch (error) {
+      console.error('Error getting team audit log:', error);
+      res.status(500).json({ error: 'Failed to get team audit log' });
+    }
+  }
+
+  /**
+   * Restore a team's configuration from an audit snapshot, re-creating the team if it was deleted
+   */
+  async restoreTeam(req: Request, res: Response): Promise<void> {
+    try {
+      const { teamId } = req.params;
+      const version = Number(req.body?.version);
+      
+      if (!Number.isInteger(version) || version < 1) {
+        res.status(400).json({ error: 'version must be a positive integer' });
+        return;
+      }
+      
+      const snapshot = await this.auditService.getSnapshot(teamId, version);
+      if (!snapshot || snapshot.team !== teamId) {
+        res.status(404).json({ error: 'Version not found' });
+        return;
+      }
+      
+      const current = await getTeamConfig(teamId);
+      await this.recordAudit('restore', req, current?.config, snapshot, version);
+      const etag = current
+        ? await updateTeamConfig(snapshot, current.etag)
+        : await createTeamConfig(snapshot);
+      
+      res.json({ ...this.maskTokens(snapshot), etag });
+    } catch (error) {
+      if (this.handleConflict(error, res)) return;
+      console.error('Error restoring team:', error);
+      res.status(500).json({ error: 'Failed to restore team' });
+    }
+  }
+
+  /**
+   * List the Jira instance's fields so a team's field mappings can be picked from a dropdown.
+   * Accepts unsaved credentials; the encrypted placeholder falls back to the saved team's token.
+   */
+  async discoverJiraFields(req: Request, res: Response): Promise<void> {
+    try {
+      const teamData: Partial<TeamConfig> = req.body;
+      
+      if (!teamData.JIRA_EMAIL || !teamData.JIRA_TOKEN) {
+        res.status(400).json({ error: 'JIRA_EMAIL and JIRA_TOKEN are required' });
+        return;
+      }
+      
+      const jiraBaseUrl = this.parseBaseUrl(teamData.JIRA_BASE_URL);
+      if (jiraBaseUrl === null) {
+        res.status(400).json({ error: INVALID_JIRA_BASE_URL });
+        return;
+      }
+      
+      const releaseRules = parseReleaseRules(teamData.BUILDKITE_RELEASE_RULES);
+      if (releaseRules === null) {
+        res.status(400).json({ error: INVALID_RELEASE_RULES });
+        return;
+      }
+      
+      const resolved = await this.resolveTokens(teamData);
+      if ('error' in resolved) {
+        res.status(resolved.status).json({ error: resolved.error });
+        return;
+      }
+      
+      const jiraService = new JiraService({ ...teamData, ...resolved.tokens, JIRA_BASE_URL: jiraBaseUrl } as TeamConfig);
+      
+      try {
+        const fields = await jiraService.getFields();
+        res.json(fields);
+      } catch (error) {
+        console.error('Error listing Jira fields:', error);
+        res.status(400).json({ error: 'Could not list Jira fields, check the Jira email and token' });
+      }
+    } catch (error) {
+      console.error('Error discovering Jira fields:', error);
+      res.status(500).json({ error: 'Failed to discover Jira fields' });
+    }
+  }
+
+  /**
+   * Check a team's settings against Jira and its CI providers without saving them.
+   * Accepts unsaved credentials; the encrypted placeholders fall back to the saved team's tokens.
+   */
+  async validateTeam(req: Request, res: Response): Promise<void> {
+    try {
+      const teamData: Partial<TeamConfig> = req.body;
+      
+      if (!teamData.JIRA_EMAIL || !teamData.JIRA_TOKEN || !teamData.JIRA_PROJECT || !teamData.JIRA_BOARD_ID) {
+        res.status(400).json({ error: 'JIRA_EMAIL, JIRA_TOKEN, JIRA_PROJECT and JIRA_BOARD_ID are required' });
+        return;
+      }
+      
+      const jiraBaseUrl = this.parseBaseUrl(teamData.JIRA_BASE_URL);
+      if (jiraBaseUrl === null) {
+        res.status(400).json({ error: INVALID_JIRA_BASE_URL });
+        return;
+      }
+      
+      const gitlabBaseUrl = this.parseBaseUrl(teamData.GITLAB_BASE_URL);
+      if (gitlabBaseUrl === null) {
+        res.status(400).json({ error: INVALID_GITLAB_BASE_URL });
+        return;
+      }
+      
+      const releaseRules = parseReleaseRules(teamData.BUILDKITE_RELEASE_RULES);
+      if (releaseRules === null) {
+        res.status(400).json({ error: INVALID_RELEASE_RULES });
+        return;
+      }
+      
+      const resolved = await this.resolveTokens(teamData);
+      if ('error' in resolved) {
+        res.status(resolved.status).json({ error: resolved.error });
+        return;
+      }
+      
+      const teamConfig = {
+        ...teamData,
+        ...resolved.tokens,
+        JIRA_BASE_URL: jiraBaseUrl,
+        BUILDKITE_PIPELINES: teamData.BUILDKITE_PIPELINES || '',
+        GITLAB_BASE_URL: gitlabBaseUrl,
+        BUILDKITE_RELEASE_RULES: releaseRules
+      } as TeamConfig;
+      
+      const result = await new TeamValidationService(teamConfig).validate();
+      res.json(result);
+    } catch (error) {
+      console.error('Error validating team:', error);
+      res.status(500).json({ error: 'Failed to validate team' });
+    }
+  }
+
+  /**
+   * Swap the encrypted placeholders in a request for the saved team's decrypted tokens. Stored Jira and GitLab
+   * tokens are only sent to the team's saved sites, so a request for another site must carry its own.
+   * @returns The status and message to respond with when a placeholder is used but the team doesn't exist
+   * or the request changes the site of a stored token
+   */
+  private async resolveTokens(
+    teamData: Partial<TeamConfig>
+  ): Promise<{ tokens: TeamTokens } | { status: number; error: string }> {
+    let jiraToken = teamData.JIRA_TOKEN || '';
+    let buildkiteToken = teamData.BUILDKITE_TOKEN || '';
+    let githubToken = teamData.GITHUB_TOKEN || undefined;
+    let gitlabToken = teamData.GITLAB_TOKEN || undefined;
+    
+    if ([jiraToken, buildkiteToken, githubToken, gitlabToken].includes(ENCRYPTED_PLACEHOLDER)) {
+      const existingTeam = teamData.team ? (await getTeamConfig(teamData.team))?.config : undefined;
+      if (!existingTeam) {
+        return { status: 404, error: 'Team not found' };
+      }
+      const siteChange = this.findStoredTokenSiteChange(teamData, existingTeam);
+      if (siteChange) {
+        return { status: 400, error: siteChange };
+      }
+      if (jiraToken === ENCRYPTED_PLACEHOLDER) jiraToken = decrypt(existingTeam.JIRA_TOKEN);
+      if (buildkiteToken === ENCRYPTED_PLACEHOLDER) buildkiteToken = decrypt(existingTeam.BUILDKITE_TOKEN);
+      if (githubToken === ENCRYPTED_PLACEHOLDER) githubToken = existingTeam.GITHUB_TOKEN && decrypt(existingTeam.GITHUB_TOKEN);
+      if (gitlabToken === ENCRYPTED_PLACEHOLDER) gitlabToken = existingTeam.GITLAB_TOKEN && decrypt(existingTeam.GITLAB_TOKEN);
+    }
+    
+    return { tokens: { JIRA_TOKEN: jiraToken, BUILDKITE_TOKEN: buildkiteToken, GITHUB_TOKEN: githubToken, GITLAB_TOKEN: gitlabToken } };
+  }
+
+  /**
+   * Find a stored token the request would send to a different site than the saved one
+   * @returns The error message, or null when every kept token stays with its site
+   */
+  private findStoredTokenSiteChange(teamData: Partial<TeamConfig>, existingTeam: TeamConfig): string | null {
+    const sameSite = (requested?: string, stored?: string) =>
+      (this.parseBaseUrl(requested) ?? undefined) === (this.parseBaseUrl(stored) ?? undefined);
+    
+    if (teamData.JIRA_TOKEN === ENCRYPTED_PLACEHOLDER && !sameSite(teamData.JIRA_BASE_URL, existingTeam.JIRA_BASE_URL)) {
+      return 'JIRA_TOKEN must be entered again when JIRA_BASE_URL changes';
+    }
+    if (teamData.GITLAB_TOKEN === ENCRYPTED_PLACEHOLDER && !sameSite(teamData.GITLAB_BASE_URL, existingTeam.GITLAB_BASE_URL)) {
+      return 'GITLAB_TOKEN must be entered again when GITLAB_BASE_URL changes';
+    }
+    return null;
+  }
+
+  /**
+   * A stored team as sent to clients, with its tokens replaced by the encrypted placeholder
+   */
+  private maskTokens(config: TeamConfig): TeamConfig {
+    return {
+      ...config,
+      JIRA_TOKEN: ENCRYPTED_PLACEHOLDER,
+      BUILDKITE_TOKEN: ENCRYPTED_PLACEHOLDER,
+      GITHUB_TOKEN: config.GITHUB_TOKEN ? ENCRYPTED_PLACEHOLDER : undefined,
+      GITLAB_TOKEN: config.GITLAB_TOKEN ? ENCRYPTED_PLACEHOLDER : undefined
+    };
+  }
+
+  /**
+   * The version a change is based on: the request's If-Match header, or the version just read
+   * @returns null when the If-Match header names an older version
+   */
+  private getExpectedEtag(req: Request, currentEtag: string): string | null {
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) {
+      return currentEtag;
+    }
+    return ifMatch === currentEtag ? currentEtag : null;
+  }
+
+  /**
+   * @returns true if a 409 response was sent
+   */
+  private handleConflict(error: unknown, res: Response): boolean {
+    if (error instanceof ConflictError) {
+      res.status(409).json({ error: error.message });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Append to the team's audit trail. Changes that replace or remove a stored config are recorded before
+   * they are saved, so that config's snapshot is kept and the change fails if it can't be recorded
+   * (a change that then loses a race to a concurrent one leaves its entry behind).
+   */
+  private async recordAudit(
+    action: TeamAuditAction,
+    req: Request,
+    before: TeamConfig | undefined,
+    after: TeamConfig | undefined,
+    restoredFromVersion?: number
+  ): Promise<void> {
+    await this.auditService.record(action, req.user, before, after, restoredFromVersion);
+  }
+
+  /**
+   * Normalise an optional per-team site URL (Jira or GitLab)
+   * @returns undefined when not set (use the default site), null when invalid
+   */
+  private parseBaseUrl(value?: string): string | undefined | null {
+    if (!value || !value.trim()) {
+      return undefined;
+    }
+    return normaliseBaseUrl(value);
+  }
 }
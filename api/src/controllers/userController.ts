@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { UserRole } from '../types';
+import { getTeamConfigs } from '../utils/storage';
+import { AuthService } from '../services/authService';
+
+const USER_ROLES: UserRole[] = ['admin', 'member'];
+
+export class UserController {
+  constructor(private authService: AuthService) {
+    this.authService = authService;
+  }
+
+  async getCurrentUser(req: Request, res: Response): Promise<void> {
+    res.json(req.user);
+  }
+
+  async getUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const memberships = await this.authService.listMemberships();
+      res.json(memberships);
+    } catch (error) {
+      console.error('Error getting users:', error);
+      res.status(500).json({ error: 'Failed to get users' });
+    }
+  }
+
+  /**
+   * Create or replace a user's role and team memberships
+   */
+  async saveUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const access = await this.parseAccess(req.body, res);
+      if (!access) return;
+
+      const membership = await this.authService.saveMembership(userId, access.role, access.teams);
+      res.json(membership);
+    } catch (error) {
+      console.error('Error saving user:', error);
+      res.status(500).json({ error: 'Failed to save user' });
+    }
+  }
+
+  async deleteUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const deleted = await this.authService.deleteMembership(userId);
+      if (!deleted) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ error: 'Failed to delete user' });
+    }
+  }
+
+  async getApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const apiKeys = await this.authService.listApiKeys();
+      res.json(apiKeys.map(({ keyHash, ...apiKey }) => apiKey));
+    } catch (error) {
+      console.error('Error getting API keys:', error);
+      res.status(500).json({ error: 'Failed to get API keys' });
+    }
+  }
+
+  /**
+   * Create an API key; the response is the only time the key is returned
+   */
+  async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { name } = req.body;
+      if (!name || typeof name !== 'string') {
+        res.status(400).json({ error: 'name is required' });
+        return;
+      }
+
+      const access = await this.parseAccess(req.body, res);
+      if (!access) return;
+
+      const { record, key } = await this.authService.createApiKey(name, access.role, access.teams);
+      const { keyHash, ...apiKey } = record;
+      res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  }
+
+  async deleteApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { keyId } = req.params;
+
+      const deleted = await this.authService.deleteApiKey(keyId);
+      if (!deleted) {
+        res.status(404).json({ error: 'API key not found' });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting API key:', error);
+      res.status(500).json({ error: 'Failed to delete API key' });
+    }
+  }
+
+  /**
+   * Read `{ role, teams }` from a request body, checking the teams exist
+   * @returns null if a 400 response was sent
+   */
+  private async parseAccess(body: any, res: Response): Promise<{ role: UserRole; teams: string[] } | null> {
+    const role = body.role || 'member';
+    const teams = body.teams || [];
+
+    if (!USER_ROLES.includes(role)) {
+      res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+      return null;
+    }
+    if (!Array.isArray(teams) || teams.some(team => typeof team !== 'string')) {
+      res.status(400).json({ error: 'teams must be a list of team names' });
+      return null;
+    }
+
+    const existingTeams = new Set((await getTeamConfigs()).map(t => t.team));
+    const unknownTeams = teams.filter((team: string) => !existingTeams.has(team));
+    if (unknownTeams.length > 0) {
+      res.status(400).json({ error: `Unknown teams: ${unknownTeams.join(', ')}` });
+      return null;
+    }
+
+    return { role, teams };
+  }
+}
@@ -5,9 +5,13 @@ import helmet from 'helmet';
 import compression from 'compression';
 import serverless from 'serverless-http';
 import routes from './routes';
+import { getKeyring } from './utils/encryption';
 
 dotenv.config({ path: process.env.ENV_FILE || '.env' });
 
+// Refuse to start without an encryption key rather than store credentials with a default one
+getKeyring();
+
 const app = express();
 
 // Set server timeout to 60 seconds for long-running requests (only for non-Lambda environments)
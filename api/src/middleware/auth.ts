@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthUser } from '../types';
+import { AuthService, canAccessTeam } from '../services/authService';
+import { AuthenticationError } from '../utils/errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Require an authenticated user on every request that reaches this middleware and expose it as `req.user`
+ */
+export function authenticate(authService: AuthService): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await authService.authenticate(req);
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      req.user = user;
+      next();
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      // e.g. the OIDC issuer is unreachable - don't report that as bad credentials
+      console.error('Error authenticating request:', error);
+      res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+  };
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (req.user?.role !== 'admin') {
+    res.status(403).json({ error: 'Admin role required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Require access to the team a request targets. Requests without a team fall through
+ * so the controller can report the missing parameter.
+ * @param getTeam - Reads the team name from the request
+ */
+export function requireTeamAccess(getTeam: (req: Request) => unknown): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const team = getTeam(req);
+    if (typeof team === 'string' && team && !canAccessTeam(req.user, team)) {
+      res.status(403).json({ error: 'You do not have access to this team' });
+      return;
+    }
+    next();
+  };
+}
@@ -2,32 +2,66 @@ import { Router } from 'express';
 import { TeamController } from '../controllers/teamController';
 import { SprintController } from '../controllers/sprintController';
 import { LLMController } from '../controllers/llmController';
+import { UserController } from '../controllers/userController';
+import { AuthService } from '../services/authService';
+import { authenticate, requireAdmin, requireTeamAccess } from '../middleware/auth';
 
 const router = Router();
 
 // Initialize controllers
+const authService = new AuthService();
 const teamController = new TeamController();
 const sprintController = new SprintController();
 const llmController = new LLMController();
+const userController = new UserController(authService);
+
+// Team access checks for routes that name a team
+const queryTeamAccess = requireTeamAccess(req => req.query.team);
+const bodyTeamAccess = requireTeamAccess(req => req.body?.team);
+const paramTeamAccess = requireTeamAccess(req => req.params.teamId);
+
+// Health check (public)
+router.get('/health', (req, res) => {
+  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Everything below requires an authenticated user
+router.use(authenticate(authService));
+
+// Current user, users and API keys
+router.get('/me', (req, res) => userController.getCurrentUser(req, res));
+router.get('/users', requireAdmin, (req, res) => userController.getUsers(req, res));
+router.put('/users/:userId', requireAdmin, (req, res) => userController.saveUser(req, res));
+router.delete('/users/:userId', requireAdmin, (req, res) => userController.deleteUser(req, res));
+router.get('/api-keys', requireAdmin, (req, res) => userController.getApiKeys(req, res));
+router.post('/api-keys', requireAdmin, (req, res) => userController.createApiKey(req, res));
+router.delete('/api-keys/:keyId', requireAdmin, (req, res) => userController.deleteApiKey(req, res));
 
 // Team management routes
 router.get('/teams', (req, res) => teamController.getTeams(req, res));
-router.post('/teams', (req, res) => teamController.createTeam(req, res));
-router.put('/teams/:teamId', (req, res) => teamController.updateTeam(req, res));
-router.delete('/teams/:teamId', (req, res) => teamController.deleteTeam(req, res));
+router.post('/teams', requireAdmin, (req, res) => teamController.createTeam(req, res));
+router.post('/teams/jira-fields', requireAdmin, (req, res) => teamController.discoverJiraFields(req, res));
+router.post('/teams/validate', requireAdmin, (req, res) => teamController.validateTeam(req, res));
+router.put('/teams/:teamId', requireAdmin, (req, res) => teamController.updateTeam(req, res));
+router.delete('/teams/:teamId', requireAdmin, (req, res) => teamController.deleteTeam(req, res));
+router.get('/teams/:teamId/sprints', paramTeamAccess, (req, res) => sprintController.getTeamSprints(req, res));
+router.get('/teams/:teamId/cache', paramTeamAccess, (req, res) => sprintController.getSprintCache(req, res));
+router.delete('/teams/:teamId/cache', requireAdmin, (req, res) => sprintController.deleteSprintCache(req, res));
+router.delete('/teams/:teamId/cache/:sprintIndex', requireAdmin, (req, res) => sprintController.deleteSprintCacheEntry(req, res));
+router.get('/teams/:teamId/audit', paramTeamAccess, (req, res) => teamController.getTeamAudit(req, res));
+router.post('/teams/:teamId/restore', requireAdmin, (req, res) => teamController.restoreTeam(req, res));
 
 // Sprint data routes
-router.get('/sprints', (req, res) => sprintController.getSprintData(req, res));
-router.get('/sprints/wait', (req, res) => sprintController.getSprintDataWait(req, res));
+router.get('/sprints', queryTeamAccess, (req, res) => sprintController.getSprintData(req, res));
+router.get('/sprints/range', queryTeamAccess, (req, res) => sprintController.getSprintRange(req, res));
+router.get('/sprints/wait', queryTeamAccess, (req, res) => sprintController.getSprintDataWait(req, res));
+router.get('/sprints/chunk', queryTeamAccess, (req, res) => sprintController.getSprintChunk(req, res));
+router.post('/sprints/jobs', bodyTeamAccess, (req, res) => sprintController.createSprintJob(req, res));
+router.get('/sprints/jobs/:jobId', (req, res) => sprintController.getSprintJob(req, res));
 
 // LLM analysis routes
 router.post('/llm/analyze', (req, res) => llmController.analyzeSprint(req, res));
 router.post('/llm/chat', (req, res) => llmController.freeChat(req, res));
 router.post('/llm/visualize', (req, res) => llmController.visualize(req, res));
 
-// Health check
-router.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
 export default router;
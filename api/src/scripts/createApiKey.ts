@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+import { AuthService } from '../services/authService';
+import { UserRole } from '../types';
+
+dotenv.config({ path: process.env.ENV_FILE || '.env' });
+
+/**
+ * Create an API key from the command line, e.g. the first admin key before any OIDC user exists:
+ *
+ *   npm run auth:create-api-key -- <name> [admin|member] [team1,team2]
+ */
+async function main(): Promise<void> {
+  const [name, role = 'member', teams = ''] = process.argv.slice(2);
+  if (!name || (role !== 'admin' && role !== 'member')) {
+    console.error('Usage: npm run auth:create-api-key -- <name> [admin|member] [team1,team2]');
+    process.exit(1);
+  }
+
+  const teamList = teams.split(',').map(t => t.trim()).filter(Boolean);
+  const { record, key } = await new AuthService().createApiKey(name, role as UserRole, teamList);
+
+  console.log(`Created API key "${record.name}" (${record.id}, ${record.role})`);
+  console.log(`Key (shown once): ${key}`);
+}
+
+main().catch(error => {
+  console.error('Failed to create API key:', error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import { SPRINT_DATA_SCHEMA_VERSION, upgradeSprintData } from '../utils/sprintDataMigrations';
+import { listSprintCacheKeys, getCachedSprintDataByKey, replaceCachedSprintData } from '../utils/storage';
+
+dotenv.config({ path: process.env.ENV_FILE || '.env' });
+
+/**
+ * Upgrade every cached sprint of the current API_VERSION to the current schema version and storage format
+ * in place, so entries don't each pay for the upgrade on their first read:
+ *
+ *   npm run cache:migrate -- [--dry-run]
+ *
+ * Run it after deploying a schema change. Rewrites are conditional, so an entry refetched while this
+ * runs is left alone (it's already written in the current version).
+ */
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`Upgrading sprint cache to schema version ${SPRINT_DATA_SCHEMA_VERSION}${dryRun ? ' - dry run' : ''}`);
+
+  let upgraded = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const key of await listSprintCacheKeys()) {
+    try {
+      const cached = await getCachedSprintDataByKey(key);
+      const result = cached && upgradeSprintData(cached.payload);
+      if (!cached || !result) {
+        // Deleted meanwhile, or written by a newer API version
+        skipped++;
+        continue;
+      }
+      // Entries cached before compression are rewritten gzipped (and split into chunks if large)
+      if (!result.upgraded && cached.compressed) continue;
+
+      if (!dryRun && !await replaceCachedSprintData(key, result.data, cached.etag)) {
+        console.log(`${key} changed while upgrading, skipped`);
+        skipped++;
+        continue;
+      }
+      upgraded++;
+    } catch (error) {
+      console.error(`Failed to upgrade ${key}:`, error);
+      failed++;
+    }
+  }
+
+  console.log(`${dryRun ? 'Would upgrade' : 'Upgraded'} ${upgraded} cached sprint(s), skipped ${skipped}, failed ${failed}`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to migrate sprint cache:', error);
+  process.exit(1);
+});
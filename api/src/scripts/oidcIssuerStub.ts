@@ -0,0 +1,142 @@
+import express from 'express';
+import cors from 'cors';
+import { generateKeyPairSync, createSign, createHash, randomUUID } from 'crypto';
+
+/**
+ * Minimal OIDC issuer for local development and manual testing of the API's bearer-token auth.
+ * Keys are generated on start, so tokens only verify while the stub is running.
+ *
+ *   npm run auth:stub
+ *   OIDC_ISSUER=http://localhost:4400 AUTH_PROVIDERS=oidc,api-key npm run dev
+ *   curl "http://localhost:4400/token?sub=alice&email=alice@example.com"
+ *
+ * The web app can also sign in through it (authorization code + PKCE, any client id):
+ *   VITE_OIDC_ISSUER=http://localhost:4400 VITE_OIDC_CLIENT_ID=sprint-insights npm run dev
+ */
+
+const PORT = parseInt(process.env.OIDC_STUB_PORT || '', 10) || 4400;
+const ISSUER = process.env.OIDC_STUB_ISSUER || `http://localhost:${PORT}`;
+const AUDIENCE = process.env.OIDC_AUDIENCE || 'sprint-insights';
+const TOKEN_TTL_SEC = 60 * 60;
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = randomUUID();
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function issueToken(claims: Record<string, unknown>, expiresInSec: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid });
+  const payload = base64url({
+    iss: ISSUER,
+    aud: AUDIENCE,
+    iat: now,
+    exp: now + expiresInSec,
+    ...claims
+  });
+
+  const signature = createSign('sha256').update(`${header}.${payload}`).sign(privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+// Authorization codes waiting to be exchanged, with the PKCE challenge and redirect they were issued for
+const pendingCodes = new Map<string, { claims: Record<string, unknown>; codeChallenge: string; redirectUri: string }>();
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const app = express();
+app.use(cors());
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    jwks_uri: `${ISSUER}/jwks.json`,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    code_challenge_methods_supported: ['S256'],
+    id_token_signing_alg_values_supported: ['RS256']
+  });
+});
+
+app.get('/jwks.json', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+});
+
+// Issue a token for any subject: /token?sub=alice&email=alice@example.com&name=Alice&expiresIn=3600
+// Emails are marked verified unless emailVerified=false is passed
+app.get('/token', (req, res) => {
+  const { sub, email, name, expiresIn, emailVerified } = req.query;
+  if (!sub || typeof sub !== 'string') {
+    res.status(400).json({ error: 'sub is required' });
+    return;
+  }
+
+  const expiresInSec = parseInt(expiresIn as string, 10) || TOKEN_TTL_SEC;
+  const token = issueToken({ sub, ...(email && { email, email_verified: emailVerified !== 'false' }), ...(name && { name }) }, expiresInSec);
+  res.json({ access_token: token, token_type: 'Bearer', expires_in: expiresInSec });
+});
+
+// Sign-in page: asks for the identity to sign in as instead of checking a password
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, code_challenge, code_challenge_method } = req.query;
+  if (typeof redirect_uri !== 'string' || typeof code_challenge !== 'string' || code_challenge_method !== 'S256') {
+    res.status(400).send('redirect_uri and an S256 code_challenge are required');
+    return;
+  }
+
+  const hidden: Record<string, unknown> = { client_id, redirect_uri, state, code_challenge };
+  const hiddenInputs = Object.entries(hidden)
+    .filter(([, value]) => typeof value === 'string')
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value as string)}">`)
+    .join('');
+  res.send(`<!doctype html><title>OIDC issuer stub</title>
+<form method="post" action="/authorize">${hiddenInputs}
+<p><label>Subject <input name="sub" value="alice" required></label></p>
+<p><label>Email <input name="email" value="alice@example.com"></label></p>
+<p><label>Name <input name="name" value="Alice"></label></p>
+<button type="submit">Sign in</button></form>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri, state, code_challenge, sub, email, name } = req.body;
+  if (!sub || !redirect_uri || !code_challenge) {
+    res.status(400).send('sub, redirect_uri and code_challenge are required');
+    return;
+  }
+
+  const code = randomUUID();
+  pendingCodes.set(code, {
+    claims: { sub, ...(email && { email, email_verified: true }), ...(name && { name }) },
+    codeChallenge: code_challenge,
+    redirectUri: redirect_uri
+  });
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (state) {
+    redirect.searchParams.set('state', state);
+  }
+  res.redirect(redirect.toString());
+});
+
+// Authorization code exchange, checking the PKCE verifier against the challenge from /authorize
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const pending = pendingCodes.get(code);
+  pendingCodes.delete(code);
+  if (grant_type !== 'authorization_code' || !pending || pending.redirectUri !== redirect_uri) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+  if (createHash('sha256').update(code_verifier || '').digest('base64url') !== pending.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'code_verifier does not match' });
+    return;
+  }
+
+  const token = issueToken(pending.claims, TOKEN_TTL_SEC);
+  res.json({ access_token: token, token_type: 'Bearer', expires_in: TOKEN_TTL_SEC });
+});
+
+app.listen(PORT, () => {
+  console.log(`OIDC issuer stub running at ${ISSUER} (audience: ${AUDIENCE})`);
+});
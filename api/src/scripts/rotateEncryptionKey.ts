@@ -0,0 +1,88 @@
+import dotenv from 'dotenv';
+import { TeamConfig } from '../types';
+import { decrypt, encrypt, getKeyring, needsReencryption } from '../utils/encryption';
+import { listTeamConfigs, getTeamConfig, updateTeamConfig, listTeamSnapshotKeys, getTeamSnapshotByKey, replaceTeamSnapshot } from '../utils/storage';
+import { ConflictError } from '../utils/errors';
+
+dotenv.config({ path: process.env.ENV_FILE || '.env' });
+
+const TOKEN_FIELDS = ['JIRA_TOKEN', 'BUILDKITE_TOKEN', 'GITHUB_TOKEN', 'GITLAB_TOKEN'] as const;
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Re-encrypt every stored token with the active key, e.g. after adding a new key to the keyring:
+ *
+ *   npm run keys:rotate -- [--dry-run]
+ *
+ * Deploy the new key as active with the old one kept for decryption first, so running instances can read
+ * both while this runs. Team updates are conditional, so a concurrent edit is re-read and retried.
+ */
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  const { activeKeyId, legacyKeyId, keys } = getKeyring();
+  console.log(`Active key: ${activeKeyId} (keyring: ${[...keys.keys()].join(', ')}${legacyKeyId ? `, legacy: ${legacyKeyId}` : ''})${dryRun ? ' - dry run' : ''}`);
+
+  let teamsRotated = 0;
+  for (const { config } of await listTeamConfigs()) {
+    if (await rotateTeam(config.team, dryRun)) {
+      teamsRotated++;
+    }
+  }
+
+  // Restoring a snapshot needs its tokens to decrypt after the old key is retired
+  let snapshotsRotated = 0;
+  for (const key of await listTeamSnapshotKeys()) {
+    const snapshot = await getTeamSnapshotByKey(key);
+    if (!snapshot || !hasStaleTokens(snapshot)) continue;
+
+    if (!dryRun) {
+      await replaceTeamSnapshot(key, reencryptTokens(snapshot));
+    }
+    snapshotsRotated++;
+  }
+
+  console.log(`${dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${teamsRotated} team(s) and ${snapshotsRotated} audit snapshot(s)`);
+}
+
+async function rotateTeam(team: string, dryRun: boolean): Promise<boolean> {
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const stored = await getTeamConfig(team);
+    if (!stored || !hasStaleTokens(stored.config)) {
+      return false;
+    }
+    if (dryRun) {
+      return true;
+    }
+
+    try {
+      await updateTeamConfig(reencryptTokens(stored.config), stored.etag);
+      console.log(`Re-encrypted tokens for team ${team}`);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError) || attempt === MAX_UPDATE_ATTEMPTS) {
+        throw error;
+      }
+      console.log(`Team ${team} changed while rotating, retrying`);
+    }
+  }
+  return false;
+}
+
+function hasStaleTokens(config: TeamConfig): boolean {
+  return TOKEN_FIELDS.some(field => config[field] && needsReencryption(config[field]));
+}
+
+function reencryptTokens(config: TeamConfig): TeamConfig {
+  const updated = { ...config };
+  for (const field of TOKEN_FIELDS) {
+    if (updated[field] && needsReencryption(updated[field])) {
+      updated[field] = encrypt(decrypt(updated[field]));
+    }
+  }
+  return updated;
+}
+
+main().catch(error => {
+  console.error('Failed to rotate encryption key:', error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { BuildkiteService } from '../buildkiteService';
+import { parsePipelines } from '../ciProvider';
+import { TeamConfig } from '../../types';
+import { FixtureRoute, useFixtureFetch } from './fixtureFetch';
+
+const FIXTURES = join(__dirname, 'fixtures', 'buildkite');
+const PIPELINES_PATH = '/v2/organizations/o/pipelines';
+
+const sprintStart = new Date('2026-10-05T00:00:00Z');
+const sprintEnd = new Date('2026-10-18T23:59:59Z');
+
+const routes: FixtureRoute[] = [
+  { path: `${PIPELINES_PATH}/web-release/builds`, fixture: 'builds.json' },
+  { path: `${PIPELINES_PATH}/api-deploy/builds/42`, fixture: 'build-api-deploy-42.json' },
+  { path: `${PIPELINES_PATH}/infra-deploy/builds/7`, fixture: 'build-infra-deploy-7.json' }
+];
+
+const teamConfigFor = (pipelines: string): TeamConfig => {
+  const config: Partial<TeamConfig> = {
+    team: 'shop',
+    BUILDKITE_TOKEN: 'test-token',
+    BUILDKITE_PIPELINES: pipelines,
+    BUILDKITE_RELEASE_RULES: { 'web-release': { followTriggers: true } }
+  };
+  return config as TeamConfig;
+};
+
+describe('BuildkiteService', () => {
+  describe('followTriggers', () => {
+    it('counts the releases of builds started by trigger steps', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, routes);
+      const teamConfig = teamConfigFor('web-release');
+      const [pipelineCfg] = parsePipelines(teamConfig.BUILDKITE_PIPELINES);
+      const [build] = await new BuildkiteService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      assert.deepEqual(build.deployments, [
+        { deployedAt: '2026-10-08T10:19:00.000Z', name: 'api-deploy › Deploy to production', status: 'success' },
+        { deployedAt: '2026-10-08T10:24:00.000Z', name: 'infra-deploy › Deploy to production', status: 'success' }
+      ]);
+      assert.equal(build.isRelease, true);
+    });
+
+    it('skips triggered pipelines that are configured themselves', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, routes);
+      const teamConfig = teamConfigFor('web-release,api-deploy');
+      const [pipelineCfg] = parsePipelines(teamConfig.BUILDKITE_PIPELINES);
+      const [build] = await new BuildkiteService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      // api-deploy's release is counted with its own builds
+      assert.deepEqual(build.deployments, [
+        { deployedAt: '2026-10-08T10:24:00.000Z', name: 'infra-deploy › Deploy to production', status: 'success' }
+      ]);
+      assert.ok(!fixtures.requests.some(url => url.pathname === `${PIPELINES_PATH}/api-deploy/builds/42`));
+    });
+  });
+});
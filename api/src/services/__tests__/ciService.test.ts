@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { CiService } from '../ciService';
+import { Build, TeamConfig } from '../../types';
+import { useFixtureFetch } from './fixtureFetch';
+
+const FIXTURES = join(__dirname, 'fixtures', 'github');
+const REPO_PATH = '/repos/acme/shop';
+
+const teamConfig = { team: 'shop', GITHUB_TOKEN: 'test-token', BUILDKITE_PIPELINES: 'github:acme/shop' } as TeamConfig;
+const sprintStart = new Date('2026-10-05T00:00:00Z');
+
+const release = (buildNumber: number, commit: string, deployedAt: string): Build => ({
+  pipelineName: 'acme/shop',
+  buildNumber,
+  status: 'passed',
+  startedAt: deployedAt,
+  finishedAt: deployedAt,
+  duration: 0,
+  branch: 'main',
+  commit,
+  repository: 'https://github.com/acme/shop',
+  deployments: [{ deployedAt, name: 'production', status: 'success' }],
+  isRelease: true,
+  isReleaseSuccess: true,
+  inSprint: true,
+  provider: 'github'
+});
+
+describe('CiService', () => {
+  describe('linkDeployedCommits', () => {
+    it("measures a pipeline's first deployment in the sprint from its last successful deployment before it", async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, [
+        { path: `${REPO_PATH}/deployments`, fixture: 'deployments.json' },
+        { path: `${REPO_PATH}/deployments/205/statuses`, fixture: 'deployment-205-statuses.json' },
+        { path: `${REPO_PATH}/compare/cbcbcbcb...c3c3c3c3`, fixture: 'compare.json' }
+      ]);
+      const build = release(1003, 'c3c3c3c3', '2026-10-08T10:24:00Z');
+      await new CiService(teamConfig).linkDeployedCommits([build], sprintStart);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      assert.deepEqual(build.deployments[0].commits?.map(commit => commit.sha), ['c1c1c1c1', 'c2c2c2c2', 'c3c3c3c3']);
+    });
+
+    it('measures later deployments from the previous one in the sprint', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, [
+        { path: `${REPO_PATH}/deployments`, fixture: 'deployments.json' },
+        { path: `${REPO_PATH}/deployments/205/statuses`, fixture: 'deployment-205-statuses.json' },
+        { path: `${REPO_PATH}/compare/cbcbcbcb...c3c3c3c3`, fixture: 'compare.json' }
+      ]);
+      const first = release(1003, 'c3c3c3c3', '2026-10-08T10:24:00Z');
+      const redeploy = release(1010, 'c3c3c3c3', '2026-10-09T10:00:00Z');
+      await new CiService(teamConfig).linkDeployedCommits([redeploy, first], sprintStart);
+
+      // Redeploying the same commit ships nothing new, without reading the repository
+      assert.deepEqual(redeploy.deployments[0].commits, []);
+      assert.equal(fixtures.requests.filter(url => url.pathname.startsWith(`${REPO_PATH}/compare/`)).length, 1);
+    });
+  });
+});
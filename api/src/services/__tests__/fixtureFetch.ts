@@ -0,0 +1,49 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { TestContext } from 'node:test';
+
+export interface FixtureRoute {
+  // Exact URL path, still percent-encoded (e.g. `/api/v4/projects/acme%2Fshop/pipelines`)
+  path: string;
+  // Query parameters the request must have; others are ignored
+  query?: Record<string, string>;
+  // JSON file under the fixture directory
+  fixture: string;
+  // URL sent as the `rel="next"` Link header
+  next?: string;
+}
+
+export interface FixtureFetch {
+  // Every URL requested, in order
+  requests: URL[];
+  // URLs no route matched; they were answered with a 404
+  unmatched: string[];
+}
+
+/**
+ * Answer fetch() with recorded API responses for the rest of the test. Routes are tried in order,
+ * so list more specific ones (e.g. `page: '2'`) first.
+ */
+export function useFixtureFetch(t: TestContext, fixtureDir: string, routes: FixtureRoute[]): FixtureFetch {
+  const recorded: FixtureFetch = { requests: [], unmatched: [] };
+
+  t.mock.method(globalThis, 'fetch', async (input: string | URL) => {
+    const url = new URL(input.toString());
+    recorded.requests.push(url);
+
+    const route = routes.find(candidate => candidate.path === url.pathname &&
+      Object.entries(candidate.query || {}).every(([name, value]) => url.searchParams.get(name) === value));
+    if (!route) {
+      recorded.unmatched.push(url.toString());
+      return new Response(JSON.stringify({ message: 'Not Found' }), { status: 404, statusText: 'Not Found' });
+    }
+
+    const body = readFileSync(join(fixtureDir, route.fixture), 'utf8');
+    return new Response(body, {
+      status: 200,
+      headers: { 'content-type': 'application/json', ...(route.next && { link: `<${route.next}>; rel="next"` }) }
+    });
+  });
+
+  return recorded;
+}
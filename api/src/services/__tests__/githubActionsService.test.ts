@@ -0,0 +1,205 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { GitHubActionsService } from '../githubActionsService';
+import { PipelineCfg } from '../ciProvider';
+import { Build, TeamConfig } from '../../types';
+import { FixtureRoute, useFixtureFetch } from './fixtureFetch';
+
+const FIXTURES = join(__dirname, 'fixtures', 'github');
+const REPO_PATH = '/repos/acme/shop';
+
+const teamConfig = { team: 'shop', GITHUB_TOKEN: 'test-token' } as TeamConfig;
+const pipelineCfg: PipelineCfg = { provider: 'github', name: 'acme/shop', rawName: 'acme/shop' };
+const sprintStart = new Date('2026-10-05T00:00:00Z');
+const sprintEnd = new Date('2026-10-18T23:59:59Z');
+
+const statusRoutes = (...deploymentIds: number[]): FixtureRoute[] => deploymentIds.map(id => ({
+  path: `${REPO_PATH}/deployments/${id}/statuses`,
+  fixture: `deployment-${id}-statuses.json`
+}));
+
+const sprintRoutes: FixtureRoute[] = [
+  { path: `${REPO_PATH}/actions/runs`, fixture: 'workflow-runs.json' },
+  // Must not be read: the first page already reaches past the sprint start
+  { path: `${REPO_PATH}/deployments`, query: { page: '2' }, fixture: 'deployments.json' },
+  {
+    path: `${REPO_PATH}/deployments`,
+    fixture: 'deployments.json',
+    next: `https://api.github.com${REPO_PATH}/deployments?per_page=100&page=2`
+  },
+  ...statusRoutes(201, 202, 204, 206)
+];
+
+const byRunId = (builds: Build[]) => new Map(builds.map(build => [build.buildNumber, build]));
+
+describe('GitHubActionsService', () => {
+  describe('getPipelineBuilds', () => {
+    it('maps workflow runs to builds', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      assert.deepEqual(builds.map(build => build.buildNumber), [1009, 1008, 1007, 1006, 1005, 1003, 1002, 1004, 1001]);
+      assert.deepEqual(byRunId(builds).get(1003), {
+        pipelineName: 'acme/shop',
+        buildNumber: 1003,
+        status: 'passed',
+        startedAt: '2026-10-08T10:00:00Z',
+        finishedAt: '2026-10-08T10:25:00Z',
+        duration: 1500,
+        branch: 'main',
+        commit: 'c3c3c3c3',
+        message: 'PROJ-3 Add checkout',
+        repository: 'https://github.com/acme/shop',
+        deployments: [{ deployedAt: '2026-10-08T10:24:00Z', name: 'production', status: 'success' }],
+        isRelease: true,
+        isReleaseSuccess: true,
+        inSprint: true,
+        provider: 'github'
+      });
+    });
+
+    it('only reads runs created in the sprint', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      const runsRequest = fixtures.requests.find(url => url.pathname === `${REPO_PATH}/actions/runs`);
+      assert.equal(runsRequest?.searchParams.get('created'), '2026-10-05T00:00:00.000Z..2026-10-18T23:59:59.000Z');
+    });
+
+    it('stops paging deployments at the first page reaching past the sprint start', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      const deploymentPages = fixtures.requests.filter(url => url.pathname === `${REPO_PATH}/deployments`);
+      assert.equal(deploymentPages.length, 1);
+    });
+
+    it('reads one query per configured branch and merges the runs', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = await new GitHubActionsService(teamConfig).getPipelineBuilds(
+        { ...pipelineCfg, branches: ['main', 'release'] }, sprintStart, sprintEnd
+      );
+
+      const branches = fixtures.requests
+        .filter(url => url.pathname === `${REPO_PATH}/actions/runs`)
+        .map(url => url.searchParams.get('branch'));
+      assert.deepEqual(branches, ['main', 'release']);
+      // Both queries return the same fixture; each run is listed once
+      assert.equal(builds.length, 9);
+    });
+  });
+
+  describe('run deployments', () => {
+    it('attaches deployments to the run their statuses link to', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      // Linked through log_url; the later `inactive` status only means a newer deployment replaced it
+      assert.deepEqual(builds.get(1003)?.deployments, [{ deployedAt: '2026-10-08T10:24:00Z', name: 'production', status: 'success' }]);
+      // Linked through target_url
+      assert.deepEqual(builds.get(1002)?.deployments, [{ deployedAt: '2026-10-07T10:11:00Z', name: 'production', status: 'failed' }]);
+      assert.equal(builds.get(1002)?.isRelease, true);
+      assert.equal(builds.get(1002)?.isReleaseSuccess, false);
+    });
+
+    it('gives unlinked deployments to the latest run of their commit created before them', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      // Deployment 202 of c1c1c1c1 was created at 11:00, after run 1001 (09:00) and before its re-run 1004 (12:00)
+      assert.deepEqual(builds.get(1001)?.deployments, [{ deployedAt: '2026-10-06T11:05:00Z', name: 'production', status: 'success' }]);
+      assert.deepEqual(builds.get(1004)?.deployments, []);
+      assert.equal(builds.get(1004)?.isRelease, false);
+    });
+
+    it('leaves out pending deployments and environments the pipeline regex does not match', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      // Deployment 206 is still in progress
+      assert.deepEqual(builds.get(1005)?.deployments, []);
+      const environments = [...builds.values()].flatMap(build => build.deployments.map(deployment => deployment.name));
+      assert.ok(!environments.includes('staging'));
+    });
+
+    it('matches environments with the pipeline regex when one is configured', async (t) => {
+      useFixtureFetch(t, FIXTURES, [...sprintRoutes, ...statusRoutes(203)]);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(
+        { ...pipelineCfg, regex: /^staging$/ }, sprintStart, sprintEnd
+      ));
+
+      // Staging deployment 203 of c3c3c3c3 has no run link, so it goes to run 1003
+      assert.deepEqual(builds.get(1003)?.deployments, [{ deployedAt: '2026-10-08T10:16:00Z', name: 'staging', status: 'success' }]);
+      assert.deepEqual(builds.get(1002)?.deployments, []);
+    });
+  });
+
+  describe('run status', () => {
+    it('maps run statuses and conclusions to Buildkite build states', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      const statuses = Object.fromEntries([...builds].map(([id, build]) => [id, build.status]));
+      assert.deepEqual(statuses, {
+        1009: 'failed', // timed_out
+        1008: 'blocked', // action_required
+        1007: 'canceled', // cancelled
+        1006: 'scheduled', // queued
+        1005: 'running', // in_progress
+        1003: 'passed',
+        1002: 'failed',
+        1004: 'passed',
+        1001: 'passed'
+      });
+    });
+
+    it('has no finish time or duration for runs that have not completed', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byRunId(await new GitHubActionsService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      assert.equal(builds.get(1005)?.finishedAt, null);
+      assert.equal(builds.get(1005)?.duration, 0);
+    });
+  });
+
+  describe('getLatestReleaseCommitBefore', () => {
+    it('returns the commit of the latest successful production deployment before the date', async (t) => {
+      useFixtureFetch(t, FIXTURES, [...sprintRoutes, ...statusRoutes(205)]);
+      const service = new GitHubActionsService(teamConfig);
+
+      // Deployment 204 before it failed
+      assert.equal(await service.getLatestReleaseCommitBefore(pipelineCfg, new Date('2026-10-07T12:00:00Z')), 'c1c1c1c1');
+      // Deployment 205 has been replaced (inactive) since it succeeded
+      assert.equal(await service.getLatestReleaseCommitBefore(pipelineCfg, sprintStart), 'cbcbcbcb');
+    });
+  });
+
+  describe('getLatestBuildBefore', () => {
+    it('returns the latest run before the date with the deployments of its commit', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const fixtures = useFixtureFetch(t, FIXTURES, [
+        { path: `${REPO_PATH}/actions/runs`, fixture: 'workflow-runs-before.json' },
+        { path: `${REPO_PATH}/deployments`, query: { sha: 'c0c0c0c0' }, fixture: 'deployments-before.json' },
+        ...statusRoutes(150)
+      ]);
+      const build = await new GitHubActionsService(teamConfig).getLatestBuildBefore(pipelineCfg, sprintStart);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      const runsRequest = fixtures.requests.find(url => url.pathname === `${REPO_PATH}/actions/runs`);
+      assert.equal(runsRequest?.searchParams.get('created'), '<2026-10-05T00:00:00.000Z');
+      assert.equal(runsRequest?.searchParams.get('per_page'), '1');
+      assert.equal(build?.buildNumber, 990);
+      assert.equal(build?.inSprint, false);
+      assert.deepEqual(build?.deployments, [{ deployedAt: '2026-10-02T15:19:00Z', name: 'production', status: 'success' }]);
+    });
+
+    it('returns null when there is no earlier run', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      useFixtureFetch(t, FIXTURES, [{ path: `${REPO_PATH}/actions/runs`, fixture: 'workflow-runs-empty.json' }]);
+
+      assert.equal(await new GitHubActionsService(teamConfig).getLatestBuildBefore(pipelineCfg, sprintStart), null);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { GitLabService } from '../gitlabService';
+import { PipelineCfg } from '../ciProvider';
+import { Build, TeamConfig } from '../../types';
+import { FixtureRoute, useFixtureFetch } from './fixtureFetch';
+
+const FIXTURES = join(__dirname, 'fixtures', 'gitlab');
+const SITE_URL = 'https://gitlab.example.com';
+const PROJECT_PATH = '/api/v4/projects/acme%2Fshop';
+
+const teamConfig = { team: 'shop', GITLAB_TOKEN: 'test-token', GITLAB_BASE_URL: SITE_URL } as TeamConfig;
+const pipelineCfg: PipelineCfg = { provider: 'gitlab', name: 'acme/shop', rawName: 'acme/shop' };
+const sprintStart = new Date('2026-10-05T00:00:00Z');
+const sprintEnd = new Date('2026-10-18T23:59:59Z');
+
+const detailRoutes = (...pipelineIds: number[]): FixtureRoute[] => pipelineIds.map(id => ({
+  path: `${PROJECT_PATH}/pipelines/${id}`,
+  fixture: `pipeline-${id}.json`
+}));
+
+const sprintRoutes: FixtureRoute[] = [
+  // Must not be read: page 2 already reaches pipelines created before the sprint
+  { path: `${PROJECT_PATH}/pipelines`, query: { page: '3' }, fixture: 'pipelines-page-2.json' },
+  {
+    path: `${PROJECT_PATH}/pipelines`,
+    query: { page: '2' },
+    fixture: 'pipelines-page-2.json',
+    next: `${SITE_URL}${PROJECT_PATH}/pipelines?order_by=id&sort=desc&per_page=100&page=3`
+  },
+  {
+    path: `${PROJECT_PATH}/pipelines`,
+    fixture: 'pipelines-page-1.json',
+    next: `${SITE_URL}${PROJECT_PATH}/pipelines?order_by=id&sort=desc&per_page=100&page=2`
+  },
+  { path: `${PROJECT_PATH}/deployments`, fixture: 'deployments.json' },
+  ...detailRoutes(501, 502, 503)
+];
+
+const byPipelineIid = (builds: Build[]) => new Map(builds.map(build => [build.buildNumber, build]));
+
+describe('GitLabService', () => {
+  describe('getPipelineBuilds', () => {
+    it('maps pipelines created in the sprint to builds', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      // 504 was created after the sprint and 500 before it
+      assert.deepEqual(builds.map(build => build.buildNumber), [103, 102, 101]);
+      assert.deepEqual(byPipelineIid(builds).get(103), {
+        pipelineName: 'acme/shop',
+        buildNumber: 103,
+        status: 'passed',
+        startedAt: '2026-10-09T10:00:04.000Z',
+        finishedAt: '2026-10-09T10:21:04.000Z',
+        duration: 1260,
+        branch: 'main',
+        commit: 'e3e3e3e3',
+        repository: 'https://gitlab.example.com/acme/shop',
+        deployments: [{ deployedAt: '2026-10-09T10:20:00.000Z', name: 'production', status: 'success' }],
+        isRelease: true,
+        isReleaseSuccess: true,
+        inSprint: true,
+        provider: 'gitlab'
+      });
+    });
+
+    it('maps pipeline statuses to Buildkite build states', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byPipelineIid(await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      assert.equal(builds.get(103)?.status, 'passed');
+      assert.equal(builds.get(102)?.status, 'failed');
+      assert.equal(builds.get(101)?.status, 'running');
+      assert.equal(builds.get(101)?.duration, 0);
+    });
+  });
+
+  describe('pagination', () => {
+    it('lists pipelines updated since the sprint start, newest first', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      const firstPage = fixtures.requests.find(url => url.pathname === `${PROJECT_PATH}/pipelines`);
+      assert.equal(firstPage?.searchParams.get('updated_after'), '2026-10-05T00:00:00.000Z');
+      assert.equal(firstPage?.searchParams.get('order_by'), 'id');
+      assert.equal(firstPage?.searchParams.get('sort'), 'desc');
+    });
+
+    it('stops paging at the first page reaching pipelines created before the sprint', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      const pages = fixtures.requests
+        .filter(url => url.pathname === `${PROJECT_PATH}/pipelines`)
+        .map(url => url.searchParams.get('page'));
+      assert.deepEqual(pages, [null, '2']);
+    });
+
+    it('lists deployments updated since the sprint start, ordered by update', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd);
+
+      const deploymentsRequest = fixtures.requests.find(url => url.pathname === `${PROJECT_PATH}/deployments`);
+      // GitLab rejects updated_after unless the list is ordered by updated_at
+      assert.equal(deploymentsRequest?.searchParams.get('updated_after'), '2026-10-05T00:00:00.000Z');
+      assert.equal(deploymentsRequest?.searchParams.get('order_by'), 'updated_at');
+    });
+
+    it('reads one query per configured branch and merges the pipelines', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = await new GitLabService(teamConfig).getPipelineBuilds(
+        { ...pipelineCfg, branches: ['main', 'release'] }, sprintStart, sprintEnd
+      );
+
+      const refs = fixtures.requests
+        .filter(url => url.pathname === `${PROJECT_PATH}/pipelines` && !url.searchParams.has('page'))
+        .map(url => url.searchParams.get('ref'));
+      assert.deepEqual(refs, ['main', 'release']);
+      assert.deepEqual(builds.map(build => build.buildNumber), [103, 102, 101]);
+    });
+
+    it('reads no deployments when the sprint has no pipelines', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = await new GitLabService(teamConfig).getPipelineBuilds(
+        pipelineCfg, new Date('2026-10-10T00:00:00Z'), new Date('2026-10-11T00:00:00Z')
+      );
+
+      assert.deepEqual(builds, []);
+      assert.ok(!fixtures.requests.some(url => url.pathname === `${PROJECT_PATH}/deployments`));
+    });
+  });
+
+  describe('production environments', () => {
+    it('counts deployments to environments matching prod or production by default', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byPipelineIid(await new GitLabService(teamConfig).getPipelineBuilds(pipelineCfg, sprintStart, sprintEnd));
+
+      // 503 also deployed to staging
+      assert.deepEqual(builds.get(103)?.deployments.map(deployment => deployment.name), ['production']);
+      assert.deepEqual(builds.get(102)?.deployments, [{ deployedAt: '2026-10-08T10:05:00.000Z', name: 'production', status: 'failed' }]);
+      assert.equal(builds.get(102)?.isReleaseSuccess, false);
+      // The production deployment of 501 is still running, so only prod-eu counts
+      assert.deepEqual(builds.get(101)?.deployments, [{ deployedAt: '2026-10-07T10:09:00.000Z', name: 'prod-eu', status: 'success' }]);
+    });
+
+    it('counts only environments matching the pipeline regex when one is configured', async (t) => {
+      useFixtureFetch(t, FIXTURES, sprintRoutes);
+      const builds = byPipelineIid(await new GitLabService(teamConfig).getPipelineBuilds(
+        { ...pipelineCfg, regex: /^production$/ }, sprintStart, sprintEnd
+      ));
+
+      assert.deepEqual(builds.get(103)?.deployments.map(deployment => deployment.name), ['production']);
+      assert.deepEqual(builds.get(101)?.deployments, []);
+      assert.equal(builds.get(101)?.isRelease, false);
+    });
+  });
+
+  describe('getLatestBuildBefore', () => {
+    it('returns the latest pipeline updated before the date with its deployments', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const fixtures = useFixtureFetch(t, FIXTURES, [
+        { path: `${PROJECT_PATH}/pipelines`, fixture: 'pipelines-before.json', next: `${SITE_URL}${PROJECT_PATH}/pipelines?page=2` },
+        { path: `${PROJECT_PATH}/deployments`, fixture: 'deployments-before.json', next: `${SITE_URL}${PROJECT_PATH}/deployments?page=2` },
+        ...detailRoutes(499)
+      ]);
+      const build = await new GitLabService(teamConfig).getLatestBuildBefore(pipelineCfg, sprintStart);
+
+      assert.deepEqual(fixtures.unmatched, []);
+      const pipelinesRequest = fixtures.requests.find(url => url.pathname === `${PROJECT_PATH}/pipelines`);
+      assert.equal(pipelinesRequest?.searchParams.get('updated_before'), '2026-10-05T00:00:00.000Z');
+      assert.equal(pipelinesRequest?.searchParams.get('per_page'), '1');
+      assert.equal(build?.buildNumber, 99);
+      assert.equal(build?.inSprint, false);
+      assert.deepEqual(build?.deployments, [{ deployedAt: '2026-10-02T15:19:00.000Z', name: 'production', status: 'success' }]);
+    });
+  });
+
+  describe('getLatestReleaseCommitBefore', () => {
+    it('returns the commit of the latest successful production deployment updated before the date', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, [{ path: `${PROJECT_PATH}/deployments`, fixture: 'deployments-before.json' }]);
+      const commit = await new GitLabService(teamConfig).getLatestReleaseCommitBefore(pipelineCfg, sprintStart);
+
+      assert.equal(fixtures.requests[0].searchParams.get('updated_before'), '2026-10-05T00:00:00.000Z');
+      assert.equal(commit, 'd9d9d9d9');
+    });
+  });
+
+  describe('getCommits', () => {
+    it('lists the commits between two deployed commits', async (t) => {
+      const fixtures = useFixtureFetch(t, FIXTURES, [{ path: `${PROJECT_PATH}/repository/compare`, fixture: 'compare.json' }]);
+      const commits = await new GitLabService(teamConfig).getCommits('acme/shop', 'e2e2e2e2', 'e3e3e3e3');
+
+      assert.equal(fixtures.requests[0].searchParams.get('from'), 'e2e2e2e2');
+      assert.equal(fixtures.requests[0].searchParams.get('to'), 'e3e3e3e3');
+      assert.deepEqual(commits, [
+        { sha: 'e3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3a3', committedAt: '2026-10-09T08:40:00.000+02:00', message: 'PROJ-22 Add the payment step' },
+        { sha: 'e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3e3', committedAt: '2026-10-09T09:55:00.000+02:00', message: "Merge branch 'PROJ-22-payment' into 'main'" }
+      ]);
+    });
+
+    it('returns just the deployed commit when there is no earlier deployment', async (t) => {
+      useFixtureFetch(t, FIXTURES, [{ path: `${PROJECT_PATH}/repository/commits/e2e2e2e2`, fixture: 'commit.json' }]);
+      const commits = await new GitLabService(teamConfig).getCommits('acme/shop', null, 'e2e2e2e2');
+
+      assert.deepEqual(commits, [
+        { sha: 'e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2e2', committedAt: '2026-10-08T09:30:00.000+02:00', message: 'PROJ-21 Validate the basket' }
+      ]);
+    });
+  });
+});
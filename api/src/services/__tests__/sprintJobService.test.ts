@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SprintJobService } from '../sprintJobService';
+import { SprintDataService } from '../sprintDataService';
+import {
+  generateSprintJobId,
+  getSprintJob,
+  listQueuedSprintJobIds,
+  saveSprintJob,
+  enqueueSprintJob,
+  dequeueSprintJob
+} from '../../utils/storage';
+import { SprintData, SprintJob, SprintMeta, TeamConfig } from '../../types';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+const teamConfig = { team: 'shop', JIRA_PROJECT: 'PROJ', JIRA_BOARD_ID: '1', JIRA_BASE_URL: 'https://acme.atlassian.net' } as TeamConfig;
+const closedSprint = { name: 'Sprint 9', state: 'closed' } as SprintMeta;
+
+const storedJob = async (sprintIndex: number, status: SprintJob['status'], minutesAgo: number): Promise<SprintJob> => {
+  const updatedAt = new Date(Date.now() - minutesAgo * 60 * 1000).toISOString();
+  const job: SprintJob = {
+    id: generateSprintJobId(teamConfig, sprintIndex),
+    team: teamConfig.team,
+    sprintIndex,
+    sprintName: closedSprint.name,
+    status,
+    progress: { issuesTotal: 0, issuesFetched: 0, pipelinesTotal: 0, pipelinesDone: 0 },
+    errors: [],
+    createdAt: updatedAt,
+    updatedAt,
+    startedAt: status === 'running' ? updatedAt : undefined
+  };
+  await saveSprintJob(job);
+  await dequeueSprintJob(job.id);
+  return job;
+};
+
+describe('SprintJobService', () => {
+  describe('enqueue', () => {
+    it('returns a running job that is still updated as-is', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const job = await storedJob(1, 'running', 2);
+
+      const enqueued = await new SprintJobService().enqueue(teamConfig, 1, false, closedSprint);
+
+      assert.deepEqual(enqueued, job);
+      assert.ok(!(await listQueuedSprintJobIds()).includes(job.id));
+    });
+
+    it('queues a running job again when its worker stopped updating it', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const job = await storedJob(2, 'running', 20);
+
+      const enqueued = await new SprintJobService().enqueue(teamConfig, 2, false, closedSprint);
+
+      assert.equal(enqueued.status, 'queued');
+      assert.equal((await getSprintJob(job.id))?.status, 'queued');
+      assert.ok((await listQueuedSprintJobIds()).includes(job.id));
+    });
+
+    it('queues a queued job again when no worker picked it up', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const job = await storedJob(3, 'queued', 20);
+
+      const enqueued = await new SprintJobService().enqueue(teamConfig, 3, false, closedSprint);
+
+      assert.ok(enqueued.updatedAt > job.updatedAt);
+      assert.ok((await listQueuedSprintJobIds()).includes(job.id));
+    });
+  });
+
+  describe('fetchInline', () => {
+    it('takes over a queued job and finishes it', async (t) => {
+      t.mock.method(console, 'log', () => {});
+      const sprintData = { sprint: { index: 4 } } as SprintData;
+      const fetchAndCache = t.mock.method(SprintDataService.prototype, 'fetchAndCache', async () => sprintData);
+      const job = await storedJob(4, 'queued', 0);
+      await enqueueSprintJob(job.id);
+
+      assert.equal(await new SprintJobService().fetchInline(teamConfig, 4, false), sprintData);
+
+      assert.equal(fetchAndCache.mock.callCount(), 1);
+      assert.equal((await getSprintJob(job.id))?.status, 'completed');
+      assert.ok(!(await listQueuedSprintJobIds()).includes(job.id));
+    });
+  });
+
+  describe('queue', () => {
+    it('lists queued jobs by sprint index', async () => {
+      const jobIds = [10, 9, 11].map(index => generateSprintJobId(teamConfig, index));
+      for (const jobId of jobIds) {
+        await enqueueSprintJob(jobId);
+      }
+
+      const queued = (await listQueuedSprintJobIds()).filter(jobId => jobIds.includes(jobId));
+
+      assert.deepEqual(queued, [jobIds[1], jobIds[0], jobIds[2]]);
+    });
+  });
+});
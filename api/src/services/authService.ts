@@ -0,0 +1,282 @@
+import { Request } from 'express';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { AuthUser, UserMembership, ApiKeyRecord, UserRole } from '../types';
+import { getUserMemberships, saveUserMemberships, getApiKeys, saveApiKeys } from '../utils/storage';
+import { JwksClient, verifyJwt } from '../utils/jwt';
+import { AuthenticationError } from '../utils/errors';
+
+/**
+ * One way of authenticating a request. Providers are tried in the order configured in AUTH_PROVIDERS.
+ */
+export interface AuthProvider {
+  name: string;
+  /**
+   * @returns The user, or null when the request carries no credentials of this kind
+   * @throws AuthenticationError when credentials are present but not acceptable
+   */
+  authenticate(req: Request): Promise<AuthUser | null>;
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * OIDC/JWT bearer tokens, verified against the issuer's published signing keys
+ */
+export class OidcAuthProvider implements AuthProvider {
+  name = 'oidc';
+  private jwksClient: JwksClient;
+
+  constructor(private issuer: string, private audience: string | undefined, private authService: AuthService, jwksUri?: string) {
+    this.issuer = issuer;
+    this.audience = audience;
+    this.authService = authService;
+    this.jwksClient = new JwksClient(issuer, jwksUri);
+  }
+
+  async authenticate(req: Request): Promise<AuthUser | null> {
+    const token = getBearerToken(req);
+    // API keys may also be sent as bearer tokens; leave those to the API key provider
+    if (!token || token.startsWith(AuthService.API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const claims = await verifyJwt(token, this.jwksClient, { issuer: this.issuer, audience: this.audience });
+    // An unverified email could be claimed by anyone at the issuer, so only a verified one may match memberships
+    const emailVerified = claims.email_verified === true;
+    return await this.authService.resolveUser({
+      id: claims.sub as string,
+      email: emailVerified && typeof claims.email === 'string' ? claims.email : undefined,
+      name: typeof claims.name === 'string' ? claims.name : undefined
+    }, 'oidc');
+  }
+}
+
+/**
+ * API keys for scripts and CI, sent as `X-API-Key` or as a bearer token
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  name = 'api-key';
+
+  async authenticate(req: Request): Promise<AuthUser | null> {
+    const headerKey = req.headers['x-api-key'];
+    const bearerToken = getBearerToken(req);
+    const key = typeof headerKey === 'string'
+      ? headerKey.trim()
+      : bearerToken?.startsWith(AuthService.API_KEY_PREFIX) ? bearerToken : null;
+    if (!key) {
+      return null;
+    }
+
+    const keyHash = hashApiKey(key);
+    const apiKeys = await getApiKeys();
+    const record = apiKeys.find(k => k.keyHash === keyHash);
+    if (!record) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return {
+      id: `api-key:${record.id}`,
+      name: record.name,
+      role: record.role,
+      teams: record.teams,
+      authMethod: 'api-key'
+    };
+  }
+}
+
+/**
+ * Authentication disabled (local development): every request is a local admin
+ */
+export class NoAuthProvider implements AuthProvider {
+  name = 'none';
+
+  async authenticate(): Promise<AuthUser | null> {
+    return { id: 'local', name: 'Local admin', role: 'admin', teams: [], authMethod: 'none' };
+  }
+}
+
+export class AuthService {
+  static API_KEY_PREFIX = 'si_';
+
+  // Memberships are read on every request, so keep them briefly in memory
+  private static membershipCache: { loadedAt: number; memberships: UserMembership[] } | null = null;
+  private membershipCacheTtlMs = 30 * 1000;
+
+  private providers: AuthProvider[] | null = null;
+
+  /**
+   * Build the providers from AUTH_PROVIDERS (comma-separated: oidc, api-key, none).
+   * Defaults to `none` in development and `oidc,api-key` everywhere else, so a missing setting fails closed.
+   */
+  getProviders(): AuthProvider[] {
+    if (this.providers) {
+      return this.providers;
+    }
+
+    const defaultProviders = process.env.NODE_ENV === 'development' ? 'none' : 'oidc,api-key';
+    const names = (process.env.AUTH_PROVIDERS || defaultProviders)
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    this.providers = names.flatMap((name): AuthProvider[] => {
+      switch (name) {
+        case 'oidc':
+          if (!process.env.OIDC_ISSUER) {
+            console.warn('AUTH_PROVIDERS includes oidc but OIDC_ISSUER is not set; bearer tokens will be rejected');
+            return [];
+          }
+          return [new OidcAuthProvider(process.env.OIDC_ISSUER, process.env.OIDC_AUDIENCE || undefined, this, process.env.OIDC_JWKS_URI || undefined)];
+        case 'api-key':
+          return [new ApiKeyAuthProvider()];
+        case 'none':
+          if (process.env.NODE_ENV === 'production') {
+            console.error('AUTH_PROVIDERS=none is ignored in production');
+            return [];
+          }
+          return [new NoAuthProvider()];
+        default:
+          console.warn(`Unknown auth provider "${name}" in AUTH_PROVIDERS`);
+          return [];
+      }
+    });
+
+    return this.providers;
+  }
+
+  /**
+   * Authenticate a request with the first provider that recognises its credentials
+   * @returns null when no provider found credentials
+   */
+  async authenticate(req: Request): Promise<AuthUser | null> {
+    for (const provider of this.getProviders()) {
+      const user = await provider.authenticate(req);
+      if (user) {
+        return user;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Combine an authenticated identity with its membership. Users listed in AUTH_ADMIN_USERS
+   * (subjects or emails) are always admins; unknown users are members of no teams.
+   * The email must only be passed when the identity provider has verified it.
+   */
+  async resolveUser(identity: { id: string; email?: string; name?: string }, authMethod: AuthUser['authMethod']): Promise<AuthUser> {
+    const ids = [identity.id, identity.email].filter((id): id is string => !!id).map(id => id.toLowerCase());
+    const memberships = await this.getCachedMemberships();
+    const membership = memberships.find(m => ids.includes(m.userId.toLowerCase()));
+
+    const bootstrapAdmins = (process.env.AUTH_ADMIN_USERS || '')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean);
+    const isBootstrapAdmin = ids.some(id => bootstrapAdmins.includes(id));
+
+    return {
+      ...identity,
+      role: isBootstrapAdmin ? 'admin' : membership?.role || 'member',
+      teams: membership?.teams || [],
+      authMethod
+    };
+  }
+
+  private async getCachedMemberships(): Promise<UserMembership[]> {
+    const cache = AuthService.membershipCache;
+    if (cache && Date.now() - cache.loadedAt < this.membershipCacheTtlMs) {
+      return cache.memberships;
+    }
+
+    const memberships = await getUserMemberships();
+    AuthService.membershipCache = { loadedAt: Date.now(), memberships };
+    return memberships;
+  }
+
+  async listMemberships(): Promise<UserMembership[]> {
+    return await getUserMemberships();
+  }
+
+  async saveMembership(userId: string, role: UserRole, teams: string[]): Promise<UserMembership> {
+    const memberships = await getUserMemberships();
+    const membership: UserMembership = { userId, role, teams, updatedAt: new Date().toISOString() };
+    const index = memberships.findIndex(m => m.userId.toLowerCase() === userId.toLowerCase());
+    if (index === -1) {
+      memberships.push(membership);
+    } else {
+      memberships[index] = membership;
+    }
+
+    await saveUserMemberships(memberships);
+    AuthService.membershipCache = null;
+    return membership;
+  }
+
+  /**
+   * @returns false when the user has no membership
+   */
+  async deleteMembership(userId: string): Promise<boolean> {
+    const memberships = await getUserMemberships();
+    const remaining = memberships.filter(m => m.userId.toLowerCase() !== userId.toLowerCase());
+    if (remaining.length === memberships.length) {
+      return false;
+    }
+
+    await saveUserMemberships(remaining);
+    AuthService.membershipCache = null;
+    return true;
+  }
+
+  async listApiKeys(): Promise<ApiKeyRecord[]> {
+    return await getApiKeys();
+  }
+
+  /**
+   * Create an API key. Only its hash is stored, so the returned key can't be shown again.
+   */
+  async createApiKey(name: string, role: UserRole, teams: string[]): Promise<{ record: ApiKeyRecord; key: string }> {
+    const key = `${AuthService.API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      keyHash: hashApiKey(key),
+      role,
+      teams,
+      createdAt: new Date().toISOString()
+    };
+
+    const apiKeys = await getApiKeys();
+    await saveApiKeys([...apiKeys, record]);
+    return { record, key };
+  }
+
+  /**
+   * @returns false when the key doesn't exist
+   */
+  async deleteApiKey(keyId: string): Promise<boolean> {
+    const apiKeys = await getApiKeys();
+    const remaining = apiKeys.filter(k => k.id !== keyId);
+    if (remaining.length === apiKeys.length) {
+      return false;
+    }
+
+    await saveApiKeys(remaining);
+    return true;
+  }
+}
+
+/**
+ * Admins can access every team; members only the teams they belong to
+ */
+export function canAccessTeam(user: AuthUser | undefined, team: string): boolean {
+  if (!user) return false;
+  return user.role === 'admin' || user.teams.includes(team);
+}
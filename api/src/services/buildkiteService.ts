@@ -1,102 +1,98 @@
 import { TeamConfig, Build, Deployment } from '../types';
+import { fetchWithRetry, fetchAllPages } from '../utils/http';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { CompiledReleaseRules, compileReleaseRules } from '../utils/releaseRules';
+import { CiProvider, PipelineCfg, parsePipelines } from './ciProvider';
 
-export class BuildkiteService {
+export class BuildkiteService implements CiProvider {
   private baseUrl = 'https://api.buildkite.com/v2';
   private orgSlug: string;
   private deploymentRegex = /deploy|release/;
   private prodRegex = /prod|production/;
+  // Max builds whose triggered builds are fetched in parallel
+  private triggerConcurrency = 4;
+  // Buildkite scopes needed to read builds and their pipelines
+  private requiredScopes = ['read_builds', 'read_pipelines'];
+
+  private pagination = {
+    // Buildkite's maximum page size
+    PAGE_SIZE: 100,
+    // Per pipeline and sprint; a pipeline with more builds than this is truncated with a warning
+    MAX_PAGES: 50
+  };
+
+  // How many levels of trigger steps are followed into the builds they start
+  private maxTriggerDepth = 2;
+  private releaseRules = new Map<string, CompiledReleaseRules>();
+  private triggeredBuilds = new Map<string, Promise<any | null>>();
 
   constructor(private teamConfig: TeamConfig) {
     this.orgSlug = process.env.BUILDKITE_ORG_SLUG || 'o';
     this.teamConfig = teamConfig;
   }
 
-  async getBuilds(startDate: Date, endDate: Date): Promise<Build[]> {
-    console.log(`Fetching builds for pipelines: ${this.teamConfig.BUILDKITE_PIPELINES} from ${startDate.toISOString()} to ${endDate.toISOString()}`);
-    
-    const builds: Build[] = [];
-    if (!this.teamConfig.BUILDKITE_TOKEN) {
-      return builds;
-    }
-    
-    type PipelineCfg = { name: string; rawName: string; regex?: RegExp | null };
-    const parsePipelineToken = (token: string): PipelineCfg => {
-      const raw = token.trim();
-      // pattern: name:regex  (assume later part is the regex)
-      const parts = raw.split(':');
-      if (parts.length < 2) {
-        return { name: raw, rawName: raw, regex: null };
-      }
-      const namePart = parts[0];
-      const regexPart = parts[1];
-      let regex: RegExp | null = null;
-      try {
-        // Support either /regex/flags or bare regex string
-        const m = regexPart.match(/^\/(.+)\/([gimsuy]*)$/);
-        regex = m ? new RegExp(m[1], m[2]) : new RegExp(regexPart);
-      } catch {
-        regex = null;
-      }
-      return { name: namePart, rawName: raw, regex };
-    };
-    const pipelines = this.teamConfig.BUILDKITE_PIPELINES.split(',').map(p => parsePipelineToken(p));
-    const pipelinesWithoutBuilds: string[] = [];
-    
-    for (const pipelineCfg of pipelines) {
-      const pipelineName = pipelineCfg.name; // pure name for API and data
-      try {
-        const pipelineBuilds = await this.fetchPipelineBuilds(pipelineName, startDate, endDate, pipelineCfg);
-        if (pipelineBuilds.length > 0) {
-          builds.push(...pipelineBuilds);
-        } else {
-          pipelinesWithoutBuilds.push(pipelineName);
-        }
-      } catch (error) {
-        console.error(`Error fetching builds for pipeline ${pipelineName}:`, error);
+  async checkAccess(): Promise<string> {
+    const response = await fetchWithRetry(`${this.baseUrl}/access-token`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
+        'Content-Type': 'application/json'
       }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
-    
-    // For pipelines without builds in the sprint, fetch the latest build before sprint start
-    for (const pipelineName of pipelinesWithoutBuilds) {
-      try {
-        const latestBuild = await this.fetchLatestBuildBeforeDate(pipelineName, startDate);
-        if (latestBuild) {
-          builds.push(latestBuild);
-        }
-      } catch (error) {
-        console.error(`Error fetching latest build before sprint for pipeline ${pipelineName}:`, error);
+
+    const data = await response.json() as any;
+    const scopes: string[] = data.scopes || [];
+    const missingScopes = this.requiredScopes.filter(scope => !scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      throw new Error(`Token is missing scopes: ${missingScopes.join(', ')}`);
+    }
+    return `Token scopes: ${scopes.join(', ')}`;
+  }
+
+  async getPipelineName(pipelineCfg: PipelineCfg): Promise<string> {
+    const response = await fetchWithRetry(`${this.baseUrl}/organizations/${this.orgSlug}/pipelines/${encodeURIComponent(pipelineCfg.name)}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
+        'Content-Type': 'application/json'
       }
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
-    
-    return builds;
+
+    const data = await response.json() as any;
+    return data.name;
   }
 
-  private async fetchPipelineBuilds(pipelineName: string, startDate: Date, endDate: Date, pipelineCfg: { name: string; regex?: RegExp | null }): Promise<Build[]> {
+  async getPipelineBuilds(pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<Build[]> {
+    const pipelineName = pipelineCfg.name; // pure name for API and data
     const url = `${this.baseUrl}/organizations/${this.orgSlug}/pipelines/${pipelineName}/builds`;
     const params = new URLSearchParams({
       created_from: startDate.toISOString(),
       created_to: endDate.toISOString(),
-      per_page: '200'
+      per_page: this.pagination.PAGE_SIZE.toString()
     });
+    this.addBranchFilter(params, pipelineCfg.branches);
 
-    const response = await fetch(`${url}?${params}`, {
-      method: 'GET',
+    const buildsData = await fetchAllPages(`${url}?${params}`, {
       headers: {
         'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
         'Content-Type': 'application/json'
-      }
+      },
+      description: `builds for ${pipelineName}`,
+      maxPages: this.pagination.MAX_PAGES
     });
-
-    if (!response.ok) {
-      console.warn(`HTTP ${response.status}: ${response.statusText} when getting builds for ${pipelineName}`);
-      return [];
-    }
-
-    const buildsData = await response.json() as any[];
-    return buildsData.map((build: any) => this.transformBuild(build, pipelineCfg, true));
+    return await mapWithConcurrency(buildsData, this.triggerConcurrency, build => this.transformBuild(build, pipelineCfg, true));
   }
 
-  private async fetchLatestBuildBeforeDate(pipelineName: string, beforeDate: Date): Promise<Build | null> {
+  async getLatestBuildBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<Build | null> {
+    const pipelineName = pipelineCfg.name;
     console.log(`Fetching latest build before ${beforeDate.toISOString()} for pipeline: ${pipelineName}`);
     
     const url = `${this.baseUrl}/organizations/${this.orgSlug}/pipelines/${pipelineName}/builds`;
@@ -105,8 +101,9 @@ export class BuildkiteService {
       per_page: '1',
       page: '1'
     });
+    this.addBranchFilter(params, pipelineCfg.branches);
 
-    const response = await fetch(`${url}?${params}`, {
+    const response = await fetchWithRetry(`${url}?${params}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
@@ -126,11 +123,53 @@ export class BuildkiteService {
     }
 
     // No regex application for latest-before date; still transform with no sprint
-    return this.transformBuild(buildsData[0], { name: pipelineName, regex: null }, false);
+    return await this.transformBuild(buildsData[0], { name: pipelineName, regex: null }, false);
+  }
+
+  /**
+   * Looks back through the last page of builds before the date, newest first
+   */
+  async getLatestReleaseCommitBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<string | null> {
+    const url = `${this.baseUrl}/organizations/${this.orgSlug}/pipelines/${pipelineCfg.name}/builds`;
+    const params = new URLSearchParams({
+      created_to: beforeDate.toISOString(),
+      per_page: this.pagination.PAGE_SIZE.toString()
+    });
+    this.addBranchFilter(params, pipelineCfg.branches);
+
+    const response = await fetchWithRetry(`${url}?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
+        'Content-Type': 'application/json'
+      }
+    });
+    if (!response.ok) {
+      console.warn(`HTTP ${response.status}: ${response.statusText} when getting builds before ${beforeDate.toISOString()} for ${pipelineCfg.name}`);
+      return null;
+    }
+
+    // One at a time, as following trigger steps can read more builds
+    for (const buildData of await response.json() as any[]) {
+      const deployments = await this.extractDeployments(buildData, pipelineCfg);
+      if (deployments.some(deployment => deployment.status === 'success')) {
+        return buildData.commit;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Limit a build list request to the given branches, if any
+   */
+  private addBranchFilter(params: URLSearchParams, branches?: string[]): void {
+    for (const branch of branches || []) {
+      params.append('branch[]', branch);
+    }
   }
 
-  private transformBuild(buildData: any, pipelineCfg: { name: string; regex?: RegExp | null }, inSprint: boolean): Build {
-    const deployments = this.extractProductionDeployments(buildData, pipelineCfg);
+  private async transformBuild(buildData: any, pipelineCfg: { name: string; regex?: RegExp | null }, inSprint: boolean): Promise<Build> {
+    const deployments = await this.extractDeployments(buildData, pipelineCfg);
     
     return {
       pipelineName: pipelineCfg.name, // ensure pure name is stored
@@ -141,23 +180,65 @@ export class BuildkiteService {
       duration: this.calculateDuration(buildData.started_at, buildData.finished_at),
       branch: buildData.branch,
       commit: buildData.commit,
+      message: (buildData.message || '').split('\n')[0],
       repository: buildData.pipeline?.repository || '',
       deployments,
       isRelease: deployments.length > 0,
       isReleaseSuccess: deployments.length > 0 && deployments.every(deployment => deployment.status === 'success'),
-      inSprint
+      inSprint,
+      provider: 'buildkite'
     };
   }
 
-  private extractProductionDeployments(buildData: any, pipelineCfg: { regex?: RegExp | null }): Deployment[] {
+  /**
+   * Find a build's releases: production deploy jobs (or jobs matching the pipeline's regex), plus
+   * whatever the pipeline's BUILDKITE_RELEASE_RULES match, including in the builds its trigger steps start
+   */
+  private async extractDeployments(buildData: any, pipelineCfg: { name: string; regex?: RegExp | null }, depth = 0): Promise<Deployment[]> {
+    const rules = this.getReleaseRules(pipelineCfg.name);
+    const jobs: any[] = buildData.jobs || [];
+    const deployments: Deployment[] = [
+      ...this.extractProductionDeployments(jobs, pipelineCfg),
+      ...this.extractBlockStepDeployments(buildData, jobs, rules)
+    ];
+
+    const buildDeployment = this.extractBuildAttributeDeployment(buildData, rules);
+    if (buildDeployment) {
+      deployments.push(buildDeployment);
+    }
+
+    if (rules.followTriggers && depth < this.maxTriggerDepth) {
+      // Only API URLs get the token
+      const triggerJobs = jobs.filter(job => job.type === 'trigger' && job.triggered_build?.url?.startsWith(`${this.baseUrl}/`));
+      for (const job of triggerJobs) {
+        const childName = job.triggered_build.url.match(/\/pipelines\/([^/]+)\/builds\//)?.[1];
+        // A configured child pipeline's builds are read on their own, so its releases would be counted twice
+        if (!childName || this.isConfiguredPipeline(childName)) continue;
+
+        const childBuild = await this.fetchTriggeredBuild(job.triggered_build.url);
+        if (!childBuild) continue;
+
+        const childDeployments = await this.extractDeployments(childBuild, { name: childName, regex: null }, depth + 1);
+        deployments.push(...childDeployments.map(deployment => ({ ...deployment, name: `${childName} › ${deployment.name}` })));
+      }
+    }
+
+    return deployments.filter(deployment => deployment.status !== 'pending');
+  }
+
+  private isConfiguredPipeline(name: string): boolean {
+    return parsePipelines(this.teamConfig.BUILDKITE_PIPELINES)
+      .some(pipeline => pipeline.provider === 'buildkite' && pipeline.name === name);
+  }
+
+  private extractProductionDeployments(jobs: any[], pipelineCfg: { regex?: RegExp | null }): Deployment[] {
     // Resolve regex from pipeline config (applies to job.name only)
     const releaseRegex: RegExp | null = pipelineCfg.regex || null;
 
-    // 1) Extract deployments from jobs using legacy prod/deploy heuristics,
+    // Extract deployments from jobs using legacy prod/deploy heuristics,
     // or include jobs whose names match provided regex
-    const jobs: any[] = buildData.jobs || [];
-    const jobDeployments: Deployment[] = jobs
-      .filter((job: any, idx: number) => {
+    return jobs
+      .filter((job: any) => {
         const defaultMatch =
           job.type === 'script' &&
           this.deploymentRegex.test(job.name?.toLowerCase()) &&
@@ -169,10 +250,94 @@ export class BuildkiteService {
         deployedAt: job.finished_at || job.started_at,
         name: job.name,
         status: job.state === 'passed' ? 'success' : job.state === 'failed' ? 'failed' : 'pending'
-      }))
-      .filter((deployment: Deployment) => deployment.status !== 'pending');
+      }));
+  }
+
+  /**
+   * Matching block steps release once someone unblocks them; the steps after the block do the deploy,
+   * so the outcome is the build's
+   */
+  private extractBlockStepDeployments(buildData: any, jobs: any[], rules: CompiledReleaseRules): Deployment[] {
+    const blockStep = rules.blockStep;
+    if (!blockStep) {
+      return [];
+    }
+
+    return jobs
+      .filter(job => job.type === 'manual' && job.state === 'unblocked' && blockStep.test(job.label || ''))
+      .map(job => ({
+        deployedAt: job.unblocked_at || buildData.finished_at,
+        name: job.label,
+        status: this.getBuildDeploymentStatus(buildData.state)
+      }));
+  }
+
+  /**
+   * A build whose meta-data and environment match every configured pattern is a release as a whole
+   */
+  private extractBuildAttributeDeployment(buildData: any, rules: CompiledReleaseRules): Deployment | null {
+    const patterns = [
+      ...rules.metaData.map(([key, regex]) => ({ key, regex, value: buildData.meta_data?.[key] })),
+      ...rules.env.map(([key, regex]) => ({ key, regex, value: buildData.env?.[key] }))
+    ];
+    if (patterns.length === 0 || !patterns.every(({ regex, value }) => typeof value === 'string' && regex.test(value))) {
+      return null;
+    }
+
+    return {
+      deployedAt: buildData.finished_at || buildData.started_at,
+      name: patterns.map(({ key, value }) => `${key}=${value}`).join(', '),
+      status: this.getBuildDeploymentStatus(buildData.state)
+    };
+  }
+
+  private getBuildDeploymentStatus(buildState: string): string {
+    if (buildState === 'passed') return 'success';
+    if (buildState === 'failed' || buildState === 'canceled') return 'failed';
+    return 'pending';
+  }
 
-    return jobDeployments;
+  /**
+   * Compiled BUILDKITE_RELEASE_RULES for a pipeline; rules with an invalid pattern are ignored with a warning
+   */
+  private getReleaseRules(pipelineName: string): CompiledReleaseRules {
+    let rules = this.releaseRules.get(pipelineName);
+    if (!rules) {
+      try {
+        rules = compileReleaseRules(this.teamConfig.BUILDKITE_RELEASE_RULES?.[pipelineName]);
+      } catch (error) {
+        console.warn(`Ignoring release rules for ${pipelineName}: ${(error as Error).message}`);
+        rules = compileReleaseRules();
+      }
+      this.releaseRules.set(pipelineName, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Fetch a build started by a trigger step, once per build however many builds trigger it
+   */
+  private fetchTriggeredBuild(url: string): Promise<any | null> {
+    let build = this.triggeredBuilds.get(url);
+    if (!build) {
+      build = (async () => {
+        const response = await fetchWithRetry(url, {
+          method: 'GET',
+          headers: {
+            'Authorization': `Bearer ${this.teamConfig.BUILDKITE_TOKEN}`,
+            'Content-Type': 'application/json'
+          }
+        });
+
+        if (!response.ok) {
+          console.warn(`HTTP ${response.status}: ${response.statusText} when getting triggered build ${url}`);
+          return null;
+        }
+        return await response.json();
+      })();
+      this.triggeredBuilds.set(url, build);
+    }
+    return build;
   }
 
   private calculateDuration(startedAt: string, finishedAt: string): number {
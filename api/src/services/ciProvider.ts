@@ -0,0 +1,100 @@
+import { Build, CiProviderName, DeployedCommit } from '../types';
+import { parseRegex } from '../utils/releaseRules';
+
+export interface PipelineCfg {
+  provider: CiProviderName;
+  name: string;
+  rawName: string;
+  branches?: string[];
+  regex?: RegExp | null;
+  regexError?: string;
+}
+
+/**
+ * A CI/CD system builds and releases are read from, normalised to Buildkite's build states
+ */
+export interface CiProvider {
+  /**
+   * Builds created between the dates, with their production deployments
+   */
+  getPipelineBuilds(pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<Build[]>;
+
+  /**
+   * The latest build created before the date, for pipelines without builds in a sprint
+   */
+  getLatestBuildBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<Build | null>;
+
+  /**
+   * The commit of the latest successful production deployment created before the date, the base for
+   * the commits a sprint's first deployment shipped
+   * @returns null when none of the recent deployments (or builds) before the date succeeded
+   */
+  getLatestReleaseCommitBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<string | null>;
+
+  /**
+   * Check the token can read builds
+   * @returns What the token is, e.g. its user or scopes
+   */
+  checkAccess(): Promise<string>;
+
+  /**
+   * Check a pipeline exists and can be read
+   * @returns Its display name
+   */
+  getPipelineName(pipelineCfg: PipelineCfg): Promise<string>;
+}
+
+/**
+ * A git host that can list the commits a deployment shipped, for repositories it serves
+ */
+export interface CommitSource {
+  /**
+   * @returns The host's path for a repository URL (e.g. `owner/repo`), or null if the repository isn't on this host
+   */
+  getRepositoryPath(repository: string): string | null;
+
+  /**
+   * Commits reachable from `head` but not `base`, oldest first; just `head` when there is no base
+   */
+  getCommits(repositoryPath: string, base: string | null, head: string): Promise<DeployedCommit[]>;
+}
+
+export const CI_PROVIDERS: CiProviderName[] = ['buildkite', 'github', 'gitlab'];
+
+export const CI_PROVIDER_LABELS: Record<CiProviderName, string> = {
+  buildkite: 'Buildkite',
+  github: 'GitHub Actions',
+  gitlab: 'GitLab CI'
+};
+
+/**
+ * Parse BUILDKITE_PIPELINES: comma-separated pipelines, each optionally prefixed with its provider (`github:`,
+ * `gitlab:`, or `buildkite:` which is the default) and followed by `@branches` (`|`-separated branch names; only their
+ * builds count) and then `:regex` (`/regex/flags` or a bare pattern) that marks releases,
+ * e.g. `api@main:/deploy prod/,github:acme/web/deploy.yml@main`. An invalid regex is reported in `regexError`.
+ */
+export function parsePipelines(value: string): PipelineCfg[] {
+  return value
+    .split(',')
+    .filter(token => token.trim())
+    .map(token => {
+      const raw = token.trim();
+      const providerMatch = raw.match(new RegExp(`^(${CI_PROVIDERS.join('|')}):`));
+      const provider = (providerMatch?.[1] || 'buildkite') as CiProviderName;
+      const entry = providerMatch ? raw.slice(providerMatch[0].length) : raw;
+
+      // pattern: name[@branches][:regex] (everything after the first colon is the regex)
+      const colon = entry.indexOf(':');
+      const [namePart, branchPart] = (colon === -1 ? entry : entry.slice(0, colon)).split('@');
+      const branches = (branchPart || '').split('|').map(branch => branch.trim()).filter(Boolean);
+      const pipeline = { provider, name: namePart.trim(), rawName: raw, ...(branches.length > 0 && { branches }) };
+      if (colon === -1) {
+        return { ...pipeline, regex: null };
+      }
+      try {
+        return { ...pipeline, regex: parseRegex(entry.slice(colon + 1)) };
+      } catch (error) {
+        return { ...pipeline, regex: null, regexError: (error as Error).message };
+      }
+    });
+}
@@ -0,0 +1,203 @@
+import { TeamConfig, Build, CiProviderName, Deployment } from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { CiProvider, CommitSource, PipelineCfg, CI_PROVIDERS, parsePipelines } from './ciProvider';
+import { BuildkiteService } from './buildkiteService';
+import { GitHubActionsService } from './githubActionsService';
+import { GitLabService } from './gitlabService';
+
+/**
+ * Builds and releases for a team's pipelines, each read from its own CI provider
+ */
+export class CiService {
+  // Max pipelines fetched in parallel (rate limits are handled by fetchWithRetry)
+  private pipelineConcurrency = parseInt(process.env.BUILDKITE_CONCURRENCY || '', 10) || 4;
+  private providers = new Map<CiProviderName, CiProvider | null>();
+
+  constructor(private teamConfig: TeamConfig) {
+    this.teamConfig = teamConfig;
+  }
+
+  parsePipelines(): PipelineCfg[] {
+    return parsePipelines(this.teamConfig.BUILDKITE_PIPELINES || '');
+  }
+
+  /**
+   * The provider for a pipeline entry, or null when the team has no token for it
+   */
+  getProvider(provider: CiProviderName): CiProvider | null {
+    if (!this.providers.has(provider)) {
+      this.providers.set(provider, this.createProvider(provider));
+    }
+    return this.providers.get(provider)!;
+  }
+
+  /**
+   * Whether any pipeline can be read, i.e. has a token for its provider
+   */
+  hasPipelines(): boolean {
+    return this.getReadablePipelines().length > 0;
+  }
+
+  async getBuilds(
+    startDate: Date,
+    endDate: Date,
+    onProgress?: (pipelinesDone: number, pipelinesTotal: number, error?: string) => void
+  ): Promise<Build[]> {
+    console.log(`Fetching builds for pipelines: ${this.teamConfig.BUILDKITE_PIPELINES} from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+    const pipelineResults = await this.fetchEachPipeline(
+      (provider, pipelineCfg) => this.fetchPipelineBuildsOrLatest(provider, pipelineCfg, startDate, endDate),
+      onProgress
+    );
+
+    // Keep in-sprint builds ahead of the pre-sprint fallbacks, in pipeline order
+    return [
+      ...pipelineResults.flat().filter(b => b.inSprint),
+      ...pipelineResults.flat().filter(b => !b.inSprint)
+    ];
+  }
+
+  /**
+   * Builds created from `since` up to the sprint end, for incremental syncs of an active sprint.
+   * Unlike getBuilds, pipelines without builds get no fallback to their latest earlier build.
+   */
+  async getBuildsSince(
+    since: Date,
+    endDate: Date,
+    onProgress?: (pipelinesDone: number, pipelinesTotal: number, error?: string) => void
+  ): Promise<Build[]> {
+    console.log(`Fetching builds for pipelines: ${this.teamConfig.BUILDKITE_PIPELINES} since ${since.toISOString()}`);
+
+    const pipelineResults = await this.fetchEachPipeline(
+      (provider, pipelineCfg) => provider.getPipelineBuilds(pipelineCfg, since, endDate),
+      onProgress
+    );
+    return pipelineResults.flat();
+  }
+
+  /**
+   * Add the commits each successful deployment of an in-sprint build shipped: those since the previous successful
+   * deployment of the same pipeline, read from the git host of the build's repository. A pipeline's first deployment
+   * in the builds is measured from its latest successful deployment before the sprint. Deployments already
+   * linked (e.g. cached by an earlier sync) are kept, and repositories without a host token are skipped.
+   */
+  async linkDeployedCommits(builds: Build[], sprintStart: Date): Promise<void> {
+    const sources = CI_PROVIDERS
+      .map(provider => this.getProvider(provider))
+      .filter((provider): provider is CiProvider & CommitSource => !!provider && 'getCommits' in provider);
+    if (sources.length === 0) {
+      return;
+    }
+
+    const releasesByPipeline = new Map<string, Array<{ build: Build; deployment: Deployment }>>();
+    for (const build of builds) {
+      const pipelineKey = `${build.provider || 'buildkite'}:${build.pipelineName}`;
+      for (const deployment of build.deployments.filter(deployment => deployment.status === 'success')) {
+        releasesByPipeline.set(pipelineKey, [...(releasesByPipeline.get(pipelineKey) || []), { build, deployment }]);
+      }
+    }
+
+    // `previous` is undefined for a pipeline's first release, whose base is looked up before the sprint
+    const unlinked: Array<{ build: Build; deployment: Deployment; previous?: Build }> = [];
+    for (const releases of releasesByPipeline.values()) {
+      releases.sort((a, b) => new Date(a.deployment.deployedAt).getTime() - new Date(b.deployment.deployedAt).getTime());
+      releases.forEach(({ build, deployment }, i) => {
+        if (build.inSprint && !deployment.commits) {
+          unlinked.push({ build, deployment, previous: i > 0 ? releases[i - 1].build : undefined });
+        }
+      });
+    }
+
+    await mapWithConcurrency(unlinked, this.pipelineConcurrency, async ({ build, deployment, previous }) => {
+      const base = previous ? previous.commit : await this.getReleaseCommitBefore(build, sprintStart);
+      if (base === build.commit) {
+        deployment.commits = [];
+        return;
+      }
+
+      for (const source of sources) {
+        const repositoryPath = source.getRepositoryPath(build.repository);
+        if (!repositoryPath) {
+          continue;
+        }
+        try {
+          deployment.commits = await source.getCommits(repositoryPath, base, build.commit);
+        } catch (error) {
+          console.warn(`Error fetching commits deployed by ${build.pipelineName} #${build.buildNumber}:`, error);
+        }
+        return;
+      }
+    });
+  }
+
+  /**
+   * The commit of a build's pipeline's latest successful deployment before the date
+   * @returns null when there is none or it can't be read, so only the build's own commit is linked
+   */
+  private async getReleaseCommitBefore(build: Build, beforeDate: Date): Promise<string | null> {
+    const pipelineCfg = this.parsePipelines()
+      .find(pipeline => pipeline.provider === (build.provider || 'buildkite') && pipeline.name === build.pipelineName);
+    const provider = pipelineCfg && this.getProvider(pipelineCfg.provider);
+    if (!pipelineCfg || !provider) {
+      return null;
+    }
+
+    try {
+      return await provider.getLatestReleaseCommitBefore(pipelineCfg, beforeDate);
+    } catch (error) {
+      console.warn(`Error finding the release of ${build.pipelineName} before ${beforeDate.toISOString()}:`, error);
+      return null;
+    }
+  }
+
+  private createProvider(provider: CiProviderName): CiProvider | null {
+    switch (provider) {
+      case 'buildkite':
+        return this.teamConfig.BUILDKITE_TOKEN ? new BuildkiteService(this.teamConfig) : null;
+      case 'github':
+        return this.teamConfig.GITHUB_TOKEN ? new GitHubActionsService(this.teamConfig) : null;
+      case 'gitlab':
+        return this.teamConfig.GITLAB_TOKEN ? new GitLabService(this.teamConfig) : null;
+    }
+  }
+
+  private getReadablePipelines(): PipelineCfg[] {
+    return this.parsePipelines().filter(pipelineCfg => this.getProvider(pipelineCfg.provider));
+  }
+
+  /**
+   * Run a fetch for every readable pipeline; a failing pipeline is reported through `onProgress` and yields no builds
+   */
+  private async fetchEachPipeline(
+    fetchBuilds: (provider: CiProvider, pipelineCfg: PipelineCfg) => Promise<Build[]>,
+    onProgress?: (pipelinesDone: number, pipelinesTotal: number, error?: string) => void
+  ): Promise<Build[][]> {
+    const pipelines = this.getReadablePipelines();
+    let pipelinesDone = 0;
+    onProgress?.(pipelinesDone, pipelines.length);
+
+    return await mapWithConcurrency(pipelines, this.pipelineConcurrency, async (pipelineCfg) => {
+      let pipelineBuilds: Build[] = [];
+      let pipelineError: string | undefined;
+      try {
+        pipelineBuilds = await fetchBuilds(this.getProvider(pipelineCfg.provider)!, pipelineCfg);
+      } catch (error) {
+        console.error(`Error fetching builds for pipeline ${pipelineCfg.name}:`, error);
+        pipelineError = `${pipelineCfg.name}: ${(error as Error).message}`;
+      }
+      onProgress?.(++pipelinesDone, pipelines.length, pipelineError);
+      return pipelineBuilds;
+    });
+  }
+
+  private async fetchPipelineBuildsOrLatest(provider: CiProvider, pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<Build[]> {
+    const pipelineBuilds = await provider.getPipelineBuilds(pipelineCfg, startDate, endDate);
+    if (pipelineBuilds.length > 0) {
+      return pipelineBuilds;
+    }
+
+    // For pipelines without builds in the sprint, fetch the latest build before sprint start
+    const latestBuild = await provider.getLatestBuildBefore(pipelineCfg, startDate);
+    return latestBuild ? [latestBuild] : [];
+  }
+}
@@ -0,0 +1,323 @@
+import { TeamConfig, Build, Deployment, DeployedCommit } from '../types';
+import { fetchWithRetry, fetchAllPages } from '../utils/http';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { parseRepositoryUrl } from '../utils/repositoryUrl';
+import { CiProvider, CommitSource, PipelineCfg } from './ciProvider';
+
+type GitHubDeployment = { deployment: any; outcome: any; runId: number | null };
+
+/**
+ * Workflow runs as builds, with releases from the deployments API. A pipeline is `owner/repo` (every
+ * workflow) or `owner/repo/workflow-file`; its regex matches deployment environments instead of job names.
+ * Also lists deployed commits for repositories on GitHub, whichever provider built them.
+ */
+export class GitHubActionsService implements CiProvider, CommitSource {
+  private baseUrl = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+  private prodRegex = /prod|production/;
+  // Max deployments whose statuses are fetched in parallel
+  private statusConcurrency = 4;
+  // Max deployments before a sprint whose statuses are read looking for its base release
+  private releaseLookback = 20;
+
+  private pagination = {
+    // GitHub's maximum page size
+    PAGE_SIZE: 100,
+    // GitHub returns at most 1,000 workflow runs for a filtered query
+    MAX_PAGES: 10
+  };
+
+  constructor(private teamConfig: TeamConfig) {
+    this.teamConfig = teamConfig;
+  }
+
+  async checkAccess(): Promise<string> {
+    const user = await this.getJson(`${this.baseUrl}/user`);
+    return `Authenticated as ${user.login}`;
+  }
+
+  async getPipelineName(pipelineCfg: PipelineCfg): Promise<string> {
+    const { workflow } = this.parsePipelineName(pipelineCfg.name);
+    const repository = await this.getJson(this.getRepoUrl(pipelineCfg));
+    if (!workflow) {
+      return repository.full_name;
+    }
+
+    const workflowData = await this.getJson(`${this.getRepoUrl(pipelineCfg)}/actions/workflows/${encodeURIComponent(workflow)}`);
+    return `${repository.full_name} › ${workflowData.name}`;
+  }
+
+  getRepositoryPath(repository: string): string | null {
+    const parsed = parseRepositoryUrl(repository);
+    // api.github.com serves github.com, and GitHub Enterprise serves its API from the site's own host
+    const webHost = new URL(this.baseUrl).hostname.replace(/^api\./, '');
+    if (!parsed || parsed.host !== webHost) {
+      return null;
+    }
+    const [owner, repo] = parsed.path.split('/');
+    return owner && repo ? `${owner}/${repo}` : null;
+  }
+
+  /**
+   * The compare API lists up to 250 commits; a longer range is truncated with a warning
+   */
+  async getCommits(repositoryPath: string, base: string | null, head: string): Promise<DeployedCommit[]> {
+    const [owner, repo] = repositoryPath.split('/');
+    const repoUrl = `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    if (!base) {
+      return [this.transformCommit(await this.getJson(`${repoUrl}/commits/${encodeURIComponent(head)}`))];
+    }
+
+    const comparison = await this.getJson(`${repoUrl}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`);
+    if (comparison.total_commits > comparison.commits.length) {
+      console.warn(`Only the first ${comparison.commits.length} of ${comparison.total_commits} commits from ${base} to ${head} in ${repositoryPath} were read`);
+    }
+    return comparison.commits.map((commit: any) => this.transformCommit(commit));
+  }
+
+  async getPipelineBuilds(pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<Build[]> {
+    const runs = await this.fetchRuns(pipelineCfg, `${startDate.toISOString()}..${endDate.toISOString()}`);
+    if (runs.length === 0) {
+      return [];
+    }
+
+    const deployments = await this.fetchDeployments(pipelineCfg, startDate, endDate);
+    return runs.map(run => this.transformRun(run, this.findRunDeployments(run, runs, deployments), pipelineCfg, true));
+  }
+
+  async getLatestBuildBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<Build | null> {
+    console.log(`Fetching latest workflow run before ${beforeDate.toISOString()} for pipeline: ${pipelineCfg.name}`);
+
+    const runs = await this.fetchRuns(pipelineCfg, `<${beforeDate.toISOString()}`, 1);
+    if (runs.length === 0) {
+      console.log(`No workflow runs found before ${beforeDate.toISOString()} for pipeline: ${pipelineCfg.name}`);
+      return null;
+    }
+
+    const latestRun = runs[0];
+    const params = new URLSearchParams({ sha: latestRun.head_sha, per_page: this.pagination.PAGE_SIZE.toString() });
+    const deployments = await this.withStatuses(
+      (await this.getJson(`${this.getRepoUrl(pipelineCfg)}/deployments?${params}`) as any[])
+        .filter(deployment => this.isProductionDeployment(deployment, pipelineCfg))
+    );
+    return this.transformRun(latestRun, this.findRunDeployments(latestRun, [latestRun], deployments), pipelineCfg, false);
+  }
+
+  async getLatestReleaseCommitBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<string | null> {
+    const params = new URLSearchParams({ per_page: this.pagination.PAGE_SIZE.toString() });
+    const deployments = await fetchAllPages(`${this.getRepoUrl(pipelineCfg)}/deployments?${params}`, {
+      headers: this.getHeaders(),
+      description: `deployments for ${pipelineCfg.name}`,
+      maxPages: this.pagination.MAX_PAGES,
+      isLastPage: page => page.length > 0 && new Date(page[page.length - 1].created_at) < beforeDate
+    });
+
+    const candidates = deployments
+      .filter(deployment => new Date(deployment.created_at) < beforeDate && this.isProductionDeployment(deployment, pipelineCfg))
+      .slice(0, this.releaseLookback);
+    // One at a time, as the latest is usually the one
+    for (const deployment of candidates) {
+      const [{ outcome }] = await this.withStatuses([deployment]);
+      if (this.getDeploymentStatus(outcome?.state) === 'success') {
+        return deployment.sha;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Workflow runs created in a date range (GitHub's `created` syntax), newest first.
+   * GitHub filters runs by a single branch, so each configured branch is a separate query.
+   */
+  private async fetchRuns(pipelineCfg: PipelineCfg, created: string, limit?: number): Promise<any[]> {
+    const { workflow } = this.parsePipelineName(pipelineCfg.name);
+    const url = workflow
+      ? `${this.getRepoUrl(pipelineCfg)}/actions/workflows/${encodeURIComponent(workflow)}/runs`
+      : `${this.getRepoUrl(pipelineCfg)}/actions/runs`;
+
+    const runsByBranch = await Promise.all((pipelineCfg.branches || [undefined]).map(branch => {
+      const params = new URLSearchParams({
+        created,
+        per_page: (limit || this.pagination.PAGE_SIZE).toString(),
+        ...(branch && { branch })
+      });
+      return fetchAllPages(`${url}?${params}`, {
+        headers: this.getHeaders(),
+        description: `workflow runs for ${pipelineCfg.name}`,
+        maxPages: this.pagination.MAX_PAGES,
+        getItems: data => data.workflow_runs,
+        isLastPage: () => !!limit
+      });
+    }));
+
+    const runs = new Map(runsByBranch.flat().map(run => [run.id, run]));
+    const sorted = [...runs.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+
+  /**
+   * Production deployments created in a date range, with their latest status. The deployments API
+   * lists newest first and can't filter by date, so paging stops at the first page reaching past the start.
+   */
+  private async fetchDeployments(pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<GitHubDeployment[]> {
+    const params = new URLSearchParams({ per_page: this.pagination.PAGE_SIZE.toString() });
+    const deployments = await fetchAllPages(`${this.getRepoUrl(pipelineCfg)}/deployments?${params}`, {
+      headers: this.getHeaders(),
+      description: `deployments for ${pipelineCfg.name}`,
+      maxPages: this.pagination.MAX_PAGES,
+      isLastPage: page => page.length > 0 && new Date(page[page.length - 1].created_at) < startDate
+    });
+
+    return await this.withStatuses(deployments.filter(deployment => {
+      const createdAt = new Date(deployment.created_at);
+      return createdAt >= startDate && createdAt <= endDate && this.isProductionDeployment(deployment, pipelineCfg);
+    }));
+  }
+
+  private isProductionDeployment(deployment: any, pipelineCfg: PipelineCfg): boolean {
+    return (pipelineCfg.regex || this.prodRegex).test(deployment.environment || '');
+  }
+
+  /**
+   * Add each deployment's outcome (its latest status, skipping the `inactive` one added when a later
+   * deployment replaced it) and, when a status links to it, the workflow run that deployed it
+   */
+  private async withStatuses(deployments: any[]): Promise<GitHubDeployment[]> {
+    return await mapWithConcurrency(deployments, this.statusConcurrency, async (deployment) => {
+      const params = new URLSearchParams({ per_page: this.pagination.PAGE_SIZE.toString() });
+      // Newest first
+      const statuses = await this.getJson(`${deployment.statuses_url}?${params}`) as any[];
+      const runUrl = statuses
+        .map(status => status.log_url || status.target_url || '')
+        .find(url => /\/actions\/runs\/\d+/.test(url));
+      const runId = runUrl ? Number(runUrl.match(/\/actions\/runs\/(\d+)/)[1]) : null;
+      const outcome = statuses.find(status => status.state !== 'inactive') || statuses[0] || null;
+      return { deployment, outcome, runId };
+    });
+  }
+
+  /**
+   * A run's deployments: those whose statuses link to it, then those of the same commit not linked to
+   * a run, which go to the latest run of that commit created before them
+   */
+  private findRunDeployments(run: any, runs: any[], deployments: GitHubDeployment[]): Deployment[] {
+    return deployments
+      .filter(({ deployment, runId }) => {
+        if (runId !== null) {
+          return runId === run.id;
+        }
+        const deployingRun = runs
+          .filter(candidate => candidate.head_sha === deployment.sha && candidate.created_at <= deployment.created_at)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+        return deployingRun?.id === run.id;
+      })
+      .map(({ deployment, outcome }) => ({
+        deployedAt: outcome?.created_at || deployment.created_at,
+        name: deployment.environment,
+        status: this.getDeploymentStatus(outcome?.state)
+      }))
+      .filter(deployment => deployment.status !== 'pending');
+  }
+
+  /**
+   * An `inactive` deployment was replaced by a later one after it succeeded
+   */
+  private getDeploymentStatus(state?: string): string {
+    if (state === 'success' || state === 'inactive') return 'success';
+    if (state === 'failure' || state === 'error') return 'failed';
+    return 'pending';
+  }
+
+  private transformRun(run: any, deployments: Deployment[], pipelineCfg: PipelineCfg, inSprint: boolean): Build {
+    // GitHub has no finish time; a completed run isn't updated again unless it's re-run
+    const finishedAt = run.status === 'completed' ? run.updated_at : null;
+
+    return {
+      pipelineName: pipelineCfg.name,
+      // Run numbers are per workflow, so runs of a whole repository are told apart by ID
+      buildNumber: run.id,
+      status: this.getRunStatus(run),
+      startedAt: run.run_started_at,
+      finishedAt,
+      duration: this.calculateDuration(run.run_started_at, finishedAt),
+      branch: run.head_branch,
+      commit: run.head_sha,
+      message: (run.head_commit?.message || '').split('\n')[0],
+      repository: run.repository?.html_url || '',
+      deployments,
+      isRelease: deployments.length > 0,
+      isReleaseSuccess: deployments.length > 0 && deployments.every(deployment => deployment.status === 'success'),
+      inSprint,
+      provider: 'github'
+    };
+  }
+
+  private transformCommit(commit: any): DeployedCommit {
+    return {
+      sha: commit.sha,
+      committedAt: commit.commit.author?.date || commit.commit.committer?.date,
+      message: (commit.commit.message || '').split('\n')[0]
+    };
+  }
+
+  /**
+   * Map a run's status and conclusion to the Buildkite build states the rest of the app uses
+   */
+  private getRunStatus(run: any): string {
+    if (run.status === 'in_progress') return 'running';
+    if (run.status !== 'completed') return 'scheduled';
+
+    switch (run.conclusion) {
+      case 'success':
+      case 'neutral':
+        return 'passed';
+      case 'failure':
+      case 'timed_out':
+      case 'startup_failure':
+        return 'failed';
+      case 'cancelled':
+      case 'stale':
+        return 'canceled';
+      case 'action_required':
+        return 'blocked';
+      default:
+        return run.conclusion || 'passed';
+    }
+  }
+
+  private async getJson(url: string): Promise<any> {
+    const response = await fetchWithRetry(url, { method: 'GET', headers: this.getHeaders() });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.teamConfig.GITHUB_TOKEN}`,
+      'Accept': 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28'
+    };
+  }
+
+  private getRepoUrl(pipelineCfg: PipelineCfg): string {
+    const { owner, repo } = this.parsePipelineName(pipelineCfg.name);
+    return `${this.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * @throws Error if the pipeline isn't `owner/repo` or `owner/repo/workflow-file`
+   */
+  private parsePipelineName(name: string): { owner: string; repo: string; workflow?: string } {
+    const [owner, repo, workflow, ...rest] = name.split('/');
+    if (!owner || !repo || rest.length > 0 || workflow === '') {
+      throw new Error(`Expected owner/repo or owner/repo/workflow-file, got "${name}"`);
+    }
+    return { owner, repo, ...(workflow && { workflow }) };
+  }
+
+  private calculateDuration(startedAt: string, finishedAt: string): number {
+    if (!startedAt || !finishedAt) return 0;
+    return Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  }
+}
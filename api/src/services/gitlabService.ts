@@ -0,0 +1,252 @@
+import { TeamConfig, Build, Deployment, DeployedCommit } from '../types';
+import { fetchWithRetry, fetchAllPages } from '../utils/http';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { parseRepositoryUrl } from '../utils/repositoryUrl';
+import { CiProvider, CommitSource, PipelineCfg } from './ciProvider';
+
+/**
+ * GitLab CI pipelines as builds, with releases from environment deployments. A pipeline is a project path
+ * (`group/subgroup/project`) or ID on the team's GitLab site; its regex matches environment names.
+ * Also lists deployed commits for repositories on that site, whichever provider built them.
+ */
+export class GitLabService implements CiProvider, CommitSource {
+  private siteUrl: string;
+  private baseUrl: string;
+  private prodRegex = /prod|production/;
+  // Max pipelines whose details are fetched in parallel
+  private detailConcurrency = 4;
+
+  private pagination = {
+    // GitLab's maximum page size
+    PAGE_SIZE: 100,
+    // Per project and sprint; a project with more pipelines than this is truncated with a warning
+    MAX_PAGES: 50
+  };
+
+  constructor(private teamConfig: TeamConfig) {
+    this.teamConfig = teamConfig;
+    this.siteUrl = teamConfig.GITLAB_BASE_URL || 'https://gitlab.com';
+    this.baseUrl = `${this.siteUrl}/api/v4`;
+  }
+
+  async checkAccess(): Promise<string> {
+    const user = await this.getJson(`${this.baseUrl}/user`);
+    return `Authenticated as ${user.username}`;
+  }
+
+  async getPipelineName(pipelineCfg: PipelineCfg): Promise<string> {
+    const project = await this.getJson(this.getProjectUrl(pipelineCfg));
+    return project.path_with_namespace;
+  }
+
+  getRepositoryPath(repository: string): string | null {
+    const parsed = parseRepositoryUrl(repository);
+    const site = new URL(this.siteUrl);
+    if (!parsed || parsed.host !== site.hostname.toLowerCase()) {
+      return null;
+    }
+    // Web URLs of a site served under a path include it; SSH URLs don't
+    const contextPath = site.pathname.replace(/^\/+|\/+$/g, '');
+    return contextPath && parsed.path.startsWith(`${contextPath}/`) ? parsed.path.slice(contextPath.length + 1) : parsed.path;
+  }
+
+  async getCommits(repositoryPath: string, base: string | null, head: string): Promise<DeployedCommit[]> {
+    const repositoryUrl = `${this.baseUrl}/projects/${encodeURIComponent(repositoryPath)}/repository`;
+    if (!base) {
+      return [this.transformCommit(await this.getJson(`${repositoryUrl}/commits/${encodeURIComponent(head)}`))];
+    }
+
+    const params = new URLSearchParams({ from: base, to: head });
+    const comparison = await this.getJson(`${repositoryUrl}/compare?${params}`);
+    return comparison.commits.map((commit: any) => this.transformCommit(commit));
+  }
+
+  /**
+   * GitLab can only filter pipelines by when they were last updated, so this lists those updated since
+   * the start, newest first, and keeps the ones created in range
+   */
+  async getPipelineBuilds(pipelineCfg: PipelineCfg, startDate: Date, endDate: Date): Promise<Build[]> {
+    const pipelines = (await this.fetchPipelines(
+      pipelineCfg,
+      { updated_after: startDate.toISOString() },
+      page => page.length > 0 && new Date(page[page.length - 1].created_at) < startDate
+    )).filter(pipeline => {
+      const createdAt = new Date(pipeline.created_at);
+      return createdAt >= startDate && createdAt <= endDate;
+    });
+    if (pipelines.length === 0) {
+      return [];
+    }
+
+    const deployments = await this.fetchDeployments(pipelineCfg, { updated_after: startDate.toISOString() });
+    return await this.transformPipelines(pipelines, deployments, pipelineCfg, true);
+  }
+
+  async getLatestBuildBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<Build | null> {
+    console.log(`Fetching latest GitLab pipeline before ${beforeDate.toISOString()} for project: ${pipelineCfg.name}`);
+
+    const [latestPipeline] = await this.fetchPipelines(pipelineCfg, { updated_before: beforeDate.toISOString() }, () => true, 1);
+    if (!latestPipeline) {
+      console.log(`No pipelines found before ${beforeDate.toISOString()} for project: ${pipelineCfg.name}`);
+      return null;
+    }
+
+    // Its deployments are among the last ones updated before the date
+    const deployments = await this.fetchDeployments(pipelineCfg, { updated_before: beforeDate.toISOString() }, () => true);
+    const [build] = await this.transformPipelines([latestPipeline], deployments, pipelineCfg, false);
+    return build;
+  }
+
+  /**
+   * Looks through the last page of production deployments updated before the date
+   */
+  async getLatestReleaseCommitBefore(pipelineCfg: PipelineCfg, beforeDate: Date): Promise<string | null> {
+    const deployments = await this.fetchDeployments(pipelineCfg, { updated_before: beforeDate.toISOString() }, () => true);
+    return deployments.find(deployment => deployment.status === 'success')?.sha || null;
+  }
+
+  /**
+   * Pipelines matching the filters, newest first. GitLab filters pipelines by a single ref,
+   * so each configured branch is a separate query.
+   */
+  private async fetchPipelines(
+    pipelineCfg: PipelineCfg,
+    filters: Record<string, string>,
+    isLastPage: (items: any[]) => boolean,
+    limit?: number
+  ): Promise<any[]> {
+    const pipelinesByBranch = await Promise.all((pipelineCfg.branches || [undefined]).map(branch => {
+      const params = new URLSearchParams({
+        ...filters,
+        order_by: 'id',
+        sort: 'desc',
+        per_page: (limit || this.pagination.PAGE_SIZE).toString(),
+        ...(branch && { ref: branch })
+      });
+      return fetchAllPages(`${this.getProjectUrl(pipelineCfg)}/pipelines?${params}`, {
+        headers: this.getHeaders(),
+        description: `pipelines for ${pipelineCfg.name}`,
+        maxPages: this.pagination.MAX_PAGES,
+        isLastPage
+      });
+    }));
+
+    const pipelines = new Map(pipelinesByBranch.flat().map(pipeline => [pipeline.id, pipeline]));
+    const sorted = [...pipelines.values()].sort((a, b) => b.id - a.id);
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+
+  /**
+   * Production deployments updated after or before a date, most recently updated first
+   */
+  private async fetchDeployments(
+    pipelineCfg: PipelineCfg,
+    filters: { updated_after: string } | { updated_before: string },
+    isLastPage?: (items: any[]) => boolean
+  ): Promise<any[]> {
+    // GitLab only accepts the updated_* filters when ordering by updated_at
+    const params = new URLSearchParams({
+      ...filters,
+      order_by: 'updated_at',
+      sort: 'desc',
+      per_page: this.pagination.PAGE_SIZE.toString()
+    });
+    const deployments = await fetchAllPages(`${this.getProjectUrl(pipelineCfg)}/deployments?${params}`, {
+      headers: this.getHeaders(),
+      description: `deployments for ${pipelineCfg.name}`,
+      maxPages: this.pagination.MAX_PAGES,
+      isLastPage
+    });
+
+    const environmentRegex = pipelineCfg.regex || this.prodRegex;
+    return deployments.filter(deployment => environmentRegex.test(deployment.environment?.name || ''));
+  }
+
+  /**
+   * Read each pipeline's timings (the list only has its status) and attach the deployments its jobs made
+   */
+  private async transformPipelines(pipelines: any[], deployments: any[], pipelineCfg: PipelineCfg, inSprint: boolean): Promise<Build[]> {
+    return await mapWithConcurrency(pipelines, this.detailConcurrency, async (listedPipeline) => {
+      const pipeline = await this.getJson(`${this.getProjectUrl(pipelineCfg)}/pipelines/${listedPipeline.id}`);
+      const pipelineDeployments: Deployment[] = deployments
+        .filter(deployment => deployment.deployable?.pipeline?.id === pipeline.id)
+        .map(deployment => ({
+          deployedAt: deployment.deployable?.finished_at || deployment.updated_at,
+          name: deployment.environment.name,
+          status: deployment.status === 'success' ? 'success'
+            : deployment.status === 'failed' || deployment.status === 'canceled' ? 'failed' : 'pending'
+        }))
+        .filter(deployment => deployment.status !== 'pending');
+
+      return {
+        pipelineName: pipelineCfg.name,
+        // IIDs number a project's pipelines from 1, like Buildkite build numbers
+        buildNumber: pipeline.iid,
+        status: this.getPipelineStatus(pipeline.status),
+        startedAt: pipeline.started_at,
+        finishedAt: pipeline.finished_at,
+        duration: this.calculateDuration(pipeline.started_at, pipeline.finished_at),
+        branch: pipeline.ref,
+        commit: pipeline.sha,
+        repository: (pipeline.web_url || '').replace(/\/-\/pipelines\/\d+$/, ''),
+        deployments: pipelineDeployments,
+        isRelease: pipelineDeployments.length > 0,
+        isReleaseSuccess: pipelineDeployments.length > 0 && pipelineDeployments.every(deployment => deployment.status === 'success'),
+        inSprint,
+        provider: 'gitlab'
+      };
+    });
+  }
+
+  private transformCommit(commit: any): DeployedCommit {
+    return {
+      sha: commit.id,
+      committedAt: commit.authored_date || commit.committed_date,
+      message: commit.title || ''
+    };
+  }
+
+  /**
+   * Map a pipeline status to the Buildkite build states the rest of the app uses
+   */
+  private getPipelineStatus(status: string): string {
+    switch (status) {
+      case 'success':
+        return 'passed';
+      case 'failed':
+      case 'canceled':
+      case 'skipped':
+      case 'running':
+        return status;
+      case 'manual':
+        return 'blocked';
+      default:
+        // created, waiting_for_resource, preparing, pending and scheduled
+        return 'scheduled';
+    }
+  }
+
+  private async getJson(url: string): Promise<any> {
+    const response = await fetchWithRetry(url, { method: 'GET', headers: this.getHeaders() });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'PRIVATE-TOKEN': this.teamConfig.GITLAB_TOKEN || '',
+      'Content-Type': 'application/json'
+    };
+  }
+
+  private getProjectUrl(pipelineCfg: PipelineCfg): string {
+    return `${this.baseUrl}/projects/${encodeURIComponent(pipelineCfg.name)}`;
+  }
+
+  private calculateDuration(startedAt: string, finishedAt: string): number {
+    if (!startedAt || !finishedAt) return 0;
+    return Math.round((new Date(finishedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  }
+}
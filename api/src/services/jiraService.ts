@@ -1,19 +1,40 @@
-import { TeamConfig, SprintData, SprintMeta, Issue, IssueHistory, SprintColumn } from '../types';
+import { TeamConfig, SprintData, SprintMeta, Issue, IssueHistory, SprintColumn, SprintCatalogueEntry, JiraField } from '../types';
+import { fetchWithRetry } from '../utils/http';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getCachedSprintCatalogue, cacheSprintCatalogue } from '../utils/storage';
+import { matchSprint, suggestSprints } from '../utils/sprintMatching';
+import { SprintNotFoundError, SprintNotStartedError } from '../utils/errors';
+import { getJiraBaseUrl } from '../utils/jiraUrl';
+import { getStatusCategory } from '../utils/workflow';
 
 export class JiraService {
   private baseUrl: string;
-  private customFields = {
+  private static DEFAULT_CUSTOM_FIELDS = {
     STORY_POINTS: 'customfield_10004',
-    WORK_SUBCATEGORY: ['customfield_25138', 'customfield_22453']
+    WORK_SUBCATEGORY: ['customfield_25138', 'customfield_22453'],
+    EPIC: 'parent',
+    ASSIGNEE: 'assignee'
   };
 
-  private issueStatuses = {
-    COMPLETED: ['done', 'fixed', 'finished'],
-    CLOSED: ['closed', 'cancelled'],
-    START_STATUSES: ['to do', 'todo', 'backlog'],
-    END_STATUSES: ['done', 'fixed', 'finished', 'closed', 'cancelled']
+  private customFields: {
+    STORY_POINTS: string;
+    WORK_SUBCATEGORY: string[];
+    EPIC: string;
+    ASSIGNEE: string;
+    TEAM?: string;
   };
 
+  private pagination = {
+    SEARCH_PAGE_SIZE: 100,
+    CHANGELOG_PAGE_SIZE: 100
+  };
+
+  // Max changelog requests in flight per sprint load (Jira rate limits are handled by fetchWithRetry)
+  private historyConcurrency = parseInt(process.env.JIRA_CONCURRENCY || '', 10) || 8;
+
+  // How long the board's sprint list is reused before refetching from Jira
+  private sprintCatalogueTtlMs = 15 * 60 * 1000;
+
   private businessHours = {
     START_HOUR: 6,
     END_HOUR: 18,
@@ -22,11 +43,25 @@ export class JiraService {
   };
 
   constructor(private teamConfig: TeamConfig) {
-    this.baseUrl = process.env.JIRA_BASE_URL || 'https://www.atlassian.net';
+    this.baseUrl = getJiraBaseUrl(teamConfig);
     this.teamConfig = teamConfig;
+
+    // Per-team field mappings fall back to the defaults of the original Jira instance
+    const defaults = JiraService.DEFAULT_CUSTOM_FIELDS;
+    const categoryFields = (teamConfig.JIRA_CATEGORY_FIELDS || '')
+      .split(',')
+      .map(f => f.trim())
+      .filter(Boolean);
+    this.customFields = {
+      STORY_POINTS: teamConfig.JIRA_STORY_POINTS_FIELD || defaults.STORY_POINTS,
+      WORK_SUBCATEGORY: categoryFields.length > 0 ? categoryFields : defaults.WORK_SUBCATEGORY,
+      EPIC: teamConfig.JIRA_EPIC_FIELD || defaults.EPIC,
+      ASSIGNEE: teamConfig.JIRA_ASSIGNEE_FIELD || defaults.ASSIGNEE,
+      TEAM: teamConfig.JIRA_TEAM_FIELD || undefined
+    };
   }
 
-  private async makeJiraApiRequest(url: string, options: RequestInit = {}): Promise<any> {
+  private async sendJiraApiRequest(url: string, options: RequestInit = {}): Promise<Response> {
     const auth = Buffer.from(`${this.teamConfig.JIRA_EMAIL}:${this.teamConfig.JIRA_TOKEN}`).toString('base64');
     
     const defaultOptions: RequestInit = {
@@ -39,26 +74,177 @@ export class JiraService {
       }
     };
 
-    const response = await fetch(url, { ...defaultOptions, ...options });
+    return await fetchWithRetry(url, { ...defaultOptions, ...options });
+  }
+
+  private async makeJiraApiRequest(url: string, options: RequestInit = {}): Promise<any> {
+    const response = await this.sendJiraApiRequest(url, options);
     return await response.json();
   }
 
-  private normaliseSprintIssues(data: any): Issue[] {
-    return data.issues.map((issue: any) => ({
+  /**
+   * Like makeJiraApiRequest, but throws with Jira's error messages when the request fails
+   */
+  private async makeCheckedJiraApiRequest(url: string): Promise<any> {
+    const response = await this.sendJiraApiRequest(url);
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      const messages: string[] = [...(data?.errorMessages || []), ...Object.values(data?.errors || {}) as string[]];
+      throw new Error(`HTTP ${response.status}${messages.length > 0 ? `: ${messages.join(', ')}` : ` ${response.statusText}`}`);
+    }
+    return data;
+  }
+
+  /**
+   * Run a JQL search and follow pagination until every matching issue is returned.
+   * The enhanced search endpoint pages with `nextPageToken`; older responses page with `startAt`/`total`.
+   */
+  private async searchAllIssues(jql: string, fields: string[]): Promise<any[]> {
+    const issues: any[] = [];
+    let nextPageToken: string | undefined;
+    let startAt = 0;
+
+    while (true) {
+      const data = await this.makeJiraApiRequest(
+        `${this.baseUrl}/rest/api/3/search/jql`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            jql,
+            fields,
+            maxResults: this.pagination.SEARCH_PAGE_SIZE,
+            ...(nextPageToken ? { nextPageToken } : { startAt })
+          })
+        }
+      );
+
+      const pageIssues: any[] = data.issues || [];
+      issues.push(...pageIssues);
+
+      if (data.nextPageToken && !data.isLast) {
+        nextPageToken = data.nextPageToken;
+        continue;
+      }
+
+      // Offset-based fallback for responses that report a total instead of a cursor
+      if (!nextPageToken && typeof data.total === 'number' && pageIssues.length > 0 && issues.length < data.total) {
+        startAt = issues.length;
+        continue;
+      }
+
+      break;
+    }
+
+    return issues;
+  }
+
+  /**
+   * Read every page of an issue changelog using `startAt` pagination
+   */
+  private async getAllChangelogEntries(issueKey: string): Promise<any[]> {
+    const values: any[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const params = new URLSearchParams({
+        startAt: startAt.toString(),
+        maxResults: this.pagination.CHANGELOG_PAGE_SIZE.toString()
+      });
+      const data = await this.makeJiraApiRequest(
+        `${this.baseUrl}/rest/api/3/issue/${issueKey}/changelog?${params}`
+      );
+
+      const pageValues: any[] = data.values || [];
+      values.push(...pageValues);
+
+      const isLast = data.isLast ?? (typeof data.total !== 'number' || values.length >= data.total);
+      if (isLast || pageValues.length === 0) {
+        break;
+      }
+      startAt = values.length;
+    }
+
+    return values;
+  }
+
+  /**
+   * Read a display value from a Jira field, which may be a plain value, an option,
+   * a user, a team, a linked issue or an array of any of these
+   */
+  private readFieldValue(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) {
+      return value.map(v => this.readFieldValue(v)).filter(Boolean).join(', ');
+    }
+    if (typeof value !== 'object') return String(value);
+    return value.displayName ?? value.value ?? value.name ?? value.title ?? value.fields?.summary ?? value.key ?? '';
+  }
+
+  private normaliseSprintIssues(issues: any[]): Issue[] {
+    return issues.map((issue: any) => ({
       id: issue.id,
       key: issue.key,
       summary: issue.fields.summary,
       created: new Date(issue.fields.created),
-      storyPoints: issue.fields[this.customFields.STORY_POINTS] || 0,
+      storyPoints: Number(issue.fields[this.customFields.STORY_POINTS]) || 0,
       subCategory: this.customFields.WORK_SUBCATEGORY
-        .map(c => issue.fields[c])
-        .find(c => c)?.value || '',
+        .map(c => this.readFieldValue(issue.fields[c]))
+        .find(c => c) || '',
+      epic: this.readFieldValue(issue.fields[this.customFields.EPIC]) || undefined,
+      assignee: this.readFieldValue(issue.fields[this.customFields.ASSIGNEE]) || undefined,
+      team: this.customFields.TEAM ? this.readFieldValue(issue.fields[this.customFields.TEAM]) || undefined : undefined,
       history: []
     }));
   }
 
-  private normaliseIssueHistory(data: any, statusColumnMapping: Record<string, string>): IssueHistory[] {
-    return data.values
+  /**
+   * Get the user the team's credentials authenticate as
+   */
+  async getCurrentUser(): Promise<{ accountId: string; displayName: string; emailAddress?: string }> {
+    const data = await this.makeCheckedJiraApiRequest(`${this.baseUrl}/rest/api/3/myself`);
+    return {
+      accountId: data.accountId,
+      displayName: data.displayName,
+      emailAddress: data.emailAddress
+    };
+  }
+
+  async getProject(projectKey: string): Promise<{ key: string; name: string }> {
+    const data = await this.makeCheckedJiraApiRequest(`${this.baseUrl}/rest/api/3/project/${encodeURIComponent(projectKey)}`);
+    return { key: data.key, name: data.name };
+  }
+
+  async getBoard(boardId: string): Promise<{ id: number; name: string; type: string; projectKey?: string }> {
+    const data = await this.makeCheckedJiraApiRequest(`${this.baseUrl}/rest/agile/1.0/board/${encodeURIComponent(boardId)}`);
+    return {
+      id: data.id,
+      name: data.name,
+      type: data.type,
+      projectKey: data.location?.projectKey
+    };
+  }
+
+  /**
+   * List the Jira instance's fields (system and custom) for field mapping
+   */
+  async getFields(): Promise<JiraField[]> {
+    const data = await this.makeJiraApiRequest(`${this.baseUrl}/rest/api/3/field`);
+    if (!Array.isArray(data)) {
+      throw new Error(data?.errorMessages?.join(', ') || 'Unexpected response from Jira field API');
+    }
+
+    return data
+      .map((field: any) => ({
+        id: field.id,
+        name: field.name,
+        custom: !!field.custom,
+        type: field.schema?.type
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private normaliseIssueHistory(changelog: any[], statusColumnMapping: Record<string, string>): IssueHistory[] {
+    return changelog
       .filter((v: any) => v.items.find((i: any) => i.field === "status"))
       .map((v: any) => v.items.filter((i: any) => i.field === "status").map((i: any) => {
         // Map status IDs to column names immediately
@@ -77,45 +263,98 @@ export class JiraService {
       .flat();
   }
 
+  /**
+   * Fetch every sprint on the board for the given states, following pagination
+   */
+  private async fetchBoardSprints(state: string): Promise<any[]> {
+    const sprints: any[] = [];
+    let startAt = 0;
+
+    while (true) {
+      const params = new URLSearchParams({
+        state,
+        startAt: startAt.toString(),
+        maxResults: "50"
+      });
+      const data = await this.makeJiraApiRequest(
+        `${this.baseUrl}/rest/agile/1.0/board/${this.teamConfig.JIRA_BOARD_ID}/sprint?${params}`
+      );
+
+      const values: any[] = data.values || [];
+      sprints.push(...values);
+
+      if (data.isLast || values.length === 0) {
+        break;
+      }
+      startAt += values.length;
+    }
+
+    return sprints;
+  }
+
+  /**
+   * Get the full list of sprints on the board, cached in S3 for a short time.
+   * Started (active/closed) sprints keep their stable index; future sprints are numbered after them.
+   */
+  async getSprintCatalogue(forceRefresh: boolean = false): Promise<SprintCatalogueEntry[]> {
+    if (!forceRefresh) {
+      const cached = await getCachedSprintCatalogue(this.teamConfig);
+      if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < this.sprintCatalogueTtlMs) {
+        return cached.sprints;
+      }
+    }
+
+    const startedSprints = await this.fetchBoardSprints("active,closed");
+    const futureSprints = await this.fetchBoardSprints("future");
+
+    const sprints: SprintCatalogueEntry[] = [...startedSprints, ...futureSprints].map((sprint, index) => ({
+      id: sprint.id,
+      name: sprint.name,
+      index,
+      state: sprint.state,
+      start: sprint.startDate ? new Date(sprint.startDate) : undefined,
+      end: sprint.completeDate || sprint.endDate ? new Date(sprint.completeDate || sprint.endDate) : undefined,
+      goal: sprint.goal
+    }));
+
+    await cacheSprintCatalogue(this.teamConfig, { fetchedAt: new Date().toISOString(), sprints });
+    return sprints;
+  }
+
   async getSprintIndex(sprint: string | number): Promise<{ current: number; total: number }> {
     console.log(`Getting Sprint Index for Project: ${this.teamConfig.JIRA_PROJECT}, Board: ${this.teamConfig.JIRA_BOARD_ID}, Sprint: ${sprint}`);
     
-    // Get total sprint count
-    const totalParams = new URLSearchParams({
-      state: "active,closed",
-      maxResults: "1"
-    });
-    const totalData = await this.makeJiraApiRequest(
-      `${this.baseUrl}/rest/agile/1.0/board/${this.teamConfig.JIRA_BOARD_ID}/sprint?${totalParams}`
-    );
-    const total = totalData.total;
-
-    // Get recent sprints to find the target sprint
-    const recentParams = new URLSearchParams({
-      state: "active,closed",
-      startAt: (total - 12).toString(),
-      maxResults: "12"
-    });
-    const recentData = await this.makeJiraApiRequest(
-      `${this.baseUrl}/rest/agile/1.0/board/${this.teamConfig.JIRA_BOARD_ID}/sprint?${recentParams}`
-    );
+    const findTarget = (sprints: SprintCatalogueEntry[]) => {
+      if (sprint === 'LATEST_CLOSED') {
+        return sprints.filter(s => s.state === 'closed').at(-1);
+      }
+      if (typeof sprint === 'number') {
+        return sprints.find(s => s.index === sprint);
+      }
+      return matchSprint(sprints, sprint);
+    };
 
-    let targetSprint;
-    if (sprint === 'LATEST_CLOSED') {
-      targetSprint = recentData.values.findLast((v: any) => v.state === 'closed');
-    } else if (typeof sprint === 'number') {
-      targetSprint = recentData.values[sprint];
-    } else {
-      targetSprint = recentData.values.find((v: any) => 
-        v.name.toLowerCase().replace(/\W/g, '-').includes(sprint.toLowerCase().replace(/\W/g, '-'))
-      );
+    let sprints = await this.getSprintCatalogue();
+    let targetSprint = findTarget(sprints);
+    
+    // The cached catalogue may predate a newly created sprint
+    if (!targetSprint) {
+      sprints = await this.getSprintCatalogue(true);
+      targetSprint = findTarget(sprints);
     }
     
-    const index = recentData.values.findIndex((v: any) => v.name === targetSprint.name);
-    const sprintIndex = total - 12 + index;
+    if (!targetSprint) {
+      throw new SprintNotFoundError(String(sprint), suggestSprints(sprints, String(sprint)));
+    }
+    
+    if (targetSprint.state === 'future') {
+      throw new SprintNotStartedError(targetSprint.name);
+    }
     
-    console.log(`Sprint Index for Project: ${this.teamConfig.JIRA_PROJECT}, Board: ${this.teamConfig.JIRA_BOARD_ID}, Sprint: ${targetSprint.name} is: ${sprintIndex}`);
-    return { current: sprintIndex, total: total };
+    const total = sprints.filter(s => s.state !== 'future').length;
+    
+    console.log(`Sprint Index for Project: ${this.teamConfig.JIRA_PROJECT}, Board: ${this.teamConfig.JIRA_BOARD_ID}, Sprint: ${targetSprint.name} is: ${targetSprint.index}`);
+    return { current: targetSprint.index, total: total };
   }
 
   async getSprint(boardId: string, index: number): Promise<SprintMeta> {
@@ -128,7 +367,40 @@ export class JiraService {
       `${this.baseUrl}/rest/agile/1.0/board/${boardId}/sprint?${params}`
     );
 
-    const sprint = data.values[0];
+    return this.normaliseSprint(data.values[0], index);
+  }
+
+  /**
+   * Get metadata for a contiguous range of sprints (inclusive) with as few requests as possible
+   */
+  async getSprintsInRange(boardId: string, fromIndex: number, toIndex: number): Promise<SprintMeta[]> {
+    const sprints: SprintMeta[] = [];
+    let startAt = fromIndex;
+
+    while (startAt <= toIndex) {
+      const params = new URLSearchParams({
+        state: "active,closed",
+        startAt: startAt.toString(),
+        maxResults: (toIndex - startAt + 1).toString()
+      });
+      const data = await this.makeJiraApiRequest(
+        `${this.baseUrl}/rest/agile/1.0/board/${boardId}/sprint?${params}`
+      );
+
+      const values: any[] = data.values || [];
+      values.forEach((sprint, i) => sprints.push(this.normaliseSprint(sprint, startAt + i)));
+
+      // Jira caps maxResults (usually 50), so keep paging until the range is covered
+      if (data.isLast || values.length === 0) {
+        break;
+      }
+      startAt += values.length;
+    }
+
+    return sprints;
+  }
+
+  private normaliseSprint(sprint: any, index: number): SprintMeta {
     return {
       name: sprint.name,
       index: index,
@@ -140,7 +412,7 @@ export class JiraService {
   }
 
   async getBoardColumns(boardId: string): Promise<{ columns: SprintColumn[], statusColumnMapping: Record<string, string> }> {
-    const data = await this.makeJiraApiRequest(
+    const data = await this.makeCheckedJiraApiRequest(
       `${this.baseUrl}/rest/agile/1.0/board/${boardId}/configuration`
     );
 
@@ -169,7 +441,8 @@ export class JiraService {
   private filterHistoryToSprint(
     allHistory: IssueHistory[], 
     sprintStart: Date, 
-    sprintEnd: Date
+    sprintEnd: Date,
+    columns: SprintColumn[]
   ): IssueHistory[] {
     // Get histories within sprint time boundary
     const historiesInSprint = allHistory.filter(h => 
@@ -228,7 +501,8 @@ export class JiraService {
       });
     } else if (historiesInSprint.length > 0) {
       const lastEvent = historiesInSprint[historiesInSprint.length - 1];
-      const isCompleted = this.issueStatuses.END_STATUSES.some(s => lastEvent.toString.toLowerCase() === s);
+      const category = getStatusCategory(lastEvent.toString, columns, this.teamConfig.WORKFLOW_PROFILE);
+      const isCompleted = category === 'done' || category === 'cancelled';
       
       if (!isCompleted) {
         // Issue was still in progress at sprint end
@@ -247,39 +521,89 @@ export class JiraService {
     return timelineEvents;
   }
 
-  async getSprintIssues(sprintIndex: number, columns: SprintColumn[], statusColumnMapping: Record<string, string>): Promise<{ sprint: SprintMeta; issues: Issue[] }> {
-    const sprintMeta = await this.getSprint(this.teamConfig.JIRA_BOARD_ID, sprintIndex);
-    const jqlQuery = `project=${this.teamConfig.JIRA_PROJECT} AND Sprint in ("${sprintMeta.name}")`;
-    
-    const requiredFields = [
+  private getSprintJql(sprintMeta: SprintMeta): string {
+    return `project=${this.teamConfig.JIRA_PROJECT} AND Sprint in ("${sprintMeta.name}")`;
+  }
+
+  private getIssueFields(): string[] {
+    return [
       'summary', 
       'created', 
       this.customFields.STORY_POINTS,
-      ...this.customFields.WORK_SUBCATEGORY
+      ...this.customFields.WORK_SUBCATEGORY,
+      this.customFields.EPIC,
+      this.customFields.ASSIGNEE,
+      ...(this.customFields.TEAM ? [this.customFields.TEAM] : [])
     ];
-    
-    const data = await this.makeJiraApiRequest(
-      `${this.baseUrl}/rest/api/3/search/jql`,
-      {
-        method: 'POST',
-        body: JSON.stringify({
-          jql: jqlQuery,
-          fields: requiredFields
-        })
-      }
-    );
+  }
 
-    const normalizedData = this.normaliseSprintIssues(data);
-    const sprintData = {
+  async getSprintIssues(
+    sprintIndex: number,
+    columns: SprintColumn[],
+    statusColumnMapping: Record<string, string>,
+    onProgress?: (issuesFetched: number, issuesTotal: number) => void
+  ): Promise<{ sprint: SprintMeta; issues: Issue[] }> {
+    const sprintMeta = await this.getSprint(this.teamConfig.JIRA_BOARD_ID, sprintIndex);
+    const rawIssues = await this.searchAllIssues(this.getSprintJql(sprintMeta), this.getIssueFields());
+
+    const issues = this.normaliseSprintIssues(rawIssues);
+    await this.addIssueHistories(issues, sprintMeta, columns, statusColumnMapping, onProgress);
+
+    return {
       sprint: sprintMeta,
-      issues: normalizedData
+      issues
     };
+  }
+
+  /**
+   * Issues of a sprint that changed since a point in time, for incremental syncs of an active sprint
+   * @returns Keys of every issue now in the sprint, and the full issues (with history) updated since `since`
+   */
+  async getSprintIssueChanges(
+    sprintMeta: SprintMeta,
+    columns: SprintColumn[],
+    statusColumnMapping: Record<string, string>,
+    since: Date,
+    onProgress?: (issuesFetched: number, issuesTotal: number) => void
+  ): Promise<{ issueKeys: string[]; updatedIssues: Issue[] }> {
+    const sprintJql = this.getSprintJql(sprintMeta);
+    // JQL absolute dates are in the Jira user's time zone, relative ones aren't; the extra minute covers clock skew
+    const minutesAgo = Math.ceil((Date.now() - since.getTime()) / 60000) + 1;
+
+    const [currentIssues, rawUpdatedIssues] = await Promise.all([
+      this.searchAllIssues(sprintJql, ['created']),
+      this.searchAllIssues(`${sprintJql} AND updated >= -${minutesAgo}m`, this.getIssueFields())
+    ]);
+
+    const updatedIssues = this.normaliseSprintIssues(rawUpdatedIssues);
+    await this.addIssueHistories(updatedIssues, sprintMeta, columns, statusColumnMapping, onProgress);
+
+    return {
+      issueKeys: currentIssues.map(issue => issue.key),
+      updatedIssues
+    };
+  }
+
+  /**
+   * Fetch each issue's changelog, setting its work timestamps and its history within the sprint
+   */
+  private async addIssueHistories(
+    issues: Issue[],
+    sprintMeta: SprintMeta,
+    columns: SprintColumn[],
+    statusColumnMapping: Record<string, string>,
+    onProgress?: (issuesFetched: number, issuesTotal: number) => void
+  ): Promise<void> {
+    const isBacklog = (status: string) =>
+      getStatusCategory(status, columns, this.teamConfig.WORKFLOW_PROFILE) === 'backlog';
+    const isDone = (status: string) =>
+      getStatusCategory(status, columns, this.teamConfig.WORKFLOW_PROFILE) === 'done';
     
-    const firstColumnName = columns[0].name;
-    const lastColumnName = columns[columns.length - 1].name;
-    
-    // Fetch histories for all issues and calculate timestamps
-    for (const issue of sprintData.issues) {
+    let issuesFetched = 0;
+    onProgress?.(issuesFetched, issues.length);
+
+    // Fetch histories for all issues concurrently and calculate timestamps
+    await mapWithConcurrency(issues, this.historyConcurrency, async (issue) => {
       const allHistory = await this.getIssueHistory(issue.key, statusColumnMapping);
       
       // Calculate work timestamps from full history
@@ -288,25 +612,25 @@ export class JiraService {
       let completedAt: Date | undefined;
 
       if (allHistory.length > 0) {
-        // Find when work started (moved out of first column)
+        // Find when work started (moved out of a backlog column)
         for (const event of allHistory) {
-          if (event.fromString === firstColumnName) {
+          if (isBacklog(event.fromString) && !isBacklog(event.toString)) {
             workStartedAt = event.at;
             break;
           }
         }
 
-        // If no move out of first column was found, check if issue was created in a non-first column
-        if (!workStartedAt && allHistory[0].fromString !== firstColumnName) {
-          // Issue was created directly in a non-first column, use creation time
+        // If no move out of the backlog was found, check if issue was created outside the backlog
+        if (!workStartedAt && !isBacklog(allHistory[0].fromString)) {
+          // Issue was created directly in a later column, use creation time
           workStartedAt = issue.created;
         }
 
-        // Find when work completed (moved to last column)
+        // Find when work completed (moved to a done column)
         for (const event of allHistory) {
-          if (event.toString === lastColumnName) {
+          if (isDone(event.toString)) {
             completedAt = event.at;
-            // Don't break - keep looking for the last time it moved to the last column
+            // Don't break - keep looking for the last time it moved to a done column
           }
         }
       }
@@ -315,17 +639,14 @@ export class JiraService {
       issue.completedAt = completedAt;
       
       // Filter history to sprint boundaries
-      issue.history = this.filterHistoryToSprint(allHistory, sprintMeta.start, sprintMeta.end);
-    }
-    
-    return sprintData;
+      issue.history = this.filterHistoryToSprint(allHistory, sprintMeta.start, sprintMeta.end, columns);
+      onProgress?.(++issuesFetched, issues.length);
+    });
   }
 
   async getIssueHistory(issueKey: string, statusColumnMapping: Record<string, string>): Promise<IssueHistory[]> {
-    const data = await this.makeJiraApiRequest(
-      `${this.baseUrl}/rest/api/3/issue/${issueKey}/changelog`
-    );
-    return this.normaliseIssueHistory(data, statusColumnMapping);
+    const changelog = await this.getAllChangelogEntries(issueKey);
+    return this.normaliseIssueHistory(changelog, statusColumnMapping);
   }
 
   /**
@@ -367,21 +688,25 @@ export class JiraService {
   /**
    * Get full sprint data including issues and history
    * Uses sprintIndex directly (should be resolved beforehand)
+   * @param onProgress - Called as issue changelogs are fetched
    */
-  async getSprintData(sprintIndex: number): Promise<SprintData> {
+  async getSprintData(
+    sprintIndex: number,
+    onProgress?: (issuesFetched: number, issuesTotal: number) => void
+  ): Promise<SprintData> {
     console.log(`Loading Sprint Data for Project: ${this.teamConfig.JIRA_PROJECT}, Board: ${this.teamConfig.JIRA_BOARD_ID}, SprintIndex: ${sprintIndex}`);
 
     // Get board columns and status mapping first
     const boardColumnsData = await this.getBoardColumns(this.teamConfig.JIRA_BOARD_ID);
     
     // Get sprint issues with filtered history (using status-to-column mapping)
-    const sprintData = await this.getSprintIssues(sprintIndex, boardColumnsData.columns, boardColumnsData.statusColumnMapping);
+    const sprintData = await this.getSprintIssues(sprintIndex, boardColumnsData.columns, boardColumnsData.statusColumnMapping, onProgress);
 
     return {
       sprint: sprintData.sprint,
       columns: boardColumnsData.columns,
       issues: sprintData.issues,
-      builds: [] // Will be populated by Buildkite service
+      builds: [] // Will be populated by the CI service
     };
   }
 }
@@ -0,0 +1,189 @@
+import { TeamConfig, SprintData, SprintMeta, Issue, Build } from '../types';
+import { getCachedSprintData, getCachedSprintSummary, cacheSprintData } from '../utils/storage';
+import { linkIssueBuilds } from '../utils/issueBuilds';
+import { JiraService } from './jiraService';
+import { CiService } from './ciService';
+
+export interface SprintFetchCallbacks {
+  onIssueProgress?: (issuesFetched: number, issuesTotal: number) => void;
+  onPipelineProgress?: (pipelinesDone: number, pipelinesTotal: number, error?: string) => void;
+}
+
+export interface SprintFetchOptions {
+  // Refetch everything even when a cached active sprint could be synced incrementally
+  full?: boolean;
+}
+
+export class SprintDataService {
+  // Cached active sprints older than this are synced before they're served
+  private activeSprintSyncIntervalMs = (parseInt(process.env.ACTIVE_SPRINT_SYNC_MINUTES || '', 10) || 15) * 60 * 1000;
+  // Overlap between syncs, so changes Jira or CI providers report late aren't missed
+  private syncOverlapMs = 60 * 1000;
+  private jiraService: JiraService;
+
+  constructor(private teamConfig: TeamConfig) {
+    this.teamConfig = teamConfig;
+    this.jiraService = new JiraService(teamConfig);
+  }
+
+  /**
+   * Fetch a sprint from Jira and its CI pipelines and store it in the sprint cache.
+   * An active sprint that is already cached is synced incrementally unless `options.full` is set.
+   * @param sprintIndex - Resolved sprint index (not fuzzy identifier)
+   */
+  async fetchAndCache(sprintIndex: number, callbacks: SprintFetchCallbacks = {}, options: SprintFetchOptions = {}): Promise<SprintData> {
+    if (!options.full) {
+      const sprint = await this.jiraService.getSprintMetadata(sprintIndex);
+      const cachedData = sprint.state === 'active' ? await getCachedSprintData(this.teamConfig, sprintIndex, true) : null;
+      if (cachedData?.fetchedAt) {
+        const syncedData = await this.syncAndCache(sprint, cachedData, callbacks);
+        if (syncedData) {
+          return syncedData;
+        }
+      }
+    }
+
+    // Anything changed after this point is picked up by the next sync
+    const fetchedAt = new Date().toISOString();
+    const sprintData = await this.jiraService.getSprintData(sprintIndex, callbacks.onIssueProgress);
+
+    // Add build data if available
+    const ciService = new CiService(this.teamConfig);
+    if (ciService.hasPipelines()) {
+      sprintData.builds = await ciService.getBuilds(sprintData.sprint.start, sprintData.sprint.end, callbacks.onPipelineProgress);
+      await ciService.linkDeployedCommits(sprintData.builds, sprintData.sprint.start);
+    }
+    sprintData.issues = linkIssueBuilds(sprintData.issues, sprintData.builds);
+    sprintData.fetchedAt = fetchedAt;
+
+    // Cache the data using stable sprint index
+    await cacheSprintData(this.teamConfig, sprintIndex, sprintData);
+
+    return sprintData;
+  }
+
+  /**
+   * Whether cached sprint data should be synced before it's served: active sprints
+   * are once their data is older than ACTIVE_SPRINT_SYNC_MINUTES
+   */
+  isSyncDue(sprintData: SprintData): boolean {
+    if (sprintData.sprint.state !== 'active') {
+      return false;
+    }
+    const fetchedAt = sprintData.fetchedAt ? new Date(sprintData.fetchedAt).getTime() : 0;
+    return Date.now() - fetchedAt > this.activeSprintSyncIntervalMs;
+  }
+
+  /**
+   * Bring a cached active sprint up to date: re-read the issues Jira reports as updated since it was
+   * fetched, drop issues that left the sprint and add or update builds created since then
+   * @returns null if the board's columns changed, as cached histories are then mapped to the wrong columns
+   */
+  private async syncAndCache(sprint: SprintMeta, cachedData: SprintData, callbacks: SprintFetchCallbacks): Promise<SprintData | null> {
+    const { columns, statusColumnMapping } = await this.jiraService.getBoardColumns(this.teamConfig.JIRA_BOARD_ID);
+    if (JSON.stringify(columns) !== JSON.stringify(cachedData.columns)) {
+      console.log(`Board columns changed since sprint ${sprint.index} was cached, fetching it in full`);
+      return null;
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const since = new Date(new Date(cachedData.fetchedAt!).getTime() - this.syncOverlapMs);
+    const { issueKeys, updatedIssues } = await this.jiraService.getSprintIssueChanges(
+      sprint, columns, statusColumnMapping, since, callbacks.onIssueProgress
+    );
+
+    let builds = cachedData.builds;
+    let buildsFetched = 0;
+    const ciService = new CiService(this.teamConfig);
+    if (ciService.hasPipelines()) {
+      const newBuilds = await ciService.getBuildsSince(this.getBuildSyncStart(cachedData, since), sprint.end, callbacks.onPipelineProgress);
+      builds = this.mergeBuilds(cachedData.builds, newBuilds);
+      await ciService.linkDeployedCommits(builds, sprint.start);
+      buildsFetched = newBuilds.length;
+    }
+
+    const sprintData: SprintData = {
+      sprint,
+      columns,
+      issues: linkIssueBuilds(this.mergeIssues(cachedData.issues, issueKeys, updatedIssues), builds),
+      builds,
+      fetchedAt
+    };
+    console.log(`Synced sprint ${sprint.index}: ${updatedIssues.length} updated issues, ${buildsFetched} new or updated builds`);
+
+    await cacheSprintData(this.teamConfig, sprint.index, sprintData);
+    return sprintData;
+  }
+
+  /**
+   * Replace updated issues and add new ones, keeping only issues still in the sprint
+   */
+  private mergeIssues(cachedIssues: Issue[], issueKeys: string[], updatedIssues: Issue[]): Issue[] {
+    const inSprint = new Set(issueKeys);
+    const issues = new Map(cachedIssues.map(issue => [issue.key, issue]));
+    for (const issue of updatedIssues) {
+      issues.set(issue.key, issue);
+    }
+    return [...issues.values()].filter(issue => inSprint.has(issue.key));
+  }
+
+  /**
+   * Builds still running at the last sync were created before it, so fetch far enough back to update them
+   */
+  private getBuildSyncStart(cachedData: SprintData, since: Date): Date {
+    const unfinished = cachedData.builds.filter(build => build.inSprint && !build.finishedAt);
+    if (unfinished.some(build => !build.startedAt)) {
+      // Builds that haven't started don't say when they were created
+      return new Date(cachedData.sprint.start);
+    }
+
+    const earliestStart = Math.min(...unfinished.map(build => new Date(build.startedAt).getTime() - this.syncOverlapMs));
+    return new Date(Math.min(since.getTime(), earliestStart));
+  }
+
+  /**
+   * Add new builds and replace the ones fetched again, dropping a pipeline's pre-sprint
+   * fallback build once it has builds in the sprint
+   */
+  private mergeBuilds(cachedBuilds: Build[], newBuilds: Build[]): Build[] {
+    const buildKey = (build: Build) => `${build.pipelineName}#${build.buildNumber}`;
+    const inSprint = new Map(cachedBuilds.filter(build => build.inSprint).map(build => [buildKey(build), build]));
+    for (const build of newBuilds) {
+      inSprint.set(buildKey(build), build);
+    }
+
+    const pipelinesWithBuilds = new Set([...inSprint.values()].map(build => build.pipelineName));
+    const fallbacks = cachedBuilds.filter(build => !build.inSprint && !pipelinesWithBuilds.has(build.pipelineName));
+    return [...inSprint.values(), ...fallbacks];
+  }
+
+  /**
+   * Read every sprint between two indices (inclusive) from the cache, without fetching anything
+   * @returns Cached sprints sorted by sprint index (descending), large ones with `chunks` and their issues and
+   * builds left for the client to load, and the sprints that are missing or active and due a sync, to be
+   * fetched by sprint jobs (future sprints have no data and are left out)
+   */
+  async getCachedSprintRange(fromIndex: number, toIndex: number): Promise<{ sprints: SprintData[]; stale: SprintMeta[] }> {
+    // One Jira request for all sprint states (needed for the cache keys of active sprints)
+    const sprintMetas = await this.jiraService.getSprintsInRange(this.teamConfig.JIRA_BOARD_ID, fromIndex, toIndex);
+
+    const cached = await Promise.all(sprintMetas.map(async meta =>
+      (await getCachedSprintSummary(this.teamConfig, meta.index, meta.state === 'active'))?.data
+    ));
+
+    const sprints: SprintData[] = [];
+    const stale: SprintMeta[] = [];
+    sprintMetas.forEach((meta, i) => {
+      const data = cached[i];
+      if (meta.state === 'future') return;
+      if (data && !this.isSyncDue(data)) {
+        sprints.push(data);
+      } else {
+        stale.push(meta);
+      }
+    });
+
+    console.log(`Sprint range ${fromIndex}-${toIndex}: ${sprints.length} cached, ${stale.length} to fetch`);
+    return { sprints: sprints.sort((a, b) => b.sprint.index - a.sprint.index), stale };
+  }
+}
@@ -0,0 +1,257 @@
+import { TeamConfig, SprintData, SprintJob, SprintMeta } from '../types';
+import {
+  getTeamConfigs,
+  getCachedSprintSummary,
+  generateSprintJobId,
+  getSprintJob,
+  getStoredSprintJob,
+  saveSprintJob,
+  replaceSprintJob,
+  enqueueSprintJob,
+  listQueuedSprintJobIds,
+  dequeueSprintJob
+} from '../utils/storage';
+import { decrypt } from '../utils/encryption';
+import { JiraService } from './jiraService';
+import { SprintDataService } from './sprintDataService';
+
+export class SprintJobService {
+  private static draining = false;
+
+  // Minimum time between progress writes while a job is running
+  private progressFlushIntervalMs = 2000;
+  // How often a running job's updatedAt is refreshed, even when it has no progress to report
+  private heartbeatIntervalMs = 60 * 1000;
+  // The worker Lambda's timeout: a job not updated for this long has no worker left running or draining it
+  private staleJobMs = 15 * 60 * 1000;
+
+  /**
+   * Look up a team by name and decrypt its tokens for API calls
+   */
+  async getDecryptedTeamConfig(team: string): Promise<TeamConfig | null> {
+    const teams = await getTeamConfigs();
+    const teamConfig = teams.find(t => t.team === team);
+    if (!teamConfig) {
+      return null;
+    }
+
+    return {
+      ...teamConfig,
+      JIRA_TOKEN: decrypt(teamConfig.JIRA_TOKEN),
+      BUILDKITE_TOKEN: decrypt(teamConfig.BUILDKITE_TOKEN),
+      GITHUB_TOKEN: teamConfig.GITHUB_TOKEN && decrypt(teamConfig.GITHUB_TOKEN),
+      GITLAB_TOKEN: teamConfig.GITLAB_TOKEN && decrypt(teamConfig.GITLAB_TOKEN)
+    };
+  }
+
+  /**
+   * Create (or reuse) a fetch job for a resolved sprint and put it on the queue.
+   * A job that is already queued or running is returned as-is, unless it is stale (its worker died or timed out),
+   * in which case it's queued again; a cached sprint yields a completed job unless it's an active sprint due a sync.
+   * @param refresh - Fetch everything again even when the sprint is cached
+   * @param knownMetadata - The sprint's metadata, when the caller already has it from Jira
+   */
+  async enqueue(teamConfig: TeamConfig, sprintIndex: number, refresh: boolean = false, knownMetadata?: SprintMeta): Promise<SprintJob> {
+    const sprintMetadata = knownMetadata || await new JiraService(teamConfig).getSprintMetadata(sprintIndex);
+    const isActive = sprintMetadata.state === 'active';
+    const jobId = generateSprintJobId(teamConfig, sprintIndex, isActive);
+
+    const existing = await getStoredSprintJob(jobId);
+    const existingJob = existing?.job;
+    const isPending = existingJob && (existingJob.status === 'queued' || existingJob.status === 'running');
+    if (existingJob && isPending && !this.isStale(existingJob)) {
+      return existingJob;
+    }
+
+    const now = new Date().toISOString();
+    const job: SprintJob = {
+      id: jobId,
+      team: teamConfig.team,
+      sprintIndex,
+      sprintName: sprintMetadata.name,
+      status: 'queued',
+      progress: { issuesTotal: 0, issuesFetched: 0, pipelinesTotal: 0, pipelinesDone: 0 },
+      errors: [],
+      createdAt: now,
+      updatedAt: now,
+      ...(refresh && { refresh: true })
+    };
+
+    const cached = refresh ? null : await getCachedSprintSummary(teamConfig, sprintIndex, isActive);
+    if (cached && !new SprintDataService(teamConfig).isSyncDue(cached.data)) {
+      job.status = 'completed';
+      job.progress.issuesTotal = job.progress.issuesFetched = cached.data.chunks?.issues.total ?? cached.data.issues.length;
+      job.finishedAt = now;
+      await saveSprintJob(job);
+      return job;
+    }
+
+    if (existing && isPending) {
+      // Replace the stale job only if no worker has written to it since it was read
+      if (!await replaceSprintJob(job, existing.etag)) {
+        return await getSprintJob(jobId) || job;
+      }
+      console.log(`Sprint job ${jobId} was ${existing.job.status} with no update since ${existing.job.updatedAt}, queuing it again`);
+    } else {
+      await saveSprintJob(job);
+    }
+    await enqueueSprintJob(jobId);
+    console.log(`Queued sprint job ${jobId}`);
+    return job;
+  }
+
+  /**
+   * Whether a queued or running job has gone without an update for longer than any worker runs
+   */
+  private isStale(job: SprintJob): boolean {
+    return Date.now() - new Date(job.updatedAt).getTime() > this.staleJobMs;
+  }
+
+  async getJob(jobId: string): Promise<SprintJob | null> {
+    return await getSprintJob(jobId);
+  }
+
+  /**
+   * Claim and run queued jobs until the queue is empty.
+   * Only one drain runs per process; a concurrent call returns immediately and the
+   * active drain picks up anything queued in the meantime. Across processes, a job is
+   * claimed with a conditional write, so only one of them runs it.
+   * @returns Number of jobs processed
+   */
+  async processQueuedJobs(): Promise<number> {
+    if (SprintJobService.draining) {
+      return 0;
+    }
+
+    SprintJobService.draining = true;
+    let processed = 0;
+    try {
+      let jobIds = await listQueuedSprintJobIds();
+      while (jobIds.length > 0) {
+        for (const jobId of jobIds) {
+          const job = await this.claimJob(jobId);
+          if (!job) {
+            continue;
+          }
+          await this.runJob(job);
+          processed++;
+        }
+        jobIds = await listQueuedSprintJobIds();
+      }
+    } finally {
+      SprintJobService.draining = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Mark a queued job as running, only if no other worker has since, and take it off the queue
+   * @returns The claimed job, or null if it's no longer queued or another worker claimed it first
+   */
+  private async claimJob(jobId: string): Promise<SprintJob | null> {
+    const stored = await getStoredSprintJob(jobId);
+    if (!stored || stored.job.status !== 'queued') {
+      await dequeueSprintJob(jobId);
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const job: SprintJob = { ...stored.job, status: 'running', startedAt: now, updatedAt: now };
+    if (!await replaceSprintJob(job, stored.etag)) {
+      console.log(`Sprint job ${jobId} was claimed by another worker`);
+      return null;
+    }
+    await dequeueSprintJob(jobId);
+    return job;
+  }
+
+  /**
+   * Fetch (or sync) a sprint within a request. A job queued for it is taken over and finished here,
+   * so no worker fetches the sprint again and clients polling the job load it from the cache.
+   * @param full - Fetch everything again rather than syncing a cached active sprint
+   */
+  async fetchInline(teamConfig: TeamConfig, sprintIndex: number, isActive: boolean, full: boolean = false): Promise<SprintData> {
+    const job = await this.claimJob(generateSprintJobId(teamConfig, sprintIndex, isActive));
+    if (!job) {
+      return await new SprintDataService(teamConfig).fetchAndCache(sprintIndex, {}, { full });
+    }
+
+    console.log(`Running sprint job ${job.id} inline`);
+    if (full) job.refresh = true;
+    return await this.execute(job, async () => teamConfig);
+  }
+
+  /**
+   * Fetch (or sync) Jira and CI data for the job's sprint and fill the sprint cache,
+   * recording progress and errors on the job as it goes
+   */
+  async runJob(job: SprintJob): Promise<SprintJob> {
+    console.log(`Running sprint job ${job.id}`);
+    try {
+      await this.execute(job, () => this.getDecryptedTeamConfig(job.team));
+    } catch (error) {
+      console.error(`Sprint job ${job.id} failed:`, error);
+    }
+    return job;
+  }
+
+  /**
+   * Run a claimed job, saving its progress, and its final status and errors when it finishes
+   * @returns The fetched sprint
+   * @throws The error that failed the job
+   */
+  private async execute(job: SprintJob, loadTeamConfig: () => Promise<TeamConfig | null>): Promise<SprintData> {
+    // Writes are chained so a slow progress save can never land after the final status
+    let lastFlush = 0;
+    let pendingWrite: Promise<void> = Promise.resolve();
+    const flush = (force: boolean = false): Promise<void> => {
+      if (!force && Date.now() - lastFlush < this.progressFlushIntervalMs) return pendingWrite;
+      lastFlush = Date.now();
+      job.updatedAt = new Date().toISOString();
+      const snapshot: SprintJob = JSON.parse(JSON.stringify(job));
+      pendingWrite = pendingWrite
+        .then(() => saveSprintJob(snapshot))
+        .catch(error => console.error(`Failed to save progress for job ${job.id}:`, error));
+      return pendingWrite;
+    };
+
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await flush(true);
+    // Shows the job is still alive through long stretches without progress, e.g. reading one pipeline's commits
+    const heartbeat = setInterval(() => void flush(true), this.heartbeatIntervalMs);
+
+    try {
+      const teamConfig = await loadTeamConfig();
+      if (!teamConfig) {
+        throw new Error(`Team not found: ${job.team}`);
+      }
+
+      const sprintData = await new SprintDataService(teamConfig).fetchAndCache(job.sprintIndex, {
+        onIssueProgress: (issuesFetched, issuesTotal) => {
+          job.progress.issuesFetched = issuesFetched;
+          job.progress.issuesTotal = issuesTotal;
+          void flush();
+        },
+        onPipelineProgress: (pipelinesDone, pipelinesTotal, error) => {
+          job.progress.pipelinesDone = pipelinesDone;
+          job.progress.pipelinesTotal = pipelinesTotal;
+          // A failed pipeline is recorded but doesn't fail the job - issue data is still useful
+          if (error) job.errors.push(error);
+          void flush(!!error);
+        }
+      }, { full: job.refresh });
+      job.status = 'completed';
+      return sprintData;
+    } catch (error) {
+      job.errors.push((error as Error).message);
+      job.status = 'failed';
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+      job.finishedAt = new Date().toISOString();
+      await flush(true);
+    }
+  }
+}
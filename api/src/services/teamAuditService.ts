@@ -0,0 +1,90 @@
+import { TeamConfig, TeamAuditEntry, TeamAuditAction, TeamFieldChange, AuthUser } from '../types';
+import { appendTeamAuditEntry, listTeamAuditEntries, getTeamSnapshot } from '../utils/storage';
+
+const REDACTED_FIELDS = ['JIRA_TOKEN', 'BUILDKITE_TOKEN', 'GITHUB_TOKEN', 'GITLAB_TOKEN'];
+const REDACTED = '[redacted]';
+
+export class TeamAuditService {
+  // Attempts to claim the next version when another change races us
+  private maxAppendAttempts = 5;
+
+  /**
+   * Record a change to a team's configuration as a new audit version
+   * @param before - Stored config before the change (undefined for creates)
+   * @param after - Stored config after the change (undefined for deletes)
+   */
+  async record(
+    action: TeamAuditAction,
+    actor: AuthUser | undefined,
+    before: TeamConfig | undefined,
+    after: TeamConfig | undefined,
+    restoredFromVersion?: number
+  ): Promise<TeamAuditEntry> {
+    const team = (after || before)?.team;
+    const snapshot = after || before;
+    if (!team || !snapshot) {
+      throw new Error('A team config is required to record an audit entry');
+    }
+
+    const entries = await listTeamAuditEntries(team);
+    let version = entries.reduce((max, entry) => Math.max(max, entry.version), 0) + 1;
+
+    for (let attempt = 0; attempt < this.maxAppendAttempts; attempt++, version++) {
+      const entry: TeamAuditEntry = {
+        team,
+        version,
+        action,
+        actor: actor
+          ? { id: actor.id, name: actor.name, authMethod: actor.authMethod }
+          : { id: 'system', authMethod: 'none' },
+        timestamp: new Date().toISOString(),
+        changes: this.diff(before, after),
+        ...(restoredFromVersion !== undefined && { restoredFromVersion })
+      };
+
+      if (await appendTeamAuditEntry(entry, snapshot)) {
+        return entry;
+      }
+    }
+
+    throw new Error(`Could not record audit entry for team ${team}: version conflict`);
+  }
+
+  /**
+   * A team's audit trail, newest first
+   */
+  async getAuditLog(team: string): Promise<TeamAuditEntry[]> {
+    const entries = await listTeamAuditEntries(team);
+    return entries.sort((a, b) => b.version - a.version);
+  }
+
+  async getSnapshot(team: string, version: number): Promise<TeamConfig | null> {
+    return await getTeamSnapshot(team, version);
+  }
+
+  /**
+   * Field-level differences between two stored configs. Encrypted tokens are compared as stored,
+   * so submitting a token again counts as a change, and their values are never included.
+   */
+  diff(before: TeamConfig | undefined, after: TeamConfig | undefined): TeamFieldChange[] {
+    const beforeFields: Record<string, unknown> = { ...before };
+    const afterFields: Record<string, unknown> = { ...after };
+    const fields = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])].sort();
+    const changes: TeamFieldChange[] = [];
+
+    for (const field of fields) {
+      const from = beforeFields[field];
+      const to = afterFields[field];
+      if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+      const redact = (value: unknown) => value === undefined || !REDACTED_FIELDS.includes(field) ? value : REDACTED;
+      changes.push({
+        field,
+        ...(from !== undefined && { from: redact(from) }),
+        ...(to !== undefined && { to: redact(to) })
+      });
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,145 @@
+import { TeamConfig, TeamValidationCheck, TeamValidationResult, CiProviderName } from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { JiraService } from './jiraService';
+import { CiService } from './ciService';
+import { CI_PROVIDERS, CI_PROVIDER_LABELS } from './ciProvider';
+
+export class TeamValidationService {
+  private pipelineConcurrency = 4;
+
+  constructor(private teamConfig: TeamConfig) {
+    this.teamConfig = teamConfig;
+  }
+
+  /**
+   * Check a team's Jira and CI settings against the live APIs before it is saved.
+   * Checks that depend on a failed check (e.g. the board when auth fails) are skipped.
+   */
+  async validate(): Promise<TeamValidationResult> {
+    const checks = [
+      ...await this.validateJira(),
+      ...await this.validateCi()
+    ];
+
+    return {
+      valid: checks.every(check => check.status !== 'error'),
+      checks
+    };
+  }
+
+  private async validateJira(): Promise<TeamValidationCheck[]> {
+    const jiraService = new JiraService(this.teamConfig);
+    const { JIRA_PROJECT, JIRA_BOARD_ID } = this.teamConfig;
+
+    const auth = await this.runCheck('jira-auth', 'Jira authentication', async () => {
+      const user = await jiraService.getCurrentUser();
+      return `Authenticated as ${user.displayName}`;
+    });
+    if (auth.status === 'error') {
+      return [
+        auth,
+        this.skipped('jira-project', 'Jira project', 'Requires Jira authentication'),
+        this.skipped('jira-board', 'Jira board', 'Requires Jira authentication'),
+        this.skipped('jira-board-config', 'Board configuration', 'Requires Jira authentication')
+      ];
+    }
+
+    const project = await this.runCheck('jira-project', 'Jira project', async () => {
+      const result = await jiraService.getProject(JIRA_PROJECT);
+      return `${result.name} (${result.key})`;
+    });
+
+    let boardProjectKey: string | undefined;
+    const board = await this.runCheck('jira-board', 'Jira board', async () => {
+      const result = await jiraService.getBoard(JIRA_BOARD_ID);
+      if (result.type === 'kanban') {
+        throw new Error(`${result.name} is a kanban board, sprints need a scrum board`);
+      }
+      boardProjectKey = result.projectKey;
+      return `${result.name} (${result.type})`;
+    });
+    if (board.status === 'ok' && boardProjectKey && boardProjectKey !== JIRA_PROJECT) {
+      board.status = 'warning';
+      board.message += ` belongs to project ${boardProjectKey}, not ${JIRA_PROJECT}`;
+    }
+
+    const boardConfig = board.status === 'error'
+      ? this.skipped('jira-board-config', 'Board configuration', 'Requires a valid board')
+      : await this.runCheck('jira-board-config', 'Board configuration', async () => {
+          const { columns } = await jiraService.getBoardColumns(JIRA_BOARD_ID);
+          if (columns.length === 0) {
+            throw new Error('Board has no columns');
+          }
+          return `Columns: ${columns.map(c => c.name).join(', ')}`;
+        });
+
+    return [auth, project, board, boardConfig];
+  }
+
+  private async validateCi(): Promise<TeamValidationCheck[]> {
+    const ciService = new CiService(this.teamConfig);
+    const checks: TeamValidationCheck[] = [];
+    for (const provider of CI_PROVIDERS) {
+      checks.push(...await this.validateCiProvider(ciService, provider));
+    }
+    return checks;
+  }
+
+  private async validateCiProvider(ciService: CiService, providerName: CiProviderName): Promise<TeamValidationCheck[]> {
+    const ciProvider = ciService.getProvider(providerName);
+    const pipelines = ciService.parsePipelines().filter(pipeline => pipeline.provider === providerName);
+    const providerLabel = CI_PROVIDER_LABELS[providerName];
+    const authLabel = `${providerLabel} authentication`;
+
+    if (!ciProvider) {
+      return pipelines.length > 0
+        ? [this.error(`${providerName}-auth`, authLabel, `A ${providerLabel} token is required to read pipelines`)]
+        : [this.skipped(`${providerName}-auth`, authLabel, `${providerLabel} is not configured`)];
+    }
+
+    const auth = await this.runCheck(`${providerName}-auth`, authLabel, () => ciProvider.checkAccess());
+
+    const pipelineChecks = await mapWithConcurrency(pipelines, this.pipelineConcurrency, async (pipeline) => {
+      const id = `${providerName}-pipeline:${pipeline.name}`;
+      const label = `Pipeline ${pipeline.name}`;
+
+      if (pipeline.regexError) {
+        return this.error(id, label, `Invalid release regex: ${pipeline.regexError}`);
+      }
+      if (auth.status === 'error') {
+        return this.skipped(id, label, `Requires ${providerLabel} authentication`);
+      }
+
+      return await this.runCheck(id, label, async () => {
+        return [
+          await ciProvider.getPipelineName(pipeline),
+          pipeline.branches && `${pipeline.branches.join(', ')} only`,
+          pipeline.regex && `releases match ${pipeline.regex}`,
+          providerName === 'buildkite' && this.teamConfig.BUILDKITE_RELEASE_RULES?.[pipeline.name] && 'custom release rules'
+        ].filter(Boolean).join(', ');
+      });
+    });
+
+    return [auth, ...pipelineChecks];
+  }
+
+  /**
+   * Run one check, turning a thrown error into a failed result
+   * @param check - Returns the success message
+   */
+  private async runCheck(id: string, label: string, check: () => Promise<string>): Promise<TeamValidationCheck> {
+    try {
+      return { id, label, status: 'ok', message: await check() };
+    } catch (error) {
+      return this.error(id, label, (error as Error).message);
+    }
+  }
+
+  private error(id: string, label: string, message: string): TeamValidationCheck {
+    return { id, label, status: 'error', message };
+  }
+
+  private skipped(id: string, label: string, message: string): TeamValidationCheck {
+    return { id, label, status: 'skipped', message };
+  }
+}
@@ -2,13 +2,118 @@ export interface TeamConfig {
   team: string;
   JIRA_EMAIL: string;
   JIRA_TOKEN: string;
+  JIRA_BASE_URL?: string; // Jira site, e.g. `https://your-domain.atlassian.net` (defaults to the JIRA_BASE_URL env var)
   JIRA_PROJECT: string;
   JIRA_BOARD_ID: string;
   BUILDKITE_TOKEN: string;
+  // CI pipelines, comma-separated: Buildkite slugs, `github:owner/repo[/workflow-file]` for GitHub Actions
+  // or `gitlab:group/project` for GitLab CI
   BUILDKITE_PIPELINES: string;
+  GITHUB_TOKEN?: string;
+  GITLAB_BASE_URL?: string; // Self-hosted GitLab site, e.g. `https://gitlab.example.com` (defaults to gitlab.com)
+  GITLAB_TOKEN?: string;
   // Optional advanced settings
   INCIDENT_FIELD?: 'summary' | 'subCategory';
   INCIDENT_REGEX?: string; // e.g. `/incident|sev[1-2]/i`
+  // Optional Jira field mappings (field IDs from /rest/api/3/field)
+  JIRA_STORY_POINTS_FIELD?: string; // e.g. `customfield_10004`
+  JIRA_CATEGORY_FIELDS?: string;    // comma-separated, first non-empty value wins
+  JIRA_EPIC_FIELD?: string;         // e.g. `parent` or `customfield_10014`
+  JIRA_ASSIGNEE_FIELD?: string;     // e.g. `assignee`
+  JIRA_TEAM_FIELD?: string;         // e.g. `customfield_10001`
+  // Optional workflow profile: board column or status name -> category (matched case-insensitively)
+  WORKFLOW_PROFILE?: Record<string, WorkflowCategory>;
+  // Optional release detection rules per Buildkite pipeline slug, on top of the job name match
+  BUILDKITE_RELEASE_RULES?: Record<string, ReleaseDetectionRules>;
+}
+
+export type WorkflowCategory = 'backlog' | 'in_progress' | 'review' | 'blocked' | 'done' | 'cancelled';
+
+/**
+ * Extra ways a pipeline's builds count as releases. Patterns are `/regex/flags` or bare regexes.
+ */
+export interface ReleaseDetectionRules {
+  // Block (manual approval) steps whose label matches release once unblocked, e.g. `Deploy to production?`
+  blockStepPattern?: string;
+  // Look into the builds that trigger steps start, using the triggered pipeline's own rules
+  followTriggers?: boolean;
+  // Build meta-data values that make the build a release, all of them matching, e.g. `{ "deploy-env": "^prod" }`
+  metaData?: Record<string, string>;
+  // Build environment variables that make the build a release, all of them matching
+  env?: Record<string, string>;
+}
+
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  type?: string;
+}
+
+export type UserRole = 'admin' | 'member';
+
+/**
+ * A user's access: admins manage teams and see every team, members only see their teams
+ */
+export interface UserMembership {
+  userId: string;     // OIDC subject or email
+  role: UserRole;
+  teams: string[];
+  updatedAt: string;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyHash: string;    // SHA-256 of the key; the key itself is only shown once
+  role: UserRole;
+  teams: string[];
+  createdAt: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  name?: string;
+  role: UserRole;
+  teams: string[];
+  authMethod: 'oidc' | 'api-key' | 'none';
+}
+
+export type TeamAuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface TeamFieldChange {
+  field: string;
+  from?: unknown;     // Tokens are shown as `[redacted]`
+  to?: unknown;
+}
+
+/**
+ * One change to a team's configuration. Every version has a snapshot of the stored config
+ * (for deletes, the config as it was before deletion) that can be restored.
+ */
+export interface TeamAuditEntry {
+  team: string;
+  version: number;
+  action: TeamAuditAction;
+  actor: { id: string; name?: string; authMethod: AuthUser['authMethod'] };
+  timestamp: string;
+  changes: TeamFieldChange[];
+  restoredFromVersion?: number;
+}
+
+export type TeamValidationStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+export interface TeamValidationCheck {
+  id: string;         // e.g. `jira-auth`, `buildkite-pipeline:my-pipeline`
+  label: string;
+  status: TeamValidationStatus;
+  message: string;
+}
+
+export interface TeamValidationResult {
+  valid: boolean;     // No check failed (warnings and skipped checks don't block saving)
+  checks: TeamValidationCheck[];
 }
 
 export interface SprintMeta {
@@ -20,6 +125,41 @@ export interface SprintMeta {
   goal?: string;
 }
 
+export interface SprintCatalogueEntry {
+  id: number;         // Jira sprint ID
+  name: string;
+  index: number;      // Stable sprint index (started sprints first, then future sprints)
+  state: 'active' | 'closed' | 'future';
+  start?: Date;
+  end?: Date;
+  goal?: string;
+}
+
+export interface SprintSummary extends SprintCatalogueEntry {
+  cached: boolean;
+}
+
+/**
+ * A stored sprint data entry, as listed by the cache management API
+ */
+export interface CachedSprintEntry {
+  sprintIndex: number;
+  sprintName?: string;
+  // Day of an old daily entry for an active sprint, from before active sprints were synced incrementally
+  date?: string;
+  // The entry of a sprint that was active when cached
+  active?: boolean;
+  // Whether this entry is served (everything except old daily entries)
+  current: boolean;
+  size: number;
+  fetchedAt: string;
+}
+
+export interface SprintCatalogue {
+  fetchedAt: string;
+  sprints: SprintCatalogueEntry[];
+}
+
 export interface SprintColumn {
   name: string;
 }
@@ -52,11 +192,15 @@ export interface Issue {
   created: Date;
   storyPoints: number;
   subCategory: string;
+  epic?: string;
+  assignee?: string;
+  team?: string;
   history: IssueHistory[];
   workStartedAt?: Date;  // When work actually began (moved out of first column)
   completedAt?: Date;     // When work was completed (moved to last column)
   flags?: IssueFlags;
   timeSpent?: Record<string, number>;  // Time spent in each board column (calculated by frontend)
+  builds?: IssueBuildRef[];  // Builds whose branch or commits mention the issue's key
 }
 
 export interface Build {
@@ -68,17 +212,36 @@ export interface Build {
   duration: number;
   branch: string;
   commit: string;
+  message?: string;  // First line of the commit message (not available from GitLab)
   repository: string;
   deployments: Deployment[];
   isRelease: boolean;
   isReleaseSuccess: boolean;
   inSprint: boolean;
+  provider?: CiProviderName; // Builds cached before GitHub Actions support are Buildkite's
 }
 
+export type CiProviderName = 'buildkite' | 'github' | 'gitlab';
+
 export interface Deployment {
   deployedAt: string;
   name: string;
   status: string;
+  // Successful deployments: commits shipped since the pipeline's previous successful deployment (only the
+  // deployed commit when there was none before). Absent when its repository's commits can't be read.
+  commits?: DeployedCommit[];
+}
+
+export interface DeployedCommit {
+  sha: string;
+  committedAt: string;  // Author date, which survives rebases and cherry-picks
+  message: string;      // First line
+}
+
+export interface IssueBuildRef {
+  pipelineName: string;
+  buildNumber: number;
+  provider?: CiProviderName;
 }
 
 export interface SprintData {
@@ -86,6 +249,52 @@ export interface SprintData {
   columns: SprintColumn[];
   issues: Issue[];
   builds: Build[];
+  fetchedAt?: string;  // When Jira and CI were last read, fully or by an incremental sync
+  schemaVersion?: number;  // Shape of the cached payload (see utils/sprintDataMigrations)
+  chunks?: SprintDataChunks;  // Set when issues and builds are stored in separate chunks, leaving both arrays empty
+}
+
+export type SprintDataChunkPart = 'issues' | 'builds';
+
+/**
+ * Where a large sprint's issues and builds are, in `count` chunk objects per part
+ */
+export interface SprintDataChunks {
+  id: string;
+  issues: { count: number; total: number };
+  builds: { count: number; total: number };
+}
+
+export type SprintJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface SprintJobProgress {
+  issuesTotal: number;
+  issuesFetched: number;
+  pipelinesTotal: number;
+  pipelinesDone: number;
+}
+
+export interface SprintJob {
+  id: string;
+  team: string;
+  sprintIndex: number;
+  sprintName: string;
+  status: SprintJobStatus;
+  progress: SprintJobProgress;
+  errors: string[];
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Refetch everything rather than syncing a cached active sprint
+  refresh?: boolean;
+}
+
+// GET /sprints/range: the cached sprints (large ones with `chunks` to load, as with lazyChunks), and jobs fetching
+// the ones that weren't cached (or were due a sync)
+export interface SprintRangeResponse {
+  sprints: SprintData[];
+  jobs: SprintJob[];
 }
 
 export interface SprintStats {
@@ -128,7 +337,9 @@ export interface LLMAnalysisRequest {
     successfulReleases: number;
     avgBuildDuration: number;
     deploymentFrequency: number;
-    medianLeadTime: number;
+    medianCycleTime: number;       // Lead time proxy: median cycle time of completed issues, in business days
+    medianChangeLeadTime: number;  // Commit to production deployment, in business days (0 when unknown)
+    p85ChangeLeadTime: number;
     changeFailureRate: number;
     medianMTTR: number;
     buildSummaryByPipeline?: Array<{
@@ -156,7 +367,9 @@ export interface LLMAnalysisRequest {
     successfulReleases: number;
     avgBuildDuration: number;
     deploymentFrequency: number;
-    medianLeadTime: number;
+    medianCycleTime: number;       // Lead time proxy: median cycle time of completed issues, in business days
+    medianChangeLeadTime: number;  // Commit to production deployment, in business days (0 when unknown)
+    p85ChangeLeadTime: number;
     changeFailureRate: number;
     medianMTTR: number;
     buildSummaryByPipeline?: Array<{
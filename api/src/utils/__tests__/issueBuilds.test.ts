@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findIssueKeys } from '../issueBuilds';
+
+describe('findIssueKeys', () => {
+  it('finds keys in branch names and commit messages, uppercased', () => {
+    assert.deepEqual(findIssueKeys('feature/proj-123-login'), ['PROJ-123']);
+    assert.deepEqual(findIssueKeys('PROJ-7 Fix the basket (see also ops-12)'), ['PROJ-7', 'OPS-12']);
+  });
+
+  it('does not take an underscore prefix into the key', () => {
+    assert.deepEqual(findIssueKeys('bugfix_PROJ-123'), ['PROJ-123']);
+    assert.deepEqual(findIssueKeys('hotfix/release_2_proj-9_retry'), ['PROJ-9']);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cacheSprintData, getCachedSprintSummary, getCachedSprintData } from '../storage';
+import { getObjectStore } from '../storage/objectStore';
+import { Issue, SprintData, TeamConfig } from '../../types';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+const teamConfig = { team: 'shop', JIRA_PROJECT: 'PROJ', JIRA_BOARD_ID: '1', JIRA_BASE_URL: 'https://acme.atlassian.net' } as TeamConfig;
+
+// More issues than fit in one chunk, so the sprint is stored in chunks
+const largeSprint = (summary: string): SprintData => ({
+  sprint: { index: 7, name: 'Sprint 7', state: 'closed' },
+  issues: Array.from({ length: 250 }, (_, i) => ({ key: `PROJ-${i}`, summary }) as unknown as Issue),
+  builds: []
+} as unknown as SprintData);
+
+const chunkSetIds = async (): Promise<Set<string>> => new Set((await getObjectStore().list('sprint-data/'))
+  .map(object => object.key.match(/\/chunks\/[^/]+\/([^/]+)\//)?.[1])
+  .filter((chunkSetId): chunkSetId is string => !!chunkSetId));
+
+describe('sprint cache', () => {
+  it("deletes a rewritten sprint's previous chunks straight away", async (t) => {
+    t.mock.method(console, 'log', () => {});
+    await cacheSprintData(teamConfig, 7, largeSprint('first'));
+    const first = (await getCachedSprintSummary(teamConfig, 7))?.data.chunks?.id;
+
+    await cacheSprintData(teamConfig, 7, largeSprint('second'));
+    const second = (await getCachedSprintSummary(teamConfig, 7))?.data.chunks?.id;
+
+    assert.ok(first && second && first !== second);
+    assert.deepEqual(await chunkSetIds(), new Set([second]));
+    assert.equal((await getCachedSprintData(teamConfig, 7))?.issues[0].summary, 'second');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchSprint } from '../sprintMatching';
+import { SprintCatalogueEntry } from '../../types';
+
+const sprints: SprintCatalogueEntry[] = [
+  { id: 101, name: 'Checkout Sprint 1', index: 0, state: 'closed' },
+  { id: 102, name: 'Checkout Sprint 2', index: 1, state: 'active' },
+  { id: 103, name: 'Checkout Sprint 3', index: 2, state: 'future' },
+  { id: 104, name: 'Payments Sprint 1', index: 3, state: 'future' }
+];
+
+describe('matchSprint', () => {
+  it('prefers the most recent started sprint for a partial name', () => {
+    assert.equal(matchSprint(sprints, 'checkout')?.id, 102);
+  });
+
+  it('falls back to future sprints when no started sprint matches', () => {
+    assert.equal(matchSprint(sprints, 'payments')?.id, 104);
+  });
+
+  it('still finds a future sprint by its exact name or ID', () => {
+    assert.equal(matchSprint(sprints, 'Checkout Sprint 3')?.id, 103);
+    assert.equal(matchSprint(sprints, 'id:103')?.id, 103);
+  });
+});
@@ -1,26 +1,220 @@
 import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { EncryptionError } from './errors';
 
-const ALGORITHM = 'aes-256-cbc';
-const SECRET_KEY = process.env.ENCRYPTION_KEY || 'your-32-character-secret-key-here!';
+/**
+ * Credentials are stored as a versioned envelope:
+ *
+ *   v1.<keyId>.<iv>.<ciphertext>.<authTag>   (base64url parts, AES-256-GCM)
+ *
+ * The `v1.<keyId>` header is authenticated as additional data, so a value can't be moved to another key.
+ * Values written before the envelope existed (`<ivHex>:<cipherHex>`, AES-256-CBC with a padded key)
+ * can still be decrypted with the designated legacy key and are rewritten by the rotation script.
+ */
+const ENVELOPE_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+const IV_LENGTH = 12;
+const MIN_SECRET_LENGTH = 32;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const KEY_DERIVATION_INFO = 'sprint-insights:credentials:v1';
+
+interface EncryptionKey {
+  id: string;
+  secret: string;
+  key: Buffer;
+}
+
+export interface Keyring {
+  activeKeyId: string;
+  /** The key values from before the envelope were written with; they carry no key ID of their own */
+  legacyKeyId?: string;
+  keys: Map<string, EncryptionKey>;
+}
+
+/**
+ * Keyring file format (`ENCRYPTION_KEYRING_FILE`):
+ *
+ *   { "activeKeyId": "2026-10", "legacyKeyId": "2025-01", "keys": { "2026-10": "<secret>", "2025-01": "<old secret>" } }
+ */
+interface KeyringFile {
+  activeKeyId: string;
+  legacyKeyId?: string;
+  keys: Record<string, string>;
+}
+
+let keyring: Keyring | null = null;
+
+function deriveKey(secret: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, '', KEY_DERIVATION_INFO, 32));
+}
+
+/**
+ * @param active - Only the key new values are written with has to meet the minimum length;
+ *                 older keys may be weak ones kept around until their values are rotated
+ */
+function createKey(id: string, secret: string, active: boolean): EncryptionKey {
+  if (!KEY_ID_PATTERN.test(id)) {
+    throw new EncryptionError(`Invalid encryption key ID "${id}": use letters, digits, "-" and "_"`);
+  }
+  if (!secret || (active && secret.length < MIN_SECRET_LENGTH)) {
+    throw new EncryptionError(`Encryption key "${id}" must be at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  return { id, secret, key: deriveKey(secret) };
+}
+
+/**
+ * A stable ID for a key configured without one, so changing ENCRYPTION_KEY also changes the ID
+ */
+function fingerprint(secret: string): string {
+  return 'k' + crypto.createHash('sha256').update(deriveKey(secret)).digest('hex').slice(0, 8);
+}
+
+function loadKeyringFile(path: string): Keyring {
+  let file: KeyringFile;
+  try {
+    file = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new EncryptionError(`Could not read keyring file ${path}: ${(error as Error).message}`);
+  }
+
+  const keys = new Map<string, EncryptionKey>();
+  for (const [id, secret] of Object.entries(file.keys || {})) {
+    keys.set(id, createKey(id, String(secret), id === file.activeKeyId));
+  }
+  if (!keys.has(file.activeKeyId)) {
+    throw new EncryptionError(`Keyring file ${path} has no key for activeKeyId "${file.activeKeyId}"`);
+  }
+  if (file.legacyKeyId && !keys.has(file.legacyKeyId)) {
+    throw new EncryptionError(`Keyring file ${path} has no key for legacyKeyId "${file.legacyKeyId}"`);
+  }
+
+  return { activeKeyId: file.activeKeyId, legacyKeyId: file.legacyKeyId || undefined, keys };
+}
+
+/**
+ * Keys from the environment: ENCRYPTION_KEY (active, ID from ENCRYPTION_KEY_ID or its fingerprint)
+ * plus ENCRYPTION_PREVIOUS_KEYS, a comma-separated list of `id=secret` kept for decryption during rotation.
+ * ENCRYPTION_LEGACY_KEY_ID names the key for values from before the envelope.
+ */
+function loadKeyringFromEnv(): Keyring {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new EncryptionError('ENCRYPTION_KEY (or ENCRYPTION_KEYRING_FILE) must be set to store credentials');
+  }
+
+  const activeKey = createKey(process.env.ENCRYPTION_KEY_ID || fingerprint(secret), secret, true);
+  const keys = new Map<string, EncryptionKey>([[activeKey.id, activeKey]]);
+
+  for (const entry of (process.env.ENCRYPTION_PREVIOUS_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new EncryptionError('ENCRYPTION_PREVIOUS_KEYS entries must be formatted as id=secret');
+    }
+    const id = entry.slice(0, separator);
+    if (!keys.has(id)) {
+      keys.set(id, createKey(id, entry.slice(separator + 1), false));
+    }
+  }
+
+  const legacyKeyId = process.env.ENCRYPTION_LEGACY_KEY_ID || undefined;
+  if (legacyKeyId && !keys.has(legacyKeyId)) {
+    throw new EncryptionError(`ENCRYPTION_LEGACY_KEY_ID "${legacyKeyId}" is not the active key or one of ENCRYPTION_PREVIOUS_KEYS`);
+  }
+
+  return { activeKeyId: activeKey.id, legacyKeyId, keys };
+}
+
+/**
+ * The configured keyring, loaded on first use. Throws when no key is configured - there is no default key.
+ */
+export function getKeyring(): Keyring {
+  if (!keyring) {
+    const keyringFile = process.env.ENCRYPTION_KEYRING_FILE;
+    keyring = keyringFile ? loadKeyringFile(keyringFile) : loadKeyringFromEnv();
+  }
+  return keyring;
+}
+
+function getActiveKey(): EncryptionKey {
+  const ring = getKeyring();
+  return ring.keys.get(ring.activeKeyId)!;
+}
 
 export function encrypt(text: string): string {
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipheriv(ALGORITHM, Buffer.from(SECRET_KEY.padEnd(32, '0').slice(0, 32)), iv);
-  
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  return iv.toString('hex') + ':' + encrypted;
+  const { id, key } = getActiveKey();
+  const header = `${ENVELOPE_VERSION}.${id}`;
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(header));
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+
+  return [header, iv.toString('base64url'), encrypted.toString('base64url'), cipher.getAuthTag().toString('base64url')].join('.');
 }
 
 export function decrypt(encryptedText: string): string {
+  if (isLegacyValue(encryptedText)) {
+    return decryptLegacy(encryptedText);
+  }
+
+  const [version, keyId, iv, encrypted, authTag] = encryptedText.split('.');
+  if (version !== ENVELOPE_VERSION || authTag === undefined) {
+    throw new EncryptionError('Unrecognised encrypted value');
+  }
+
+  const encryptionKey = getKeyring().keys.get(keyId);
+  if (!encryptionKey) {
+    throw new EncryptionError(`Encryption key "${keyId}" is not in the keyring`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey.key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(`${version}.${keyId}`));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new EncryptionError(`Encrypted value failed its integrity check with key "${keyId}"`);
+  }
+}
+
+/**
+ * The key ID an encrypted value was written with, or null for values from before the envelope
+ */
+export function getKeyId(encryptedText: string): string | null {
+  if (isLegacyValue(encryptedText)) {
+    return null;
+  }
+  return encryptedText.split('.')[1] ?? null;
+}
+
+/**
+ * Whether a value should be rewritten with the active key (legacy format or an older key)
+ */
+export function needsReencryption(encryptedText: string): boolean {
+  return getKeyId(encryptedText) !== getKeyring().activeKeyId;
+}
+
+function isLegacyValue(encryptedText: string): boolean {
+  return /^[0-9a-f]{32}:[0-9a-f]*$/i.test(encryptedText);
+}
+
+/**
+ * Legacy values carry no key ID and CBC padding is no integrity check - a wrong key can still "succeed" -
+ * so they are only decrypted with the designated legacy key, or the only key when the keyring has just one
+ */
+function decryptLegacy(encryptedText: string): string {
   const [ivHex, encrypted] = encryptedText.split(':');
-  
-  const iv = Buffer.from(ivHex, 'hex');
-  const decipher = crypto.createDecipheriv(ALGORITHM, Buffer.from(SECRET_KEY.padEnd(32, '0').slice(0, 32)), iv);
-  
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
+  const { legacyKeyId, keys } = getKeyring();
+  const legacyKey = legacyKeyId ? keys.get(legacyKeyId) : keys.size === 1 ? [...keys.values()][0] : undefined;
+  if (!legacyKey) {
+    throw new EncryptionError('Legacy encrypted value found but no legacy key is designated: set ENCRYPTION_LEGACY_KEY_ID (or legacyKeyId in the keyring file)');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, Buffer.from(legacyKey.secret.padEnd(32, '0').slice(0, 32)), Buffer.from(ivHex, 'hex'));
+    return decipher.update(encrypted, 'hex', 'utf8') + decipher.final('utf8');
+  } catch (error) {
+    throw new EncryptionError(`Legacy encrypted value could not be decrypted with key "${legacyKey.id}"`);
+  }
 }
@@ -0,0 +1,59 @@
+/**
+ * Raised when a sprint identifier doesn't match any sprint on the board
+ */
+export class SprintNotFoundError extends Error {
+  constructor(public identifier: string, public candidates: string[]) {
+    super(`No sprint matching "${identifier}" found`);
+    this.name = 'SprintNotFoundError';
+  }
+}
+
+/**
+ * Raised when a sprint exists but has no data yet (future sprints)
+ */
+export class SprintNotStartedError extends Error {
+  constructor(public sprintName: string) {
+    super(`Sprint "${sprintName}" has not started yet`);
+    this.name = 'SprintNotStartedError';
+  }
+}
+
+/**
+ * Raised when a request's credentials are missing or not acceptable (401)
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Raised when a write is based on stale data or would duplicate an existing record (409)
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Raised when credentials can't be encrypted or decrypted: no key configured, unknown key ID or a failed integrity check
+ */
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Raised by a storage backend when a conditional write's If-Match / If-None-Match precondition doesn't hold
+ */
+export class PreconditionFailedError extends Error {
+  constructor(public key: string) {
+    super(`Precondition failed for ${key}`);
+    this.name = 'PreconditionFailedError';
+  }
+}
@@ -0,0 +1,104 @@
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * fetch() wrapper that backs off and retries on rate limiting (429) and transient gateway errors.
+ * Honours the Retry-After header when present, otherwise uses exponential backoff with jitter.
+ * The final response is returned as-is so callers keep their own error handling.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}, options: RetryOptions = {}): Promise<Response> {
+  const { maxRetries = 5, baseDelayMs = 1000, maxDelayMs = 30000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Request to ${url} failed (${(error as Error).message}), retrying in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    const backoff = baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs);
+    const delay = Math.min(maxDelayMs, retryAfter ?? backoff);
+    console.warn(`HTTP ${response.status} from ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+    await sleep(delay);
+  }
+}
+
+export interface PageOptions {
+  headers: Record<string, string>;
+  // What is being listed, for log and error messages, e.g. `builds for my-pipeline`
+  description: string;
+  maxPages: number;
+  // Picks the items out of a page's body (defaults to the body itself)
+  getItems?: (data: any) => any[];
+  // Stops paging early once a page has everything needed
+  isLastPage?: (items: any[]) => boolean;
+}
+
+/**
+ * Read every page of a list by following the `rel="next"` URL in the Link header (as sent by Buildkite,
+ * GitHub and GitLab), up to `maxPages` with a warning. An unreadable first page is logged and yields
+ * no items; a later page failing throws, as returning what was read would silently drop items.
+ */
+export async function fetchAllPages(url: string, options: PageOptions): Promise<any[]> {
+  const { headers, description, maxPages, getItems = data => data, isLastPage } = options;
+  const items: any[] = [];
+  let nextUrl: string | null = url;
+
+  for (let page = 1; nextUrl; page++) {
+    if (page > maxPages) {
+      console.warn(`Stopped after ${maxPages} pages of ${description}`);
+      break;
+    }
+
+    const response = await fetchWithRetry(nextUrl, { method: 'GET', headers });
+    if (!response.ok) {
+      if (page > 1) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText} when getting page ${page} of ${description}`);
+      }
+      console.warn(`HTTP ${response.status}: ${response.statusText} when getting ${description}`);
+      return [];
+    }
+
+    const pageItems: any[] = getItems(await response.json()) || [];
+    items.push(...pageItems);
+    nextUrl = isLastPage?.(pageItems) ? null : response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] || null;
+  }
+
+  return items;
+}
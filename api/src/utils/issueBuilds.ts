@@ -0,0 +1,34 @@
+import { Build, Issue, IssueBuildRef } from '../types';
+
+// Jira keys (PROJ-123), in any case as branch names are often lowercased, e.g. feature/proj-123-login.
+// An underscore separates a key from what comes before it, as in bugfix_PROJ-123.
+const ISSUE_KEY_PATTERN = /(?<![A-Za-z0-9])[A-Za-z][A-Za-z0-9]*-\d+(?!\d)/g;
+
+/**
+ * Issue keys mentioned in a branch name or commit message, uppercased
+ */
+export function findIssueKeys(text: string): string[] {
+  return [...new Set((text.match(ISSUE_KEY_PATTERN) || []).map(key => key.toUpperCase()))];
+}
+
+/**
+ * Link each issue to the builds whose branch or commit message mentions its key, and to the builds whose
+ * successful deployments shipped a commit mentioning it (the commits the deployment shipped since the previous one)
+ * @returns The issues with `builds` set, replacing any earlier links
+ */
+export function linkIssueBuilds<T extends Pick<Issue, 'key' | 'builds'>>(issues: T[], builds: Build[]): T[] {
+  const buildsByKey = new Map<string, IssueBuildRef[]>();
+  for (const build of builds) {
+    const shippedMessages = build.deployments
+      .filter(deployment => deployment.status === 'success')
+      .flatMap(deployment => (deployment.commits || []).map(commit => commit.message));
+    const keys = new Set([build.branch || '', build.message || '', ...shippedMessages].flatMap(findIssueKeys));
+
+    const ref: IssueBuildRef = { pipelineName: build.pipelineName, buildNumber: build.buildNumber, provider: build.provider };
+    for (const key of keys) {
+      buildsByKey.set(key, [...(buildsByKey.get(key) || []), ref]);
+    }
+  }
+
+  return issues.map(issue => ({ ...issue, builds: buildsByKey.get(issue.key) || [] }));
+}
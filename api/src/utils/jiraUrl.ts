@@ -0,0 +1,42 @@
+import { TeamConfig } from '../types';
+
+/**
+ * Validate and normalise a site URL, e.g. a Jira site (`https://your-domain.atlassian.net`) or self-hosted GitLab.
+ * Keeps any context path for self-hosted sites, drops trailing slashes, query and hash.
+ * @returns The normalised URL, or null if it is not a valid https URL (http is allowed for localhost)
+ */
+export function normaliseBaseUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  const isLocalhost = parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1';
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocalhost)) {
+    return null;
+  }
+
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Resolve the Jira site for a team, falling back to the JIRA_BASE_URL environment variable
+ */
+export function getJiraBaseUrl(teamConfig: TeamConfig): string {
+  return teamConfig.JIRA_BASE_URL || process.env.JIRA_BASE_URL || 'https://www.atlassian.net';
+}
+
+/**
+ * A filesystem-safe identifier for a team's Jira site, used in cache keys
+ */
+export function getJiraSiteSlug(teamConfig: TeamConfig): string {
+  const baseUrl = getJiraBaseUrl(teamConfig);
+  try {
+    const parsed = new URL(baseUrl);
+    return `${parsed.host}${parsed.pathname}`.toLowerCase().replace(/\W+/g, '-').replace(/-+$/, '');
+  } catch {
+    return baseUrl.toLowerCase().replace(/\W+/g, '-');
+  }
+}
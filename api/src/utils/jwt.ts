@@ -0,0 +1,171 @@
+import { createPublicKey, verify, constants, KeyObject, JsonWebKey } from 'crypto';
+import { fetchWithRetry } from './http';
+import { AuthenticationError } from './errors';
+
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  issuer: string;
+  audience?: string;
+  clockToleranceSec?: number;
+}
+
+// Signature algorithms we accept, mapped to the digest and the key's signature encoding
+const ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363'; pss?: boolean }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', pss: true },
+  PS384: { hash: 'sha384', pss: true },
+  PS512: { hash: 'sha512', pss: true },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' }
+};
+
+/**
+ * Signing keys published by an OIDC issuer, discovered from `/.well-known/openid-configuration`.
+ * Keys are cached and refetched when a token names an unknown key ID (key rotation).
+ */
+export class JwksClient {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private cacheTtlMs = 10 * 60 * 1000;
+  // Unknown key IDs trigger at most one refetch per interval
+  private minRefetchIntervalMs = 60 * 1000;
+
+  constructor(private issuer: string, private jwksUri?: string) {
+    this.issuer = issuer.replace(/\/+$/, '');
+    this.jwksUri = jwksUri;
+  }
+
+  async getKey(kid: string | undefined): Promise<KeyObject> {
+    const isStale = Date.now() - this.fetchedAt > this.cacheTtlMs;
+    if (isStale || (!this.findKey(kid) && Date.now() - this.fetchedAt > this.minRefetchIntervalMs)) {
+      await this.refresh();
+    }
+
+    const key = this.findKey(kid);
+    if (!key) {
+      throw new AuthenticationError(`Unknown signing key${kid ? ` "${kid}"` : ''}`);
+    }
+    return key;
+  }
+
+  private findKey(kid: string | undefined): KeyObject | undefined {
+    // Tokens without a key ID are only accepted when the issuer publishes a single key
+    if (!kid) {
+      return this.keys.size === 1 ? [...this.keys.values()][0] : undefined;
+    }
+    return this.keys.get(kid);
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.jwksUri) {
+      const discovery = await this.fetchJson(`${this.issuer}/.well-known/openid-configuration`);
+      if (!discovery.jwks_uri) {
+        throw new Error(`OIDC discovery for ${this.issuer} has no jwks_uri`);
+      }
+      this.jwksUri = discovery.jwks_uri as string;
+    }
+
+    const jwks = await this.fetchJson(this.jwksUri);
+    const keys = new Map<string, KeyObject>();
+    (jwks.keys || []).forEach((jwk: JsonWebKey & { kid?: string; use?: string }, i: number) => {
+      if (jwk.use && jwk.use !== 'sig') return;
+      try {
+        keys.set(jwk.kid || `key-${i}`, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch (error) {
+        console.warn(`Skipping unsupported JWK ${jwk.kid || i}:`, error);
+      }
+    });
+
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+
+  private async fetchJson(url: string): Promise<any> {
+    const response = await fetchWithRetry(url, { headers: { 'Accept': 'application/json' } }, { maxRetries: 2 });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+    return await response.json();
+  }
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Malformed token');
+  }
+}
+
+/**
+ * Verify a compact JWS bearer token: signature against the issuer's keys, then issuer, audience and validity window
+ * @throws AuthenticationError when the token is not acceptable
+ */
+export async function verifyJwt(token: string, jwksClient: JwksClient, options: JwtVerifyOptions): Promise<JwtClaims> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthenticationError('Malformed token');
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+  const header = decodeSegment(headerSegment);
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new AuthenticationError(`Unsupported token algorithm "${header.alg}"`);
+  }
+
+  const key = await jwksClient.getKey(header.kid);
+  const isValid = verify(
+    algorithm.hash,
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    {
+      key,
+      ...(algorithm.dsaEncoding && { dsaEncoding: algorithm.dsaEncoding }),
+      ...(algorithm.pss && { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST })
+    },
+    Buffer.from(signatureSegment, 'base64url')
+  );
+  if (!isValid) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const claims: JwtClaims = decodeSegment(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSec ?? 60;
+
+  if (claims.iss?.replace(/\/+$/, '') !== options.issuer.replace(/\/+$/, '')) {
+    throw new AuthenticationError('Token issuer is not trusted');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthenticationError('Token audience does not match');
+    }
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+    throw new AuthenticationError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new AuthenticationError('Token is not valid yet');
+  }
+  if (!claims.sub) {
+    throw new AuthenticationError('Token has no subject');
+  }
+
+  return claims;
+}
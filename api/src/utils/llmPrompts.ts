@@ -81,13 +81,18 @@ ${pipelineSummaries}
 // Helper function to format DORA metrics
 function formatDoraMetrics(stats: any): string {
   const deploymentFrequency = stats?.deploymentFrequency ?? 0;
-  const medianLeadTime = stats?.medianLeadTime ?? 0;
+  const medianChangeLeadTime = stats?.medianChangeLeadTime ?? 0;
+  const p85ChangeLeadTime = stats?.p85ChangeLeadTime ?? 0;
+  const medianCycleTime = stats?.medianCycleTime ?? 0;
   const changeFailureRate = stats?.changeFailureRate ?? 0;
   const medianMTTR = stats?.medianMTTR ?? 0;
   
   return `<section name="DORA METRICS">
 - Deployment Frequency: ${deploymentFrequency.toFixed(2)} releases/day
-- Lead Time for Changes: ${medianLeadTime.toFixed(1)} days (median cycle time)
+- Lead Time for Changes: ${medianChangeLeadTime > 0
+    ? `${medianChangeLeadTime.toFixed(1)} business days median, ${p85ChangeLeadTime.toFixed(1)} 85th percentile (commit to production deployment)`
+    : 'unknown (no deployed commits)'}
+- Cycle Time (lead time proxy): ${medianCycleTime.toFixed(1)} business days (median, work start to completion)
 - Change Failure Rate: ${changeFailureRate.toFixed(1)}% (incidents per successful release)
 - Mean Time to Restore: ${medianMTTR.toFixed(1)} hours (median incident resolution time)
 </section>`;
@@ -219,9 +224,10 @@ interface Issue {
   timeSpent: Record<string, number>; // Time spent in each board column (in business days) - e.g., { "In Progress": 2.5, "Review": 1.2 }
   flags: { isBlocked, isIncidentResponse, isBackAndForth, isUnplanned, isInherited, isSpillover, isCompleted, isClosed }; // Boolean flags
   history: Array<{ fromString: string; toString: string; at: Date; inSprint: boolean }>; // Status change history
+  builds?: Array<{ pipelineName: string; buildNumber: number }>; // Builds whose branch or commits mention the issue key
 }
 interface Build {
-  pipelineName: string; repository: string; status: string; startedAt: string; finishedAt: string; duration: number; isRelease: boolean; isReleaseSuccess: boolean; inSprint: boolean;
+  pipelineName: string; buildNumber: number; repository: string; status: string; startedAt: string; finishedAt: string; duration: number; isRelease: boolean; isReleaseSuccess: boolean; inSprint: boolean;
 }
 interface SprintData { 
   sprint: { index: number; name: string; state: string; start: Date; end: Date; };
@@ -0,0 +1,87 @@
+import { ReleaseDetectionRules } from '../types';
+
+export interface CompiledReleaseRules {
+  blockStep: RegExp | null;
+  followTriggers: boolean;
+  metaData: Array<[string, RegExp]>;
+  env: Array<[string, RegExp]>;
+}
+
+const NO_RULES: CompiledReleaseRules = { blockStep: null, followTriggers: false, metaData: [], env: [] };
+
+/**
+ * Compile a `/regex/flags` or bare regex pattern, as used in BUILDKITE_PIPELINES and release rules
+ * @throws SyntaxError if the pattern is invalid
+ */
+export function parseRegex(pattern: string): RegExp {
+  const m = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+  return m ? new RegExp(m[1], m[2]) : new RegExp(pattern);
+}
+
+/**
+ * @throws SyntaxError if a pattern is invalid
+ */
+export function compileReleaseRules(rules?: ReleaseDetectionRules): CompiledReleaseRules {
+  if (!rules) {
+    return NO_RULES;
+  }
+
+  const compileMap = (patterns?: Record<string, string>): Array<[string, RegExp]> =>
+    Object.entries(patterns || {}).map(([name, pattern]) => [name, parseRegex(pattern)]);
+
+  return {
+    blockStep: rules.blockStepPattern ? parseRegex(rules.blockStepPattern) : null,
+    followTriggers: !!rules.followTriggers,
+    metaData: compileMap(rules.metaData),
+    env: compileMap(rules.env)
+  };
+}
+
+/**
+ * Check release rules from a request body
+ * @returns The rules with blank pipeline slugs dropped, or null if they're malformed or a pattern is invalid
+ */
+export function parseReleaseRules(value: unknown): Record<string, ReleaseDetectionRules> | undefined | null {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const isPattern = (pattern: unknown) => typeof pattern === 'string' && pattern.trim() !== '';
+  const isPatternMap = (patterns: unknown) => patterns === undefined || (
+    typeof patterns === 'object' && patterns !== null && !Array.isArray(patterns) && Object.values(patterns).every(isPattern)
+  );
+
+  const rules: Record<string, ReleaseDetectionRules> = {};
+  for (const [pipeline, pipelineRules] of Object.entries(value)) {
+    if (typeof pipelineRules !== 'object' || pipelineRules === null || Array.isArray(pipelineRules)) {
+      return null;
+    }
+
+    const { blockStepPattern, followTriggers, metaData, env } = pipelineRules as Record<string, unknown>;
+    if ((blockStepPattern !== undefined && !isPattern(blockStepPattern)) ||
+        (followTriggers !== undefined && typeof followTriggers !== 'boolean') ||
+        !isPatternMap(metaData) || !isPatternMap(env)) {
+      return null;
+    }
+
+    const parsed: ReleaseDetectionRules = {
+      ...(blockStepPattern !== undefined && { blockStepPattern: blockStepPattern as string }),
+      ...(followTriggers !== undefined && { followTriggers: followTriggers as boolean }),
+      ...(metaData !== undefined && { metaData: metaData as Record<string, string> }),
+      ...(env !== undefined && { env: env as Record<string, string> })
+    };
+    try {
+      compileReleaseRules(parsed);
+    } catch (error) {
+      return null;
+    }
+    if (pipeline.trim()) {
+      rules[pipeline.trim()] = parsed;
+    }
+  }
+
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
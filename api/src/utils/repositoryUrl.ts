@@ -0,0 +1,25 @@
+/**
+ * Split a repository URL as CI providers report it (`https://github.com/acme/web.git`,
+ * `git@gitlab.com:acme/platform/api.git` or `ssh://git@host:2222/acme/web`) into its host and path
+ * @returns The lowercased host and the path without `.git`, or null if it isn't a repository URL
+ */
+export function parseRepositoryUrl(repository: string): { host: string; path: string } | null {
+  const trimmed = repository.trim();
+  const scpLike = trimmed.match(/^[\w.-]+@([^:/]+):(?!\/)(.+)$/);
+  let host: string;
+  let path: string;
+  if (scpLike) {
+    [, host, path] = scpLike;
+  } else {
+    try {
+      const parsed = new URL(trimmed);
+      host = parsed.hostname;
+      path = decodeURIComponent(parsed.pathname);
+    } catch {
+      return null;
+    }
+  }
+
+  path = path.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+  return host && path ? { host: host.toLowerCase(), path } : null;
+}
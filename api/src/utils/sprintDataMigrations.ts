@@ -0,0 +1,52 @@
+import { SprintData } from '../types';
+import { linkIssueBuilds } from './issueBuilds';
+
+/**
+ * Version of the SprintData shape written to the sprint cache. When SprintData, Issue or Build change
+ * shape, bump it and register a migration from the previous version rather than bumping API_VERSION,
+ * which orphans every cached sprint and means refetching them all from Jira.
+ */
+export const SPRINT_DATA_SCHEMA_VERSION = 2;
+
+// Payloads cached before they carried a schema version
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+type SprintDataMigration = (data: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade from, each returning the payload in the next version's shape.
+ * Migrations must not need Jira or CI providers: a field that can't be derived from the payload is left optional.
+ *
+ * e.g. `1: data => ({ ...data, builds: data.builds.map((build: any) => ({ ...build, newField: build.oldField })) })`
+ */
+const migrations: Record<number, SprintDataMigration> = {
+  // Issues link to the builds that mention them; builds cached before then have no commit message to match
+  1: data => ({ ...data, issues: linkIssueBuilds(data.issues, data.builds) })
+};
+
+/**
+ * Bring a cached sprint payload up to the current schema version
+ * @returns The payload and whether it changed (so it can be written back), or null if it was written
+ * by a newer version of the API than this one
+ * @throws Error if a migration is missing
+ */
+export function upgradeSprintData(payload: any): { data: SprintData; upgraded: boolean } | null {
+  const fromVersion: number = payload.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+  if (fromVersion > SPRINT_DATA_SCHEMA_VERSION) {
+    return null;
+  }
+
+  let data = payload;
+  for (let version = fromVersion; version < SPRINT_DATA_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No sprint data migration from schema version ${version}`);
+    }
+    data = migrate(data);
+  }
+
+  return {
+    data: { ...data, schemaVersion: SPRINT_DATA_SCHEMA_VERSION },
+    upgraded: payload.schemaVersion !== SPRINT_DATA_SCHEMA_VERSION
+  };
+}
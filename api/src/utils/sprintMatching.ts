@@ -0,0 +1,60 @@
+import { SprintCatalogueEntry } from '../types';
+
+export function slugifySprintName(name: string): string {
+  return name.toLowerCase().replace(/\W/g, '-');
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find a sprint by identifier, trying in order:
+ * 1. Exact name (case-insensitive)
+ * 2. Jira sprint ID (`id:123` or a bare number equal to a sprint ID)
+ * 3. Fuzzy name match (slug containment), preferring the most recent started sprint, then future sprints
+ */
+export function matchSprint(sprints: SprintCatalogueEntry[], identifier: string): SprintCatalogueEntry | undefined {
+  const trimmed = identifier.trim();
+
+  const exact = sprints.find(s => s.name.toLowerCase() === trimmed.toLowerCase());
+  if (exact) return exact;
+
+  const idMatch = trimmed.match(/^(?:id:)?(\d+)$/i);
+  if (idMatch) {
+    const byId = sprints.find(s => s.id === parseInt(idMatch[1], 10));
+    if (byId) return byId;
+  }
+
+  const slug = slugifySprintName(trimmed);
+  const fuzzyMatches = sprints
+    .filter(s => slugifySprintName(s.name).includes(slug))
+    .sort((a, b) => b.index - a.index);
+  return fuzzyMatches.find(s => s.state !== 'future') || fuzzyMatches[0];
+}
+
+/**
+ * Suggest the closest sprint names for an identifier that matched nothing
+ */
+export function suggestSprints(sprints: SprintCatalogueEntry[], identifier: string, limit: number = 5): string[] {
+  const slug = slugifySprintName(identifier.trim());
+  return sprints
+    .map(s => ({ name: s.name, distance: levenshtein(slug, slugifySprintName(s.name)) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(s => s.name);
+}
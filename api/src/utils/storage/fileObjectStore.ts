@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ObjectStore, ObjectInfo, StoredObject, StoredBytes, WriteOptions, computeEtag } from './objectStore';
+import { PreconditionFailedError } from '../errors';
+
+// Working files live under dot-directories, which never clash with keys
+const LOCKS_DIR = '.locks';
+const TEMP_DIR = '.tmp';
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5000;
+// A lock older than this was left behind by a crashed process
+const STALE_LOCK_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Objects as files under a local directory, one file per key. Writes go through a temporary file
+ * and a rename, and conditional writes hold a per-key lock, so the API and worker processes can share it.
+ */
+export class FileObjectStore implements ObjectStore {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const object = await this.getBytes(key);
+    return object ? { body: object.body.toString('utf8'), etag: object.etag } : null;
+  }
+
+  async getBytes(key: string): Promise<StoredBytes | null> {
+    try {
+      const body = await fs.promises.readFile(this.keyPath(key));
+      return { body, etag: computeEtag(body) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, body: string | Buffer, options: WriteOptions = {}): Promise<string> {
+    const write = async () => {
+      const filePath = this.keyPath(key);
+      const tempPath = path.join(this.rootDir, TEMP_DIR, crypto.randomUUID());
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.mkdir(path.dirname(tempPath), { recursive: true });
+      await fs.promises.writeFile(tempPath, body);
+      await fs.promises.rename(tempPath, filePath);
+      return computeEtag(body);
+    };
+
+    if (!options.ifMatch && !options.ifNoneMatch) {
+      return await write();
+    }
+    return await this.withLock(key, async () => {
+      await this.checkPreconditions(key, options);
+      return await write();
+    });
+  }
+
+  async delete(key: string, options: Pick<WriteOptions, 'ifMatch'> = {}): Promise<void> {
+    const remove = () => fs.promises.rm(this.keyPath(key), { force: true });
+
+    if (!options.ifMatch) {
+      await remove();
+      return;
+    }
+    await this.withLock(key, async () => {
+      await this.checkPreconditions(key, options);
+      await remove();
+    });
+  }
+
+  async list(prefix: string): Promise<ObjectInfo[]> {
+    // Only walk the directory the prefix points into
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const objects: ObjectInfo[] = [];
+
+    const walk = async (dir: string, keyPrefix: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        if (!keyPrefix && entry.name.startsWith('.')) continue;
+        const key = keyPrefix + entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${key}/`);
+        } else if (key.startsWith(prefix)) {
+          const stat = await fs.promises.stat(path.join(dir, entry.name)).catch(() => null);
+          if (stat) {
+            objects.push({ key, size: stat.size, lastModified: stat.mtime.toISOString() });
+          }
+        }
+      }
+    };
+
+    await walk(prefixDir ? this.keyPath(prefixDir) : this.rootDir, prefixDir ? `${prefixDir}/` : '');
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private keyPath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep) || key.startsWith('.')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private async checkPreconditions(key: string, options: WriteOptions): Promise<void> {
+    const current = await this.get(key);
+    if ((options.ifNoneMatch && current) || (options.ifMatch && current?.etag !== options.ifMatch)) {
+      throw new PreconditionFailedError(key);
+    }
+  }
+
+  /**
+   * Run `fn` holding an exclusive lock on the key; creating a directory is atomic across processes
+   */
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = path.join(this.rootDir, LOCKS_DIR, encodeURIComponent(key));
+    await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await fs.promises.mkdir(lockPath);
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+
+        const lockAge = await fs.promises.stat(lockPath).then(stat => Date.now() - stat.mtimeMs, () => 0);
+        if (lockAge > STALE_LOCK_MS) {
+          await fs.promises.rm(lockPath, { recursive: true, force: true });
+        } else if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for the lock on ${key}`);
+        } else {
+          await sleep(LOCK_RETRY_MS);
+        }
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await fs.promises.rm(lockPath, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,768 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import {
+  TeamConfig,
+  SprintData,
+  SprintDataChunks,
+  SprintDataChunkPart,
+  SprintJob,
+  SprintCatalogue,
+  UserMembership,
+  ApiKeyRecord,
+  TeamAuditEntry,
+  CachedSprintEntry
+} from '../../types';
+import { getJiraSiteSlug } from '../jiraUrl';
+import { SPRINT_DATA_SCHEMA_VERSION, upgradeSprintData } from '../sprintDataMigrations';
+import { ConflictError, PreconditionFailedError } from '../errors';
+import { getObjectStore } from './objectStore';
+
+const SPRINT_JOBS_PREFIX = 'sprint-jobs/';
+const SPRINT_JOB_QUEUE_PREFIX = 'sprint-jobs/queue/';
+const TEAM_AUDIT_PREFIX = 'team-audit/';
+const TEAM_CONFIGS_PREFIX = 'team-configs/';
+const LEGACY_TEAM_CONFIGS_KEY = 'team-configs.json';
+const MIGRATED_TEAM_CONFIGS_KEY = 'team-configs.migrated.json';
+// Sprints with more issues or builds than this store both in separate chunk objects of these sizes
+const SPRINT_ISSUE_CHUNK_SIZE = 200;
+const SPRINT_BUILD_CHUNK_SIZE = 1000;
+// Unreferenced chunks younger than this (other than the set an entry pointed at before it was rewritten)
+// may belong to a concurrent write that hasn't stored its entry yet
+const SPRINT_CHUNK_GRACE_MS = 5 * 60 * 1000;
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * A key-safe form of a team name
+ */
+export function getTeamSlug(team: string): string {
+  return team.toLowerCase().replace(/\W/g, '-');
+}
+
+/**
+ * Identify a team's board across Jira sites: team, site, project and board.
+ * Two teams on different sites with the same project key never share keys.
+ */
+function getBoardKey(teamConfig: TeamConfig): string {
+  return `${getTeamSlug(teamConfig.team)}_${getJiraSiteSlug(teamConfig)}_${teamConfig.JIRA_PROJECT}_${teamConfig.JIRA_BOARD_ID}`;
+}
+
+/**
+ * Generate a stable cache key for sprint data
+ * Uses sprint index as the stable identifier
+ */
+function generateSprintCacheKey(teamConfig: TeamConfig, sprintIndex: number, isActive: boolean = false): string {
+  const boardKey = getBoardKey(teamConfig);
+  const apiVersion = process.env.API_VERSION || 'v1';
+  
+  // Active sprints have one entry, kept up to date by incremental syncs until the sprint closes
+  if (isActive) {
+    return `sprint-data/${apiVersion}/${boardKey}_index-${sprintIndex}_active.json`;
+  }
+  
+  // For closed sprints, use permanent cache key
+  return `sprint-data/${apiVersion}/${boardKey}_index-${sprintIndex}.json`;
+}
+
+/**
+ * Where a cached sprint's chunk objects live: sprint-data/v1/<board>_index-3.json has its chunks under
+ * sprint-data/v1/chunks/<board>_index-3/, one directory per write
+ */
+function sprintChunkPrefix(key: string): string {
+  const slash = key.lastIndexOf('/');
+  return `${key.slice(0, slash)}/chunks/${key.slice(slash + 1).replace(/\.json$/, '')}/`;
+}
+
+function sprintChunkKey(key: string, chunkSetId: string, part: SprintDataChunkPart, chunkIndex: number): string {
+  return `${sprintChunkPrefix(key)}${chunkSetId}/${part}-${chunkIndex}.json`;
+}
+
+function isGzipped(body: Buffer): boolean {
+  return body[0] === 0x1f && body[1] === 0x8b;
+}
+
+async function decodeJson(body: Buffer): Promise<any> {
+  // Entries cached before compression are plain JSON
+  return JSON.parse((isGzipped(body) ? await gunzip(body) : body).toString('utf8'));
+}
+
+function splitIntoChunks<T>(items: T[], chunkSize: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Write a sprint cache entry, gzipped. Large sprints get their issues and builds written to chunk objects
+ * first, so the entry never points at chunks that don't exist yet.
+ * @param ifMatch - Only replace the entry if its ETag still matches
+ * @returns The entry as stored (with `chunks` for a large sprint) and its compressed body
+ * @throws PreconditionFailedError if `ifMatch` no longer matches
+ */
+async function writeSprintCacheEntry(key: string, data: SprintData, ifMatch?: string): Promise<{ head: SprintData; body: Buffer }> {
+  const { chunks: _previousChunks, ...payload } = { ...data, schemaVersion: SPRINT_DATA_SCHEMA_VERSION };
+  let head: SprintData = payload;
+
+  if (payload.issues.length > SPRINT_ISSUE_CHUNK_SIZE || payload.builds.length > SPRINT_BUILD_CHUNK_SIZE) {
+    const issueChunks = splitIntoChunks(payload.issues, SPRINT_ISSUE_CHUNK_SIZE);
+    const buildChunks = splitIntoChunks(payload.builds, SPRINT_BUILD_CHUNK_SIZE);
+    const chunks: SprintDataChunks = {
+      id: crypto.randomUUID(),
+      issues: { count: issueChunks.length, total: payload.issues.length },
+      builds: { count: buildChunks.length, total: payload.builds.length }
+    };
+
+    const writeChunks = (part: SprintDataChunkPart, partChunks: unknown[][]) => partChunks.map(async (items, chunkIndex) =>
+      getObjectStore().put(sprintChunkKey(key, chunks.id, part, chunkIndex), await gzip(JSON.stringify(items)), {
+        contentType: 'application/json',
+        contentEncoding: 'gzip'
+      })
+    );
+    await Promise.all([...writeChunks('issues', issueChunks), ...writeChunks('builds', buildChunks)]);
+    head = { ...payload, issues: [], builds: [], chunks };
+  }
+
+  const replacedChunkSetId = await getSprintChunkSetId(key);
+  const body = await gzip(JSON.stringify(head));
+  try {
+    await getObjectStore().put(key, body, { contentType: 'application/json', contentEncoding: 'gzip', ifMatch });
+  } catch (error) {
+    if (head.chunks) {
+      await deleteSprintChunks(key, chunkSetId => chunkSetId === head.chunks!.id);
+    }
+    throw error;
+  }
+
+  // The chunk set the entry pointed at goes straight away; a client still loading it gets a 404 and reads the
+  // entry again. Other unreferenced sets are only deleted once older than the grace period.
+  await deleteSprintChunks(key, (chunkSetId, lastModified) => chunkSetId !== head.chunks?.id && (
+    chunkSetId === replacedChunkSetId || Date.now() - new Date(lastModified).getTime() > SPRINT_CHUNK_GRACE_MS
+  ));
+  return { head, body };
+}
+
+/**
+ * The chunk set a sprint cache entry currently points at
+ * @returns undefined if there is no entry, or it isn't stored in chunks
+ */
+async function getSprintChunkSetId(key: string): Promise<string | undefined> {
+  try {
+    const object = await getObjectStore().getBytes(key);
+    return object ? (await decodeJson(object.body)).chunks?.id : undefined;
+  } catch (error) {
+    console.warn(`Failed to read the chunk set of ${key}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Delete the chunk objects of a sprint cache entry that match `shouldDelete`
+ */
+async function deleteSprintChunks(key: string, shouldDelete: (chunkSetId: string, lastModified: string) => boolean): Promise<void> {
+  const prefix = sprintChunkPrefix(key);
+  for (const object of await getObjectStore().list(prefix)) {
+    if (shouldDelete(object.key.slice(prefix.length).split('/')[0], object.lastModified)) {
+      await getObjectStore().delete(object.key);
+    }
+  }
+}
+
+/**
+ * Read a sprint cache entry without loading its chunks. An entry in an older schema version is upgraded
+ * (which loads its chunks) and one cached before compression is compressed, both written back.
+ * @returns The entry and its compressed body, or null if there is none or it was written by a newer API version
+ */
+async function readSprintCacheEntry(key: string): Promise<{ head: SprintData; body: Buffer } | null> {
+  const object = await getObjectStore().getBytes(key);
+  if (!object) {
+    return null;
+  }
+
+  const payload = await decodeJson(object.body);
+  if (payload.schemaVersion === SPRINT_DATA_SCHEMA_VERSION && isGzipped(object.body)) {
+    return { head: payload, body: object.body };
+  }
+
+  const result = upgradeSprintData(payload.chunks ? await loadSprintDataChunks(key, payload) : payload);
+  if (!result) {
+    console.log(`Cache entry ${key} was written by a newer API version, ignoring it`);
+    return null;
+  }
+
+  try {
+    return await writeSprintCacheEntry(key, result.data, object.etag);
+  } catch (error) {
+    console.warn(`Failed to write upgraded cache entry ${key}:`, error);
+    return { head: result.data, body: await gzip(JSON.stringify(result.data)) };
+  }
+}
+
+/**
+ * Fill in the issues and builds of an entry stored in chunks
+ */
+async function loadSprintDataChunks(key: string, head: SprintData): Promise<SprintData> {
+  if (!head.chunks) {
+    return head;
+  }
+
+  const { chunks, ...data } = head;
+  const loadPart = async (part: SprintDataChunkPart, count: number): Promise<any[]> => {
+    const loaded = await Promise.all(Array.from({ length: count }, async (_, chunkIndex) => {
+      const object = await getObjectStore().getBytes(sprintChunkKey(key, chunks.id, part, chunkIndex));
+      if (!object) {
+        throw new Error(`Missing ${part} chunk ${chunkIndex} of ${key}`);
+      }
+      return await decodeJson(object.body);
+    }));
+    return loaded.flat();
+  };
+
+  const [issues, builds] = await Promise.all([loadPart('issues', chunks.issues.count), loadPart('builds', chunks.builds.count)]);
+  return { ...data, issues, builds };
+}
+
+/**
+ * List a team's sprint cache entries for the current API version, including the daily entries
+ * active sprints used to be cached under (which are no longer served)
+ */
+export async function listCachedSprints(teamConfig: TeamConfig): Promise<(CachedSprintEntry & { key: string })[]> {
+  const apiVersion = process.env.API_VERSION || 'v1';
+  const boardKey = getBoardKey(teamConfig);
+  const prefix = `sprint-data/${apiVersion}/${boardKey}_index-`;
+  const entries: (CachedSprintEntry & { key: string })[] = [];
+
+  for (const object of await getObjectStore().list(prefix)) {
+    const match = object.key.slice(prefix.length).match(/^(\d+)(?:_date-(\d{4}-\d{2}-\d{2})|(_active))?\.json$/);
+    if (!match) continue;
+
+    entries.push({
+      key: object.key,
+      sprintIndex: parseInt(match[1], 10),
+      ...(match[2] && { date: match[2] }),
+      ...(match[3] && { active: true }),
+      current: !match[2],
+      size: object.size,
+      fetchedAt: object.lastModified
+    });
+  }
+
+  // Count a large sprint's chunks towards its size
+  const chunkObjects = await getObjectStore().list(`sprint-data/${apiVersion}/chunks/${boardKey}_index-`);
+  for (const entry of entries) {
+    const chunkPrefix = sprintChunkPrefix(entry.key);
+    for (const object of chunkObjects.filter(chunk => chunk.key.startsWith(chunkPrefix))) {
+      entry.size += object.size;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * List the sprint indices that currently have cached data for a team
+ */
+export async function listCachedSprintIndices(teamConfig: TeamConfig): Promise<Set<number>> {
+  try {
+    const entries = await listCachedSprints(teamConfig);
+    return new Set(entries.filter(entry => entry.current).map(entry => entry.sprintIndex));
+  } catch (error) {
+    console.error('Failed to list cached sprints:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Delete a team's cached sprint data: every entry of one sprint (including old daily entries), or all sprints
+ * @returns Number of entries deleted
+ */
+export async function deleteCachedSprintData(teamConfig: TeamConfig, sprintIndex?: number): Promise<number> {
+  const entries = (await listCachedSprints(teamConfig))
+    .filter(entry => sprintIndex === undefined || entry.sprintIndex === sprintIndex);
+
+  for (const entry of entries) {
+    await getObjectStore().delete(entry.key);
+    await deleteSprintChunks(entry.key, () => true);
+  }
+  console.log(`Deleted ${entries.length} sprint cache entries for ${teamConfig.team}${sprintIndex === undefined ? '' : ` sprint ${sprintIndex}`}`);
+  return entries.length;
+}
+
+/**
+ * Get cached sprint data using stable sprint index
+ * @param teamConfig - Team configuration
+ * @param sprintIndex - Resolved sprint index (not fuzzy identifier)
+ * @param isActive - Whether the sprint is active (active sprints have their own entry)
+ */
+export async function getCachedSprintData(teamConfig: TeamConfig, sprintIndex: number, isActive: boolean = false): Promise<SprintData | null> {
+  try {
+    const key = generateSprintCacheKey(teamConfig, sprintIndex, isActive);
+    const entry = await readSprintCacheEntry(key);
+    if (!entry) {
+      return null;
+    }
+
+    console.log(`Cache hit: ${key}`);
+    return await loadSprintDataChunks(key, entry.head);
+  } catch (error) {
+    // Expected when cache doesn't exist
+    return null;
+  }
+}
+
+/**
+ * Get a cached sprint as stored, for serving without decompressing it: a large sprint's issues and builds
+ * are left in their chunks (see getCachedSprintChunk)
+ * @returns The sprint (with `chunks` and empty issues and builds if it's large) and its gzipped JSON
+ */
+export async function getCachedSprintSummary(
+  teamConfig: TeamConfig,
+  sprintIndex: number,
+  isActive: boolean = false
+): Promise<{ data: SprintData; gzippedJson: Buffer } | null> {
+  try {
+    const entry = await readSprintCacheEntry(generateSprintCacheKey(teamConfig, sprintIndex, isActive));
+    return entry ? { data: entry.head, gzippedJson: entry.body } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Get one chunk of a large cached sprint's issues or builds
+ * @returns The chunk's gzipped JSON array, or null if the chunk set has been replaced
+ */
+export async function getCachedSprintChunk(
+  teamConfig: TeamConfig,
+  sprintIndex: number,
+  isActive: boolean,
+  chunkSetId: string,
+  part: SprintDataChunkPart,
+  chunkIndex: number
+): Promise<Buffer | null> {
+  const key = generateSprintCacheKey(teamConfig, sprintIndex, isActive);
+  return (await getObjectStore().getBytes(sprintChunkKey(key, chunkSetId, part, chunkIndex)))?.body || null;
+}
+
+/**
+ * Cache sprint data using stable sprint index
+ * @param teamConfig - Team configuration
+ * @param sprintIndex - Resolved sprint index (not fuzzy identifier)
+ * @param data - Sprint data to cache
+ */
+export async function cacheSprintData(teamConfig: TeamConfig, sprintIndex: number, data: SprintData): Promise<void> {
+  try {
+    // Determine if sprint is active based on the data
+    const isActive = data.sprint.state === 'active';
+    const key = generateSprintCacheKey(teamConfig, sprintIndex, isActive);
+    
+    const { head } = await writeSprintCacheEntry(key, data);
+    console.log(`Cached sprint data: ${key}${isActive ? ' (active sprint)' : ''}${head.chunks ? ` in ${head.chunks.issues.count + head.chunks.builds.count} chunks` : ''}`);
+
+    // Once a sprint has closed its active entry is never served again
+    if (!isActive) {
+      const activeKey = generateSprintCacheKey(teamConfig, sprintIndex, true);
+      await getObjectStore().delete(activeKey);
+      await deleteSprintChunks(activeKey, () => true);
+    }
+  } catch (error) {
+    console.error('Failed to cache sprint data:', error);
+  }
+}
+
+/**
+ * Every sprint cache entry key of the current API version, across all teams (for cache-wide maintenance)
+ */
+export async function listSprintCacheKeys(): Promise<string[]> {
+  const apiVersion = process.env.API_VERSION || 'v1';
+  const prefix = `sprint-data/${apiVersion}/`;
+  return (await getObjectStore().list(prefix))
+    .map(object => object.key)
+    .filter(key => !key.startsWith(`${prefix}chunks/`));
+}
+
+/**
+ * A cached sprint payload as stored (with its chunks loaded), before any schema upgrade
+ * @returns Whether the entry is stored compressed, along with the payload and its ETag
+ */
+export async function getCachedSprintDataByKey(key: string): Promise<{ payload: any; etag: string; compressed: boolean } | null> {
+  const object = await getObjectStore().getBytes(key);
+  if (!object) {
+    return null;
+  }
+
+  const payload = await decodeJson(object.body);
+  return {
+    payload: await loadSprintDataChunks(key, payload),
+    etag: object.etag,
+    compressed: isGzipped(object.body)
+  };
+}
+
+/**
+ * Rewrite a cached sprint payload, only if it hasn't changed since it was read
+ * @returns false if the entry changed (or was deleted) in the meantime
+ */
+export async function replaceCachedSprintData(key: string, data: SprintData, etag: string): Promise<boolean> {
+  try {
+    await writeSprintCacheEntry(key, data, etag);
+    return true;
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function generateSprintCatalogueKey(teamConfig: TeamConfig): string {
+  return `sprint-catalogue/${getBoardKey(teamConfig)}.json`;
+}
+
+/**
+ * Get the cached list of all sprints on a team's board
+ */
+export async function getCachedSprintCatalogue(teamConfig: TeamConfig): Promise<SprintCatalogue | null> {
+  try {
+    const data = (await getObjectStore().get(generateSprintCatalogueKey(teamConfig)))?.body;
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    // Expected when cache doesn't exist
+    return null;
+  }
+}
+
+export async function deleteCachedSprintCatalogue(teamConfig: TeamConfig): Promise<void> {
+  await getObjectStore().delete(generateSprintCatalogueKey(teamConfig));
+}
+
+export async function cacheSprintCatalogue(teamConfig: TeamConfig, catalogue: SprintCatalogue): Promise<void> {
+  try {
+    await getObjectStore().put(generateSprintCatalogueKey(teamConfig), JSON.stringify(catalogue), { contentType: 'application/json' });
+  } catch (error) {
+    console.error('Failed to cache sprint catalogue:', error);
+  }
+}
+
+/**
+ * A stored team config with the ETag of its object, used for conditional updates
+ */
+export interface StoredTeamConfig {
+  config: TeamConfig;
+  etag: string;
+}
+
+function teamConfigKey(team: string): string {
+  return `${TEAM_CONFIGS_PREFIX}${getTeamSlug(team)}.json`;
+}
+
+/**
+ * Move teams from the original single `team-configs.json` object to one object per team.
+ * Runs on the first read that finds no per-team objects; the legacy object is then renamed
+ * to `team-configs.migrated.json` so deleted teams can't come back.
+ */
+async function migrateLegacyTeamConfigs(): Promise<boolean> {
+  // Missing for new installs and once migrated
+  const legacyData = (await getObjectStore().get(LEGACY_TEAM_CONFIGS_KEY))?.body;
+  if (legacyData === undefined) {
+    return false;
+  }
+
+  const legacyTeams: TeamConfig[] = legacyData ? JSON.parse(legacyData) : [];
+
+  for (const team of legacyTeams) {
+    try {
+      await createTeamConfig(team);
+    } catch (error) {
+      // Another request migrated it first, or two legacy teams share a slug (first one wins)
+      console.warn(`Skipped migrating team config "${team.team}":`, (error as Error).message);
+    }
+  }
+
+  await getObjectStore().put(MIGRATED_TEAM_CONFIGS_KEY, legacyData || '[]', { contentType: 'application/json' });
+  await getObjectStore().delete(LEGACY_TEAM_CONFIGS_KEY);
+  console.log(`Migrated ${legacyTeams.length} team config(s) from ${LEGACY_TEAM_CONFIGS_KEY}`);
+  return legacyTeams.length > 0;
+}
+
+async function listTeamConfigKeys(): Promise<string[]> {
+  return (await getObjectStore().list(TEAM_CONFIGS_PREFIX)).map(object => object.key).filter(key => key.endsWith('.json'));
+}
+
+export async function listTeamConfigs(): Promise<StoredTeamConfig[]> {
+  let keys = await listTeamConfigKeys();
+  if (keys.length === 0 && await migrateLegacyTeamConfigs()) {
+    keys = await listTeamConfigKeys();
+  }
+
+  const teams = await Promise.all(keys.map(key => getTeamConfigByKey(key)));
+  return teams
+    .filter((team): team is StoredTeamConfig => team !== null)
+    .sort((a, b) => a.config.team.localeCompare(b.config.team));
+}
+
+export async function getTeamConfigs(): Promise<TeamConfig[]> {
+  try {
+    return (await listTeamConfigs()).map(team => team.config);
+  } catch (error) {
+    console.log('No team configs found:', error);
+    return [];
+  }
+}
+
+async function getTeamConfigByKey(key: string): Promise<StoredTeamConfig | null> {
+  try {
+    const object = await getObjectStore().get(key);
+    return object?.body ? { config: JSON.parse(object.body), etag: object.etag } : null;
+  } catch (error) {
+    // Expected when the team doesn't exist (or was deleted after listing)
+    return null;
+  }
+}
+
+/**
+ * Get a team by name. Teams whose names share a slug can't coexist, so the name must match exactly.
+ */
+export async function getTeamConfig(team: string): Promise<StoredTeamConfig | null> {
+  const stored = await getTeamConfigByKey(teamConfigKey(team));
+  return stored && stored.config.team === team ? stored : null;
+}
+
+/**
+ * Store a new team
+ * @returns The new object's ETag
+ * @throws ConflictError if a team with the same slug already exists
+ */
+export async function createTeamConfig(config: TeamConfig): Promise<string> {
+  try {
+    const etag = await getObjectStore().put(teamConfigKey(config.team), JSON.stringify(config), {
+      contentType: 'application/json',
+      ifNoneMatch: '*'
+    });
+    console.log(`Created team config: ${config.team}`);
+    return etag;
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      throw new ConflictError(`A team named "${config.team}" (or a name differing only in case or punctuation) already exists`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace a team's config, only if it hasn't changed since it was read
+ * @param etag - ETag of the version the change is based on
+ * @returns The new object's ETag
+ * @throws ConflictError if the team changed (or was deleted) since that version
+ */
+export async function updateTeamConfig(config: TeamConfig, etag: string): Promise<string> {
+  try {
+    const newEtag = await getObjectStore().put(teamConfigKey(config.team), JSON.stringify(config), {
+      contentType: 'application/json',
+      ifMatch: etag
+    });
+    console.log(`Updated team config: ${config.team}`);
+    return newEtag;
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      throw new ConflictError(`Team "${config.team}" was changed by someone else, reload it and try again`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * @throws ConflictError if the team changed since the given version
+ */
+export async function deleteTeamConfig(team: string, etag: string): Promise<void> {
+  try {
+    await getObjectStore().delete(teamConfigKey(team), { ifMatch: etag });
+    console.log(`Deleted team config: ${team}`);
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      throw new ConflictError(`Team "${team}" was changed by someone else, reload it and try again`);
+    }
+    throw error;
+  }
+}
+
+async function getJsonList<T>(key: string): Promise<T[]> {
+  try {
+    const data = (await getObjectStore().get(key))?.body;
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    // Expected before the first save
+    return [];
+  }
+}
+
+async function saveJsonList<T>(key: string, items: T[]): Promise<void> {
+  await getObjectStore().put(key, JSON.stringify(items), { contentType: 'application/json' });
+}
+
+export async function getUserMemberships(): Promise<UserMembership[]> {
+  return await getJsonList<UserMembership>('auth/user-memberships.json');
+}
+
+export async function saveUserMemberships(memberships: UserMembership[]): Promise<void> {
+  await saveJsonList('auth/user-memberships.json', memberships);
+}
+
+export async function getApiKeys(): Promise<ApiKeyRecord[]> {
+  return await getJsonList<ApiKeyRecord>('auth/api-keys.json');
+}
+
+export async function saveApiKeys(apiKeys: ApiKeyRecord[]): Promise<void> {
+  await saveJsonList('auth/api-keys.json', apiKeys);
+}
+
+function teamAuditKey(team: string, kind: 'entries' | 'snapshots', version: number): string {
+  return `${TEAM_AUDIT_PREFIX}${getTeamSlug(team)}/${kind}/${String(version).padStart(6, '0')}.json`;
+}
+
+/**
+ * Write a new audit version: the config snapshot, then the entry. Both writes only succeed if the
+ * version doesn't exist yet, so history is never overwritten.
+ * @returns false if another change already took this version number
+ */
+export async function appendTeamAuditEntry(entry: TeamAuditEntry, snapshot: TeamConfig): Promise<boolean> {
+  try {
+    for (const [kind, body] of [['snapshots', snapshot], ['entries', entry]] as const) {
+      await getObjectStore().put(teamAuditKey(entry.team, kind, entry.version), JSON.stringify(body), {
+        contentType: 'application/json',
+        ifNoneMatch: '*'
+      });
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List a team's audit entries, oldest first
+ */
+export async function listTeamAuditEntries(team: string): Promise<TeamAuditEntry[]> {
+  const objects = await getObjectStore().list(`${TEAM_AUDIT_PREFIX}${getTeamSlug(team)}/entries/`);
+
+  const entries = await Promise.all(objects.map(async ({ key }) => {
+    const data = (await getObjectStore().get(key))?.body;
+    return data ? JSON.parse(data) as TeamAuditEntry : null;
+  }));
+
+  return entries.filter((entry): entry is TeamAuditEntry => entry !== null);
+}
+
+export async function getTeamSnapshot(team: string, version: number): Promise<TeamConfig | null> {
+  return await getTeamSnapshotByKey(teamAuditKey(team, 'snapshots', version));
+}
+
+/**
+ * Keys of every team's audit snapshots, including teams that have since been deleted
+ */
+export async function listTeamSnapshotKeys(): Promise<string[]> {
+  return (await getObjectStore().list(TEAM_AUDIT_PREFIX)).map(object => object.key).filter(key => key.includes('/snapshots/'));
+}
+
+export async function getTeamSnapshotByKey(key: string): Promise<TeamConfig | null> {
+  try {
+    const data = (await getObjectStore().get(key))?.body;
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    // Expected when the version doesn't exist
+    return null;
+  }
+}
+
+/**
+ * Overwrite a snapshot in place. Snapshots are otherwise immutable; this is only for re-encrypting
+ * their tokens when the encryption key is rotated.
+ */
+export async function replaceTeamSnapshot(key: string, snapshot: TeamConfig): Promise<void> {
+  await getObjectStore().put(key, JSON.stringify(snapshot), { contentType: 'application/json' });
+}
+
+/**
+ * Generate a stable job ID for a sprint fetch
+ * Mirrors the cache key so repeated requests for the same sprint share one job
+ */
+export function generateSprintJobId(teamConfig: TeamConfig, sprintIndex: number, isActive: boolean = false): string {
+  const suffix = isActive ? '_active' : '';
+  return `${getBoardKey(teamConfig)}_index-${sprintIndex}${suffix}`;
+}
+
+export async function getSprintJob(jobId: string): Promise<SprintJob | null> {
+  try {
+    const data = (await getObjectStore().get(`${SPRINT_JOBS_PREFIX}${jobId}.json`))?.body;
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    // Expected when job doesn't exist
+    return null;
+  }
+}
+
+export async function saveSprintJob(job: SprintJob): Promise<void> {
+  await getObjectStore().put(`${SPRINT_JOBS_PREFIX}${job.id}.json`, JSON.stringify(job), { contentType: 'application/json' });
+}
+
+/**
+ * A job with the ETag of its object, for claiming it
+ */
+export async function getStoredSprintJob(jobId: string): Promise<{ job: SprintJob; etag: string } | null> {
+  const object = await getObjectStore().get(`${SPRINT_JOBS_PREFIX}${jobId}.json`);
+  return object?.body ? { job: JSON.parse(object.body), etag: object.etag } : null;
+}
+
+/**
+ * Save a job only if it hasn't changed since it was read, so only one worker can claim a queued job
+ * @returns false if another writer changed (or deleted) it first
+ */
+export async function replaceSprintJob(job: SprintJob, etag: string): Promise<boolean> {
+  try {
+    await getObjectStore().put(`${SPRINT_JOBS_PREFIX}${job.id}.json`, JSON.stringify(job), {
+      contentType: 'application/json',
+      ifMatch: etag
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof PreconditionFailedError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a job to the work queue. The queue is a set of marker objects that workers list and claim.
+ */
+export async function enqueueSprintJob(jobId: string): Promise<void> {
+  await getObjectStore().put(`${SPRINT_JOB_QUEUE_PREFIX}${jobId}`, new Date().toISOString());
+}
+
+/**
+ * Queued job IDs by board, then by sprint index (the store lists keys lexicographically, `index-10` before `index-9`)
+ */
+export async function listQueuedSprintJobIds(): Promise<string[]> {
+  const parseJobId = (jobId: string) => {
+    const match = jobId.match(/^(.*)_index-(\d+)(?:_active)?$/);
+    return match ? { board: match[1], index: Number(match[2]) } : { board: jobId, index: 0 };
+  };
+  return (await getObjectStore().list(SPRINT_JOB_QUEUE_PREFIX))
+    .map(object => object.key.slice(SPRINT_JOB_QUEUE_PREFIX.length))
+    .filter(Boolean)
+    .sort((a, b) => {
+      const jobA = parseJobId(a);
+      const jobB = parseJobId(b);
+      return jobA.board.localeCompare(jobB.board) || jobA.index - jobB.index;
+    });
+}
+
+export async function dequeueSprintJob(jobId: string): Promise<void> {
+  await getObjectStore().delete(`${SPRINT_JOB_QUEUE_PREFIX}${jobId}`);
+}
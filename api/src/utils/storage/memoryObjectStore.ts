@@ -0,0 +1,46 @@
+import { ObjectStore, ObjectInfo, StoredObject, StoredBytes, WriteOptions, computeEtag } from './objectStore';
+import { PreconditionFailedError } from '../errors';
+
+/**
+ * Objects held in process memory, lost on restart. For tests and trying the API out;
+ * a separate worker process can't see them, so use SPRINT_JOB_RUNNER=inline.
+ */
+export class MemoryObjectStore implements ObjectStore {
+  private objects = new Map<string, StoredBytes & { lastModified: string }>();
+
+  async get(key: string): Promise<StoredObject | null> {
+    const object = this.objects.get(key);
+    return object ? { body: object.body.toString('utf8'), etag: object.etag } : null;
+  }
+
+  async getBytes(key: string): Promise<StoredBytes | null> {
+    const object = this.objects.get(key);
+    return object ? { body: object.body, etag: object.etag } : null;
+  }
+
+  async put(key: string, body: string | Buffer, options: WriteOptions = {}): Promise<string> {
+    this.checkPreconditions(key, options);
+    const etag = computeEtag(body);
+    this.objects.set(key, { body: Buffer.from(body), etag, lastModified: new Date().toISOString() });
+    return etag;
+  }
+
+  async delete(key: string, options: Pick<WriteOptions, 'ifMatch'> = {}): Promise<void> {
+    this.checkPreconditions(key, options);
+    this.objects.delete(key);
+  }
+
+  async list(prefix: string): Promise<ObjectInfo[]> {
+    return [...this.objects.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, object]) => ({ key, size: object.body.length, lastModified: object.lastModified }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private checkPreconditions(key: string, options: WriteOptions): void {
+    const current = this.objects.get(key);
+    if ((options.ifNoneMatch && current) || (options.ifMatch && current?.etag !== options.ifMatch)) {
+      throw new PreconditionFailedError(key);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import * as crypto from 'crypto';
+import { S3ObjectStore } from './s3ObjectStore';
+import { FileObjectStore } from './fileObjectStore';
+import { MemoryObjectStore } from './memoryObjectStore';
+
+export interface StoredObject {
+  body: string;
+  etag: string;
+}
+
+export interface StoredBytes {
+  body: Buffer;
+  etag: string;
+}
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+  lastModified: string;
+}
+
+export interface WriteOptions {
+  contentType?: string;
+  // e.g. `gzip` for a compressed body; only S3 keeps it, so readers shouldn't depend on it
+  contentEncoding?: string;
+  // Only write if the object's current ETag matches (fails if it doesn't exist)
+  ifMatch?: string;
+  // Only write if the object doesn't exist yet
+  ifNoneMatch?: '*';
+}
+
+/**
+ * Key/value object storage with S3 semantics: string keys with `/` as a separator,
+ * opaque ETags and conditional writes. Failed preconditions throw PreconditionFailedError.
+ */
+export interface ObjectStore {
+  /**
+   * @returns null if the object doesn't exist
+   */
+  get(key: string): Promise<StoredObject | null>;
+  /**
+   * The object's body as stored, for binary (e.g. compressed) objects
+   * @returns null if the object doesn't exist
+   */
+  getBytes(key: string): Promise<StoredBytes | null>;
+  /**
+   * @returns The new object's ETag
+   */
+  put(key: string, body: string | Buffer, options?: WriteOptions): Promise<string>;
+  /**
+   * Deleting a missing object is not an error unless `ifMatch` is given
+   */
+  delete(key: string, options?: Pick<WriteOptions, 'ifMatch'>): Promise<void>;
+  /**
+   * All objects whose keys start with the prefix, sorted by key
+   */
+  list(prefix: string): Promise<ObjectInfo[]>;
+}
+
+export type StorageBackend = 's3' | 'filesystem' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['s3', 'filesystem', 'memory'];
+
+let objectStore: ObjectStore | null = null;
+
+/**
+ * The configured store, created on first use so environment variables are loaded.
+ * STORAGE_BACKEND selects it: `s3` (default), `filesystem` (under STORAGE_DIR) or `memory`.
+ */
+export function getObjectStore(): ObjectStore {
+  if (!objectStore) {
+    const backend = (process.env.STORAGE_BACKEND || 's3') as StorageBackend;
+    if (!STORAGE_BACKENDS.includes(backend)) {
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}": use ${STORAGE_BACKENDS.join(', ')}`);
+    }
+
+    objectStore = backend === 'filesystem'
+      ? new FileObjectStore(process.env.STORAGE_DIR || '.storage')
+      : backend === 'memory'
+        ? new MemoryObjectStore()
+        : new S3ObjectStore(process.env.S3_BUCKET_NAME || 'sprint-insights-data');
+    console.log(`Using ${backend} storage`);
+  }
+  return objectStore;
+}
+
+/**
+ * ETag for backends that don't compute one, in S3's quoted MD5 form
+ */
+export function computeEtag(body: string | Buffer): string {
+  return `"${crypto.createHash('md5').update(body).digest('hex')}"`;
+}
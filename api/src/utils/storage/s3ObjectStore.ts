@@ -0,0 +1,106 @@
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { ObjectStore, ObjectInfo, StoredObject, StoredBytes, WriteOptions } from './objectStore';
+import { PreconditionFailedError } from '../errors';
+
+function isNotFound(error: any): boolean {
+  return error?.$metadata?.httpStatusCode === 404 || error?.name === 'NoSuchKey' || error?.name === 'NotFound';
+}
+
+function isPreconditionFailed(error: any): boolean {
+  return error?.$metadata?.httpStatusCode === 412 || error?.name === 'PreconditionFailed';
+}
+
+/**
+ * Objects in an S3 bucket (LocalStack when LOCALSTACK_ENDPOINT is set)
+ */
+export class S3ObjectStore implements ObjectStore {
+  private client: S3Client;
+
+  constructor(private bucket: string) {
+    this.client = new S3Client({
+      region: process.env.AWS_REGION || 'us-east-1',
+      ...(process.env.LOCALSTACK_ENDPOINT && {
+        endpoint: process.env.LOCALSTACK_ENDPOINT,
+        forcePathStyle: true,
+        credentials: {
+          accessKeyId: 'test',
+          secretAccessKey: 'test'
+        }
+      })
+    });
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const object = await this.getBytes(key);
+    return object ? { body: object.body.toString('utf8'), etag: object.etag } : null;
+  }
+
+  async getBytes(key: string): Promise<StoredBytes | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      const body = await response.Body?.transformToByteArray();
+      return body === undefined ? null : { body: Buffer.from(body), etag: response.ETag || '' };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async put(key: string, body: string | Buffer, options: WriteOptions = {}): Promise<string> {
+    try {
+      const response = await this.client.send(new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ContentEncoding: options.contentEncoding,
+        IfMatch: options.ifMatch,
+        IfNoneMatch: options.ifNoneMatch
+      }));
+      return response.ETag || '';
+    } catch (error) {
+      // A conditional update of a missing object is a 404 rather than a 412
+      if (isPreconditionFailed(error) || (options.ifMatch && isNotFound(error))) {
+        throw new PreconditionFailedError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string, options: Pick<WriteOptions, 'ifMatch'> = {}): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key, IfMatch: options.ifMatch }));
+    } catch (error) {
+      if (isPreconditionFailed(error) || (options.ifMatch && isNotFound(error))) {
+        throw new PreconditionFailedError(key);
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<ObjectInfo[]> {
+    const objects: ObjectInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size || 0,
+          lastModified: (object.LastModified || new Date(0)).toISOString()
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
@@ -0,0 +1,69 @@
+import { SprintColumn, WorkflowCategory } from '../types';
+
+export const WORKFLOW_CATEGORIES: WorkflowCategory[] = ['backlog', 'in_progress', 'review', 'blocked', 'done', 'cancelled'];
+
+// Heuristics used for columns and statuses the team's workflow profile doesn't list
+const DEFAULT_STATUS_CATEGORIES: Record<string, WorkflowCategory> = {
+  'to do': 'backlog',
+  'todo': 'backlog',
+  'backlog': 'backlog',
+  'done': 'done',
+  'fixed': 'done',
+  'finished': 'done',
+  'complete': 'done',
+  'closed': 'cancelled',
+  'resolved': 'cancelled',
+  'cancelled': 'cancelled'
+};
+
+/**
+ * Categorise a board column or status name.
+ * The team's workflow profile wins; otherwise blocked/review names, the first and last
+ * board columns and a few well-known status names are recognised, and anything else is in progress.
+ */
+export function getStatusCategory(
+  status: string,
+  columns: SprintColumn[],
+  profile?: Record<string, WorkflowCategory>
+): WorkflowCategory {
+  const name = (status || '').trim().toLowerCase();
+
+  if (profile) {
+    const match = Object.keys(profile).find(key => key.trim().toLowerCase() === name);
+    if (match) {
+      return profile[match];
+    }
+  }
+
+  if (/block/.test(name)) return 'blocked';
+  if (columns.length > 0 && columns[columns.length - 1].name.toLowerCase() === name) return 'done';
+  if (DEFAULT_STATUS_CATEGORIES[name]) return DEFAULT_STATUS_CATEGORIES[name];
+  if (columns.length > 0 && columns[0].name.toLowerCase() === name) return 'backlog';
+  if (/review|qa|test/.test(name)) return 'review';
+  return 'in_progress';
+}
+
+/**
+ * Check a workflow profile from a request body
+ * @returns The profile with blank names dropped, or null if a category is not recognised
+ */
+export function parseWorkflowProfile(value: unknown): Record<string, WorkflowCategory> | undefined | null {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const profile: Record<string, WorkflowCategory> = {};
+  for (const [status, category] of Object.entries(value)) {
+    if (!WORKFLOW_CATEGORIES.includes(category as WorkflowCategory)) {
+      return null;
+    }
+    if (status.trim()) {
+      profile[status.trim()] = category as WorkflowCategory;
+    }
+  }
+
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
@@ -0,0 +1,41 @@
+import dotenv from 'dotenv';
+import { SprintJobService } from './services/sprintJobService';
+import { getKeyring } from './utils/encryption';
+
+dotenv.config({ path: process.env.ENV_FILE || '.env' });
+
+// Team tokens can't be decrypted without the keyring, so fail at startup rather than on every job
+getKeyring();
+
+const POLL_INTERVAL_MS = parseInt(process.env.SPRINT_WORKER_POLL_MS || '', 10) || 5000;
+
+let stopping = false;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main(): Promise<void> {
+  const sprintJobService = new SprintJobService();
+  console.log(`Sprint worker started, polling every ${POLL_INTERVAL_MS}ms`);
+
+  while (!stopping) {
+    try {
+      const processed = await sprintJobService.processQueuedJobs();
+      if (processed > 0) {
+        console.log(`Processed ${processed} sprint job(s)`);
+      }
+    } catch (error) {
+      console.error('Error processing sprint jobs:', error);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  console.log('Sprint worker stopped');
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, finishing current job before exit...`);
+    stopping = true;
+  });
+}
+
+main();
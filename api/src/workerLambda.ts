@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+import { SprintJobService } from './services/sprintJobService';
+import { getKeyring } from './utils/encryption';
+
+dotenv.config({ path: process.env.ENV_FILE || '.env' });
+
+// Team tokens can't be decrypted without the keyring, so fail at cold start rather than on every job
+getKeyring();
+
+/**
+ * Lambda entry point for sprint jobs, invoked by S3 whenever a job's queue marker is written
+ * (see terraform/main.tf). Each invocation drains the whole queue; jobs are claimed before they run,
+ * so invocations that overlap never run the same job twice.
+ */
+export const handler = async (): Promise<{ processed: number }> => {
+  const processed = await new SprintJobService().processQueuedJobs();
+  console.log(`Processed ${processed} sprint job(s)`);
+  return { processed };
+};
@@ -1,10 +1,16 @@
 import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
-import { Box, AppBar, Toolbar, Typography, Button } from '@mui/material';
-import { Settings as SettingsIcon } from '@mui/icons-material';
+import { useCallback, useEffect, useState } from 'react';
+import { Box, AppBar, Toolbar, Typography, Button, CircularProgress } from '@mui/material';
+import { Settings as SettingsIcon, Logout as LogoutIcon } from '@mui/icons-material';
 import TeamsPage from './pages/TeamsPage';
 import SprintsPage from './pages/SprintsPage';
+import SignInPage from './pages/SignInPage';
+import AuthCallbackPage from './pages/AuthCallbackPage';
+import { authApi, setUnauthorizedHandler } from './services/api';
+import { logout, AUTH_CALLBACK_PATH } from './services/auth';
+import { AuthUser } from './types';
 
 const theme = createTheme({
   palette: {
@@ -22,6 +28,61 @@ function AppContent() {
   const navigate = useNavigate();
   const location = useLocation();
   const isTeamsPage = location.pathname === '/teams';
+  const isAuthCallback = location.pathname === AUTH_CALLBACK_PATH;
+  const [authState, setAuthState] = useState<'checking' | 'signed-in' | 'signed-out'>('checking');
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [signInMessage, setSignInMessage] = useState<string | null>(null);
+
+  const loadCurrentUser = useCallback(() => {
+    authApi.getCurrentUser()
+      .then(user => {
+        setCurrentUser(user);
+        setSignInMessage(null);
+        setAuthState('signed-in');
+      })
+      .catch(err => {
+        // 401s are handled by the unauthorized handler; anything else is left to the pages to report
+        if (err.response?.status !== 401) {
+          console.error('Error loading current user:', err);
+          setAuthState('signed-in');
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    setUnauthorizedHandler((tokenRejected) => {
+      setCurrentUser(null);
+      setSignInMessage(tokenRejected ? 'Your session has expired. Sign in again to continue.' : null);
+      setAuthState('signed-out');
+    });
+    if (!isAuthCallback) {
+      loadCurrentUser();
+    }
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  const renderContent = () => {
+    if (isAuthCallback) {
+      return <AuthCallbackPage onSignedIn={loadCurrentUser} />;
+    }
+    if (authState === 'checking') {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+    if (authState === 'signed-out') {
+      return <SignInPage message={signInMessage} />;
+    }
+    return (
+      <Routes>
+        <Route path="/" element={<Navigate to="/sprints" replace />} />
+        <Route path="/teams" element={<TeamsPage />} />
+        <Route path="/sprints" element={<SprintsPage />} />
+      </Routes>
+    );
+  };
 
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
@@ -30,7 +91,7 @@ function AppContent() {
           <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
             Sprint Insights
           </Typography>
-          {!isTeamsPage && (
+          {authState === 'signed-in' && !isTeamsPage && (
             <Button
               color="inherit"
               startIcon={<SettingsIcon />}
@@ -39,14 +100,20 @@ function AppContent() {
               Manage Teams
             </Button>
           )}
+          {currentUser?.authMethod === 'oidc' && (
+            <Button
+              color="inherit"
+              startIcon={<LogoutIcon />}
+              onClick={logout}
+              title={currentUser.email || currentUser.id}
+            >
+              Sign out {currentUser.name || currentUser.email}
+            </Button>
+          )}
         </Toolbar>
       </AppBar>
       <Box component="main" sx={{ flexGrow: 1, p: 3 }}>
-        <Routes>
-          <Route path="/" element={<Navigate to="/sprints" replace />} />
-          <Route path="/teams" element={<TeamsPage />} />
-          <Route path="/sprints" element={<SprintsPage />} />
-        </Routes>
+        {renderContent()}
       </Box>
     </Box>
   );
@@ -92,7 +92,9 @@ const LLMChat: React.FC<LLMChatProps> = ({ sprintData, historicalData, historica
         ? sprintData.builds.reduce((sum, b) => sum + b.duration, 0) / sprintData.builds.length / 60
         : 0,
       deploymentFrequency: doraMetrics.deploymentFrequency,
-      medianLeadTime: doraMetrics.avgLeadTime,
+      medianCycleTime: doraMetrics.avgLeadTime,
+      medianChangeLeadTime: doraMetrics.medianChangeLeadTime,
+      p85ChangeLeadTime: doraMetrics.p85ChangeLeadTime,
       changeFailureRate: doraMetrics.changeFailureRate,
       medianMTTR: doraMetrics.mttr,
       buildSummaryByPipeline,
@@ -105,10 +105,21 @@ const SprintAnalysis: React.FC<SprintAnalysisProps> = ({
           value: doraMetrics.deploymentFrequency.toFixed(2),
           tooltip: 'Successful releases per business day',
           chip: getDeploymentFrequencyLevel(doraMetrics.deploymentFrequency),
-          xs: 6
+          xs: 12
         },
         {
           label: 'Lead Time for Changes',
+          value: doraMetrics.medianChangeLeadTime > 0
+            ? `${formatDays(doraMetrics.medianChangeLeadTime)} / ${formatDays(doraMetrics.p85ChangeLeadTime)}`
+            : 'N/A',
+          tooltip: 'Median / 85th percentile time from commit to the production deployment that shipped it, '
+            + 'counting the commits each deployment shipped since the previous one of its pipeline. '
+            + 'Needs a GitHub or GitLab token for the pipeline\'s repository.',
+          chip: getLeadTimeLevel(doraMetrics.medianChangeLeadTime),
+          xs: 6
+        },
+        {
+          label: 'Lead Time (Cycle Time Proxy)',
           value: doraMetrics.avgLeadTime > 0 ? formatDays(doraMetrics.avgLeadTime) : 'N/A',
           tooltip: 'Median cycle time from work start to completion',
           chip: getLeadTimeLevel(doraMetrics.avgLeadTime),
@@ -12,7 +12,7 @@ import {
 } from '@mui/material';
 import { DataGrid, GridColDef } from '@mui/x-data-grid';
 import { Visibility as VisibilityIcon } from '@mui/icons-material';
-import { SprintData, Issue } from '../types';
+import { SprintData, Issue, Build, Deployment, IssueBuildRef } from '../types';
 import { formatDate, formatDateTime } from '../utils/dateFormat';
 import { formatDays } from '../utils/timeCalculation';
 import { calculateIssueTimeSpentOnColumns } from '../services/issue';
@@ -26,14 +26,27 @@ interface EnrichedIssue extends Issue {
   wipDuration: number;
   completion: string;
   notes: string;
+  linkedBuilds: Build[];
+  // Successful deployments of the linked in-sprint builds, earliest first
+  shippedIn: Array<{ build: Build; deployment: Deployment }>;
+  // Whether a linked pipeline deployed in the sprint without its commits being read, so it may have shipped the issue
+  shipmentUnknown: boolean;
 }
 
+const pipelineKey = (ref: IssueBuildRef) => `${ref.provider || 'buildkite'}:${ref.pipelineName}`;
+const buildRefKey = (ref: IssueBuildRef) => `${pipelineKey(ref)}#${ref.buildNumber}`;
+
 const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) => {
-  const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  const [selectedIssue, setSelectedIssue] = useState<EnrichedIssue | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
 
   // Enrich issues with calculated time spent and computed fields
   const enrichedIssues: EnrichedIssue[] = useMemo(() => {
+    const buildsByRef = new Map(sprintData.builds.map(build => [buildRefKey(build), build]));
+    const pipelinesWithUnknownCommits = new Set(sprintData.builds
+      .filter(build => build.inSprint && build.deployments.some(deployment => deployment.status === 'success' && !deployment.commits))
+      .map(pipelineKey));
+
     return sprintData.issues.map(issue => {
       const timeSpent = calculateIssueTimeSpentOnColumns(issue, sprintData);
       
@@ -57,12 +70,27 @@ const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) =>
       if (issue.flags?.isSpillover) notes.push('Spillover');
       if (issue.flags?.isBackAndForth) notes.push('Back-and-forth');
       
+      // Builds whose branch or commits mention the issue, and the releases among them
+      const linkedBuilds = (issue.builds || [])
+        .map(ref => buildsByRef.get(buildRefKey(ref)))
+        .filter((build): build is Build => !!build);
+      const shippedIn = linkedBuilds
+        .filter(build => build.inSprint)
+        .flatMap(build => build.deployments
+          .filter(deployment => deployment.status === 'success')
+          .map(deployment => ({ build, deployment })))
+        .sort((a, b) => new Date(a.deployment.deployedAt).getTime() - new Date(b.deployment.deployedAt).getTime());
+      const shipmentUnknown = linkedBuilds.some(build => pipelinesWithUnknownCommits.has(pipelineKey(build)));
+      
       return {
         ...issue,
         timeSpent,
         wipDuration,
         completion,
-        notes: notes.join(', ') || '-'
+        notes: notes.join(', ') || '-',
+        linkedBuilds,
+        shippedIn,
+        shipmentUnknown
       };
     });
   }, [sprintData]);
@@ -96,6 +124,16 @@ const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) =>
           </Typography>
         ),
       },
+      {
+        field: 'assignee',
+        headerName: 'Assignee',
+        width: 150,
+        renderCell: (params) => (
+          <Typography variant="body2" noWrap>
+            {params.value || '-'}
+          </Typography>
+        ),
+      },
       {
         field: 'storyPoints',
         headerName: 'Points',
@@ -183,6 +221,43 @@ const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) =>
       },
     };
 
+    // Add Shipped in column: the first release of the issue's changes, or whether a done issue is still undeployed
+    // (unknown when a linked pipeline's deployments are missing their commits)
+    const shippedInColumn: GridColDef = {
+      field: 'shippedIn',
+      headerName: 'Shipped in',
+      width: 180,
+      valueGetter: (params) => {
+        const issue = params.row as EnrichedIssue;
+        return issue.shippedIn[0]?.deployment.deployedAt || '';
+      },
+      renderCell: (params) => {
+        const issue = params.row as EnrichedIssue;
+        const [firstRelease] = issue.shippedIn;
+        if (firstRelease) {
+          const moreReleases = issue.shippedIn.length - 1;
+          return (
+            <Chip
+              label={`${firstRelease.build.pipelineName} #${firstRelease.build.buildNumber}${moreReleases > 0 ? ` +${moreReleases}` : ''}`}
+              size="small"
+              color="success"
+              variant="outlined"
+            />
+          );
+        }
+        if (issue.flags?.isCompleted && issue.linkedBuilds.length > 0) {
+          return issue.shipmentUnknown
+            ? <Chip label="Unknown" size="small" variant="outlined" />
+            : <Chip label="Not deployed" size="small" color="warning" variant="outlined" />;
+        }
+        return (
+          <Typography variant="body2" color="text.secondary">
+            -
+          </Typography>
+        );
+      },
+    };
+
     // Add Notes column
     const notesColumn: GridColDef = {
       field: 'notes',
@@ -214,7 +289,7 @@ const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) =>
       ),
     };
 
-    return [...baseColumns, ...boardColumns, completionColumn, notesColumn, actionsColumn];
+    return [...baseColumns, ...boardColumns, completionColumn, shippedInColumn, notesColumn, actionsColumn];
   }, [middleColumns]);
 
   const handleCloseDialog = () => {
@@ -266,6 +341,60 @@ const SprintIssuesTable: React.FC<SprintIssuesTableProps> = ({ sprintData }) =>
               <Typography variant="body2" color="text.secondary" gutterBottom>
                 Category: {selectedIssue.subCategory || 'N/A'}
               </Typography>
+              {selectedIssue.epic && (
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Epic: {selectedIssue.epic}
+                </Typography>
+              )}
+              {selectedIssue.assignee && (
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Assignee: {selectedIssue.assignee}
+                </Typography>
+              )}
+              {selectedIssue.team && (
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  Team: {selectedIssue.team}
+                </Typography>
+              )}
+              
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  Builds & Deployments
+                </Typography>
+                {selectedIssue.linkedBuilds.length === 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    No builds mention {selectedIssue.key} in their branch or commit messages
+                  </Typography>
+                )}
+                {selectedIssue.linkedBuilds.map(build => (
+                  <Box key={buildRefKey(build)} sx={{ mb: 1, p: 1, bgcolor: 'grey.50', borderRadius: 1 }}>
+                    <Typography variant="body2">
+                      <strong>{build.pipelineName} #{build.buildNumber}</strong> · {build.status} · {build.branch}
+                      {!build.inSprint && ' (before this sprint)'}
+                    </Typography>
+                    {build.message && (
+                      <Typography variant="body2" color="text.secondary" noWrap>
+                        {build.message}
+                      </Typography>
+                    )}
+                    {build.startedAt && (
+                      <Typography variant="caption" color="text.secondary" component="div">
+                        Started {formatDateTime(build.startedAt)}
+                      </Typography>
+                    )}
+                    {build.deployments.map((deployment, index) => (
+                      <Chip
+                        key={index}
+                        label={`${deployment.name}: ${deployment.status} · ${formatDateTime(deployment.deployedAt)}`}
+                        size="small"
+                        color={deployment.status === 'success' ? 'success' : 'error'}
+                        variant="outlined"
+                        sx={{ mt: 0.5, mr: 0.5 }}
+                      />
+                    ))}
+                  </Box>
+                ))}
+              </Box>
               
               {selectedIssue.history && selectedIssue.history.length > 0 && (
                 <Box sx={{ mt: 2 }}>
@@ -0,0 +1,95 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Autocomplete,
+  Chip,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material';
+import { CloudDone as CloudDoneIcon } from '@mui/icons-material';
+import { SprintSummary } from '../types';
+import { formatDate } from '../utils/dateFormat';
+
+interface SprintPickerProps {
+  sprints: SprintSummary[];
+  value: string;
+  onChange: (sprintIdentifier: string) => void;
+  loading?: boolean;
+  disabled?: boolean;
+}
+
+const STATE_COLORS: Record<SprintSummary['state'], 'success' | 'default' | 'info'> = {
+  active: 'success',
+  closed: 'default',
+  future: 'info',
+};
+
+/**
+ * Sprint autocomplete backed by the board's sprint catalogue.
+ * Free text is still accepted and resolved by the API's fuzzy matcher.
+ */
+const SprintPicker: React.FC<SprintPickerProps> = ({ sprints, value, onChange, loading = false, disabled = false }) => {
+  return (
+    <Autocomplete
+      freeSolo
+      fullWidth
+      disabled={disabled}
+      loading={loading}
+      options={sprints}
+      inputValue={value}
+      onInputChange={(_e, newValue) => onChange(newValue)}
+      onChange={(_e, newValue) => {
+        if (newValue && typeof newValue !== 'string') {
+          onChange(newValue.name);
+        }
+      }}
+      getOptionLabel={(option) => typeof option === 'string' ? option : option.name}
+      getOptionDisabled={(option) => option.state === 'future'}
+      filterOptions={(options, { inputValue }) => {
+        const query = inputValue.trim().toLowerCase();
+        return query ? options.filter(o => o.name.toLowerCase().includes(query)) : options;
+      }}
+      renderOption={(props, option) => (
+        <Box component="li" {...props} key={option.id}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" noWrap>{option.name}</Typography>
+              <Typography variant="caption" color="text.secondary" noWrap>
+                {option.start && option.end
+                  ? `${formatDate(option.start)} - ${formatDate(option.end)}`
+                  : 'Not scheduled'}
+                {option.goal && ` · ${option.goal}`}
+              </Typography>
+            </Box>
+            {option.cached && (
+              <Tooltip title="Cached - loads instantly">
+                <CloudDoneIcon fontSize="small" color="primary" />
+              </Tooltip>
+            )}
+            <Chip label={option.state} size="small" color={STATE_COLORS[option.state]} variant="outlined" />
+          </Box>
+        </Box>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label="Sprint"
+          placeholder="Sprint name/number (default: latest closed)"
+          InputProps={{
+            ...params.InputProps,
+            endAdornment: (
+              <>
+                {loading && <CircularProgress color="inherit" size={18} />}
+                {params.InputProps.endAdornment}
+              </>
+            ),
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default SprintPicker;
@@ -12,7 +12,7 @@ import {
 } from '@mui/material';
 import { DataGrid, GridColDef } from '@mui/x-data-grid';
 import { Visibility as VisibilityIcon } from '@mui/icons-material';
-import { SprintData, Build } from '../types';
+import { SprintData, Build, CiProviderName } from '../types';
 import { formatDateTime } from '../utils/dateFormat';
 
 interface SprintReleasesProps {
@@ -22,6 +22,7 @@ interface SprintReleasesProps {
 interface PipelineStats {
   id: string;
   pipelineName: string;
+  provider: CiProviderName;
   repository: string;
   totalBuilds: number;
   successBuilds: number;
@@ -32,6 +33,12 @@ interface PipelineStats {
   builds: Build[];
 }
 
+const PROVIDER_LABELS: Record<CiProviderName, string> = {
+  buildkite: 'Buildkite',
+  github: 'GitHub Actions',
+  gitlab: 'GitLab CI',
+};
+
 // Helper function to format duration
 const formatDuration = (seconds: number): string => {
   if (seconds < 60) {
@@ -54,12 +61,14 @@ const SprintReleases: React.FC<SprintReleasesProps> = ({ sprintData }) => {
     const statsMap = new Map<string, PipelineStats>();
 
     sprintData.builds.forEach(build => {
-      const key = `${build.pipelineName}_${build.repository}`;
+      const provider = build.provider || 'buildkite';
+      const key = `${provider}_${build.pipelineName}_${build.repository}`;
       
       if (!statsMap.has(key)) {
         statsMap.set(key, {
           id: key,
           pipelineName: build.pipelineName,
+          provider,
           repository: build.repository,
           totalBuilds: 0,
           successBuilds: 0,
@@ -133,6 +142,12 @@ const SprintReleases: React.FC<SprintReleasesProps> = ({ sprintData }) => {
         </Typography>
       ),
     },
+    {
+      field: 'provider',
+      headerName: 'Source',
+      width: 140,
+      valueFormatter: (params) => PROVIDER_LABELS[params.value as CiProviderName],
+    },
     {
       field: 'repository',
       headerName: 'Repository',
@@ -272,7 +287,8 @@ const SprintReleases: React.FC<SprintReleasesProps> = ({ sprintData }) => {
     {
       field: 'buildNumber',
       headerName: 'Build #',
-      width: 100,
+      // GitHub Actions runs are numbered by their ID
+      width: 130,
       align: 'center',
       headerAlign: 'center',
     },
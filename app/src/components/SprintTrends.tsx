@@ -73,6 +73,8 @@ const SprintTrends: React.FC<SprintTrendsProps> = ({
         
         // DORA metrics
         deploymentFrequency: doraMetrics.deploymentFrequency,
+        changeLeadTime: doraMetrics.medianChangeLeadTime,
+        p85ChangeLeadTime: doraMetrics.p85ChangeLeadTime,
         leadTime: doraMetrics.avgLeadTime,
         changeFailureRate: doraMetrics.changeFailureRate,
         mttr: doraMetrics.mttr / 3600, // Convert to hours
@@ -110,12 +112,24 @@ const SprintTrends: React.FC<SprintTrendsProps> = ({
   const chartCards = [
     {
       title: 'DORA: Lead Time for Changes',
-      yAxisLabel: 'Days',
+      yAxisLabel: 'Business Days',
       lines: [
         {
-          dataKey: 'leadTime',
+          dataKey: 'changeLeadTime',
           stroke: '#8884d8',
-          name: 'Lead Time (days)',
+          name: 'Commit to Deploy, Median (days)',
+          formatter: (value: number) => `${value.toFixed(1)} days`
+        },
+        {
+          dataKey: 'p85ChangeLeadTime',
+          stroke: '#82ca9d',
+          name: 'Commit to Deploy, 85th Percentile (days)',
+          formatter: (value: number) => `${value.toFixed(1)} days`
+        },
+        {
+          dataKey: 'leadTime',
+          stroke: '#ff9800',
+          name: 'Cycle Time Proxy (days)',
           formatter: (value: number) => `${value.toFixed(1)} days`
         }
       ]
@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  Chip,
+  Divider,
+} from '@mui/material';
+import { TeamAuditEntry, TeamAuditAction } from '../types';
+import { teamApi } from '../services/api';
+import { formatDateTime } from '../utils/dateFormat';
+
+interface TeamAuditDialogProps {
+  team: string | null;
+  canRestore: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const ACTION_COLORS: Record<TeamAuditAction, 'success' | 'info' | 'error' | 'warning'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+  restore: 'warning',
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '(unset)' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Configuration history of a team, with restore of any earlier version for admins
+ */
+const TeamAuditDialog: React.FC<TeamAuditDialogProps> = ({ team, canRestore, onClose, onRestored }) => {
+  const [entries, setEntries] = useState<TeamAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!team) return;
+
+    setLoading(true);
+    setError(null);
+    teamApi.getTeamAudit(team)
+      .then(setEntries)
+      .catch((err: any) => {
+        setEntries([]);
+        setError(err.response?.status === 404 ? 'No history recorded for this team yet' : 'Failed to load team history');
+        console.error('Error loading team history:', err);
+      })
+      .finally(() => setLoading(false));
+  }, [team]);
+
+  const handleRestore = async (version: number) => {
+    if (!team || !window.confirm(`Restore ${team} to version ${version}?`)) return;
+
+    try {
+      setRestoringVersion(version);
+      await teamApi.restoreTeam(team, version);
+      onRestored();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to restore team');
+      console.error('Error restoring team:', err);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  return (
+    <Dialog open={!!team} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>History: {team}</DialogTitle>
+      <DialogContent>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && <Alert severity="info" sx={{ mb: 2 }}>{error}</Alert>}
+        {!loading && entries.map((entry, index) => (
+          <Box key={entry.version} sx={{ py: 1.5 }}>
+            {index > 0 && <Divider sx={{ mb: 1.5 }} />}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <Typography variant="subtitle2">v{entry.version}</Typography>
+              <Chip label={entry.action} size="small" color={ACTION_COLORS[entry.action]} variant="outlined" />
+              <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+                {formatDateTime(entry.timestamp)} by {entry.actor.name || entry.actor.id}
+                {entry.restoredFromVersion !== undefined && ` (restored v${entry.restoredFromVersion})`}
+              </Typography>
+              {canRestore && index > 0 && (
+                <Button
+                  size="small"
+                  onClick={() => handleRestore(entry.version)}
+                  disabled={restoringVersion !== null}
+                  startIcon={restoringVersion === entry.version ? <CircularProgress size={16} /> : undefined}
+                >
+                  Restore
+                </Button>
+              )}
+            </Box>
+            {entry.action === 'update' || entry.action === 'restore' ? (
+              entry.changes.map(change => (
+                <Typography key={change.field} variant="body2" sx={{ pl: 2, fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                </Typography>
+              ))
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ pl: 2 }}>
+                {entry.changes.length} field{entry.changes.length === 1 ? '' : 's'}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TeamAuditDialog;
@@ -9,9 +9,27 @@ import {
   AccordionDetails,
   Typography,
   MenuItem,
+  Autocomplete,
+  Alert,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import { TeamConfig } from '../types';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  CheckCircle as CheckCircleIcon,
+  Error as ErrorIcon,
+  Warning as WarningIcon,
+  RemoveCircleOutline as SkippedIcon,
+} from '@mui/icons-material';
+import { TeamConfig, JiraField, WorkflowCategory, TeamValidationResult, TeamValidationStatus, ReleaseDetectionRules } from '../types';
+import { teamApi } from '../services/api';
+import { WORKFLOW_CATEGORY_LABELS } from '../utils/workflow';
 
 interface TeamFormProps {
   team?: TeamConfig | null;
@@ -22,18 +40,86 @@ interface TeamFormProps {
   onCancel: () => void;
 }
 
+const FIELD_MAPPINGS = [
+  { key: 'JIRA_STORY_POINTS_FIELD', label: 'Story points field', placeholder: 'customfield_10004' },
+  { key: 'JIRA_EPIC_FIELD', label: 'Epic field', placeholder: 'parent' },
+  { key: 'JIRA_ASSIGNEE_FIELD', label: 'Assignee field', placeholder: 'assignee' },
+  { key: 'JIRA_TEAM_FIELD', label: 'Team field', placeholder: '(none)' },
+] as const;
+
+// Mirrors the API's validation: https, or http for localhost
+const isValidJiraBaseUrl = (value: string) => {
+  if (!value.trim()) return true;
+  try {
+    const url = new URL(value.trim());
+    const isLocalhost = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+    return url.protocol === 'https:' || (url.protocol === 'http:' && isLocalhost);
+  } catch {
+    return false;
+  }
+};
+
+// Blank means no rules; null means the text isn't a JSON object (the API checks the rules themselves)
+const parseReleaseRulesJson = (value: string): Record<string, ReleaseDetectionRules> | undefined | null => {
+  if (!value.trim()) return undefined;
+  try {
+    const rules = JSON.parse(value);
+    return typeof rules === 'object' && rules !== null && !Array.isArray(rules) ? rules : null;
+  } catch {
+    return null;
+  }
+};
+
+const RELEASE_RULES_PLACEHOLDER = '{ "my-pipeline": { "blockStepPattern": "/deploy to prod/i", "followTriggers": true } }';
+
+// Settings that affect the connection checks; changing any of them requires re-validating
+const CONNECTION_FIELDS = [
+  'JIRA_EMAIL', 'JIRA_TOKEN', 'JIRA_BASE_URL', 'JIRA_PROJECT', 'JIRA_BOARD_ID', 'BUILDKITE_TOKEN', 'BUILDKITE_PIPELINES',
+  'GITHUB_TOKEN', 'GITLAB_BASE_URL', 'GITLAB_TOKEN',
+] as const;
+
+const VALIDATION_ICONS: Record<TeamValidationStatus, React.ReactNode> = {
+  ok: <CheckCircleIcon color="success" fontSize="small" />,
+  warning: <WarningIcon color="warning" fontSize="small" />,
+  error: <ErrorIcon color="error" fontSize="small" />,
+  skipped: <SkippedIcon color="disabled" fontSize="small" />,
+};
+
+const formatFieldOption = (fieldId: string, fields: JiraField[]) => {
+  const field = fields.find(f => f.id === fieldId);
+  return field ? `${field.name} (${field.id})` : fieldId;
+};
+
 const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
   const [formData, setFormData] = useState({
     team: '',
     JIRA_EMAIL: '',
     JIRA_TOKEN: '',
+    JIRA_BASE_URL: '',
     JIRA_PROJECT: '',
     JIRA_BOARD_ID: '',
     BUILDKITE_TOKEN: '',
     BUILDKITE_PIPELINES: '',
+    GITHUB_TOKEN: '',
+    GITLAB_BASE_URL: '',
+    GITLAB_TOKEN: '',
     INCIDENT_FIELD: '' as '' | 'summary' | 'subCategory',
     INCIDENT_REGEX: '',
+    JIRA_STORY_POINTS_FIELD: '',
+    JIRA_CATEGORY_FIELDS: '',
+    JIRA_EPIC_FIELD: '',
+    JIRA_ASSIGNEE_FIELD: '',
+    JIRA_TEAM_FIELD: '',
   });
+  const [jiraFields, setJiraFields] = useState<JiraField[]>([]);
+  const [discoveringFields, setDiscoveringFields] = useState(false);
+  const [fieldsError, setFieldsError] = useState<string | null>(null);
+  const [validation, setValidation] = useState<TeamValidationResult | null>(null);
+  const [validatedKey, setValidatedKey] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [workflowRows, setWorkflowRows] = useState<Array<{ status: string; category: WorkflowCategory }>>([]);
+  const [releaseRulesJson, setReleaseRulesJson] = useState('');
 
   useEffect(() => {
     if (team) {
@@ -41,13 +127,24 @@ const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
         team: team.team,
         JIRA_EMAIL: team.JIRA_EMAIL,
         JIRA_TOKEN: team.JIRA_TOKEN, // Keep the encrypted placeholder
+        JIRA_BASE_URL: team.JIRA_BASE_URL || '',
         JIRA_PROJECT: team.JIRA_PROJECT,
         JIRA_BOARD_ID: team.JIRA_BOARD_ID,
         BUILDKITE_TOKEN: team.BUILDKITE_TOKEN, // Keep the encrypted placeholder
         BUILDKITE_PIPELINES: team.BUILDKITE_PIPELINES,
+        GITHUB_TOKEN: team.GITHUB_TOKEN || '', // Keep the encrypted placeholder
+        GITLAB_BASE_URL: team.GITLAB_BASE_URL || '',
+        GITLAB_TOKEN: team.GITLAB_TOKEN || '', // Keep the encrypted placeholder
         INCIDENT_FIELD: (team.INCIDENT_FIELD as any) || '',
         INCIDENT_REGEX: team.INCIDENT_REGEX || '',
+        JIRA_STORY_POINTS_FIELD: team.JIRA_STORY_POINTS_FIELD || '',
+        JIRA_CATEGORY_FIELDS: team.JIRA_CATEGORY_FIELDS || '',
+        JIRA_EPIC_FIELD: team.JIRA_EPIC_FIELD || '',
+        JIRA_ASSIGNEE_FIELD: team.JIRA_ASSIGNEE_FIELD || '',
+        JIRA_TEAM_FIELD: team.JIRA_TEAM_FIELD || '',
       });
+      setWorkflowRows(Object.entries(team.WORKFLOW_PROFILE || {}).map(([status, category]) => ({ status, category })));
+      setReleaseRulesJson(team.BUILDKITE_RELEASE_RULES ? JSON.stringify(team.BUILDKITE_RELEASE_RULES, null, 2) : '');
     }
   }, [team]);
 
@@ -58,21 +155,95 @@ const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
     }));
   };
 
-  const handleSubmit = (event: React.FormEvent) => {
-    event.preventDefault();
+  const handleFieldMappingChange = (field: string, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const connectionKey = JSON.stringify(CONNECTION_FIELDS.map(field => formData[field].trim()));
+  const isValidated = !!validation?.valid && validatedKey === connectionKey;
+  const releaseRules = parseReleaseRulesJson(releaseRulesJson);
+
+  const handleWorkflowRowChange = (index: number, row: { status: string; category: WorkflowCategory }) => {
+    setWorkflowRows(prev => prev.map((r, i) => i === index ? row : r));
+  };
+
+  const handleDiscoverFields = async () => {
+    try {
+      setDiscoveringFields(true);
+      setFieldsError(null);
+      const fields = await teamApi.discoverJiraFields({
+        team: formData.team,
+        JIRA_BASE_URL: formData.JIRA_BASE_URL.trim() || undefined,
+        JIRA_EMAIL: formData.JIRA_EMAIL,
+        JIRA_TOKEN: formData.JIRA_TOKEN,
+      });
+      setJiraFields(fields);
+    } catch (err: any) {
+      setFieldsError(err.response?.data?.error || 'Failed to discover Jira fields');
+      console.error('Error discovering Jira fields:', err);
+    } finally {
+      setDiscoveringFields(false);
+    }
+  };
+
+  const buildSubmitData = () => {
+    // Rows without a name are ignored; later rows win for duplicate names
+    const workflowProfile: Record<string, WorkflowCategory> = {};
+    for (const row of workflowRows) {
+      if (row.status.trim()) workflowProfile[row.status.trim()] = row.category;
+    }
     
     // Prepare data for submission
-    const submitData = {
+    return {
       ...formData,
+      JIRA_BASE_URL: formData.JIRA_BASE_URL.trim() || undefined,
       INCIDENT_FIELD: formData.INCIDENT_FIELD || undefined,
       INCIDENT_REGEX: formData.INCIDENT_FIELD ? formData.INCIDENT_REGEX : '',
+      JIRA_STORY_POINTS_FIELD: formData.JIRA_STORY_POINTS_FIELD || undefined,
+      JIRA_CATEGORY_FIELDS: formData.JIRA_CATEGORY_FIELDS || undefined,
+      JIRA_EPIC_FIELD: formData.JIRA_EPIC_FIELD || undefined,
+      JIRA_ASSIGNEE_FIELD: formData.JIRA_ASSIGNEE_FIELD || undefined,
+      JIRA_TEAM_FIELD: formData.JIRA_TEAM_FIELD || undefined,
+      WORKFLOW_PROFILE: Object.keys(workflowProfile).length > 0 ? workflowProfile : undefined,
+      BUILDKITE_RELEASE_RULES: releaseRules || undefined,
       // If token fields are empty (user cleared them), send empty string
       // If they contain '***encrypted***', keep that value for backend to handle
       JIRA_TOKEN: formData.JIRA_TOKEN === '' ? '' : formData.JIRA_TOKEN,
       BUILDKITE_TOKEN: formData.BUILDKITE_TOKEN === '' ? '' : formData.BUILDKITE_TOKEN,
+      GITHUB_TOKEN: formData.GITHUB_TOKEN || undefined,
+      GITLAB_BASE_URL: formData.GITLAB_BASE_URL.trim() || undefined,
+      GITLAB_TOKEN: formData.GITLAB_TOKEN || undefined,
     };
+  };
+
+  const handleValidate = async () => {
+    try {
+      setValidating(true);
+      setValidationError(null);
+      const key = connectionKey;
+      const result = await teamApi.validateTeam(buildSubmitData());
+      setValidation(result);
+      setValidatedKey(key);
+    } catch (err: any) {
+      setValidation(null);
+      setValidationError(err.response?.data?.error || 'Failed to test the connection');
+      console.error('Error validating team:', err);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    
+    if (!isValidJiraBaseUrl(formData.JIRA_BASE_URL) || !isValidJiraBaseUrl(formData.GITLAB_BASE_URL) || releaseRules === null || !isValidated) {
+      return;
+    }
     
-    onSave(submitData);
+    onSave(buildSubmitData());
   };
 
   return (
@@ -109,6 +280,19 @@ const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
             placeholder={team ? '***encrypted***' : 'Enter JIRA API token'}
           />
         </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="JIRA Site URL"
+            value={formData.JIRA_BASE_URL}
+            onChange={handleChange('JIRA_BASE_URL')}
+            placeholder="https://your-domain.atlassian.net"
+            error={!isValidJiraBaseUrl(formData.JIRA_BASE_URL)}
+            helperText={isValidJiraBaseUrl(formData.JIRA_BASE_URL)
+              ? 'Leave empty to use the default Jira site'
+              : 'Must be an https URL'}
+          />
+        </Grid>
         <Grid item xs={12} sm={6}>
           <TextField
             fullWidth
@@ -140,13 +324,49 @@ const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
             placeholder={team ? '***encrypted***' : 'Enter Buildkite API token'}
           />
         </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="GitHub Token"
+            type="password"
+            value={formData.GITHUB_TOKEN}
+            onChange={handleChange('GITHUB_TOKEN')}
+            placeholder={team?.GITHUB_TOKEN ? '***encrypted***' : 'Only needed for GitHub Actions pipelines'}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="GitLab URL"
+            value={formData.GITLAB_BASE_URL}
+            onChange={handleChange('GITLAB_BASE_URL')}
+            placeholder="https://gitlab.com"
+            error={!isValidJiraBaseUrl(formData.GITLAB_BASE_URL)}
+            helperText={isValidJiraBaseUrl(formData.GITLAB_BASE_URL)
+              ? 'Your self-hosted GitLab site, if you use GitLab CI pipelines'
+              : 'Must be an https URL, e.g. https://gitlab.example.com'}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="GitLab Token"
+            type="password"
+            value={formData.GITLAB_TOKEN}
+            onChange={handleChange('GITLAB_TOKEN')}
+            placeholder={team?.GITLAB_TOKEN ? '***encrypted***' : 'Only needed for GitLab CI pipelines (read_api scope)'}
+          />
+        </Grid>
         <Grid item xs={12}>
           <TextField
             fullWidth
-            label="Buildkite Pipeline Names (with optional Release Regex)"
+            label="CI Pipelines (with optional Branches and Release Regex)"
             value={formData.BUILDKITE_PIPELINES}
             onChange={handleChange('BUILDKITE_PIPELINES')}
-            placeholder="pipeline1,pipeline2:/prod release/,pipeline3"
+            placeholder="pipeline1,pipeline2@main:/prod release/,github:owner/repo/deploy.yml@main,gitlab:group/project"
+            helperText={'Buildkite slugs, github:owner/repo[/workflow file] for GitHub Actions or gitlab:group/project for GitLab CI. '
+              + 'Add @branch (several separated by |) to count only those branches\' builds, and :regex to match release jobs '
+              + '(GitHub and GitLab: deployment environments)'}
           />
         </Grid>
 
@@ -180,17 +400,175 @@ const TeamForm: React.FC<TeamFormProps> = ({ team, onSave, onCancel }) => {
                     disabled={!formData.INCIDENT_FIELD}
                   />
                 </Grid>
+
+                <Grid item xs={12}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+                    <Typography variant="subtitle2">
+                      Jira field mapping
+                      {jiraFields.length > 0 && ` (${jiraFields.length} fields discovered)`}
+                    </Typography>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={handleDiscoverFields}
+                      disabled={discoveringFields || !formData.JIRA_EMAIL || !formData.JIRA_TOKEN}
+                      startIcon={discoveringFields ? <CircularProgress size={16} /> : undefined}
+                    >
+                      Discover fields
+                    </Button>
+                  </Box>
+                  {fieldsError && (
+                    <Alert severity="error" sx={{ mt: 1 }} onClose={() => setFieldsError(null)}>
+                      {fieldsError}
+                    </Alert>
+                  )}
+                </Grid>
+                {FIELD_MAPPINGS.map(mapping => (
+                  <Grid item xs={12} sm={6} key={mapping.key}>
+                    <Autocomplete
+                      freeSolo
+                      options={jiraFields.map(f => f.id)}
+                      getOptionLabel={(option) => formatFieldOption(option, jiraFields)}
+                      value={formData[mapping.key] || null}
+                      onChange={(_e, value) => handleFieldMappingChange(mapping.key, value || '')}
+                      onInputChange={(_e, value, reason) => {
+                        // Typed values are field IDs; selected options are handled by onChange
+                        if (reason === 'input') handleFieldMappingChange(mapping.key, value);
+                      }}
+                      renderInput={(params) => (
+                        <TextField {...params} label={mapping.label} placeholder={mapping.placeholder} />
+                      )}
+                    />
+                  </Grid>
+                ))}
+                <Grid item xs={12}>
+                  <Autocomplete
+                    multiple
+                    freeSolo
+                    options={jiraFields.map(f => f.id)}
+                    getOptionLabel={(option) => formatFieldOption(option, jiraFields)}
+                    value={formData.JIRA_CATEGORY_FIELDS.split(',').map(f => f.trim()).filter(Boolean)}
+                    onChange={(_e, value) => handleFieldMappingChange('JIRA_CATEGORY_FIELDS', value.join(','))}
+                    renderInput={(params) => (
+                      <TextField
+                        {...params}
+                        label="Category fields (first non-empty value wins)"
+                        placeholder="customfield_25138"
+                      />
+                    )}
+                  />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle2">Workflow statuses</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Map board columns or Jira statuses to what they mean for your team. Unlisted names use the
+                    defaults: first column is backlog, last column is done, names containing "block" are blocked.
+                  </Typography>
+                </Grid>
+                {workflowRows.map((row, index) => (
+                  <React.Fragment key={index}>
+                    <Grid item xs={7} sm={6}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        label="Column or status"
+                        value={row.status}
+                        onChange={(e) => handleWorkflowRowChange(index, { ...row, status: e.target.value })}
+                        placeholder="e.g., In Review"
+                      />
+                    </Grid>
+                    <Grid item xs={4} sm={5}>
+                      <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        label="Category"
+                        value={row.category}
+                        onChange={(e) => handleWorkflowRowChange(index, { ...row, category: e.target.value as WorkflowCategory })}
+                      >
+                        {Object.entries(WORKFLOW_CATEGORY_LABELS).map(([value, label]) => (
+                          <MenuItem key={value} value={value}>{label}</MenuItem>
+                        ))}
+                      </TextField>
+                    </Grid>
+                    <Grid item xs={1}>
+                      <IconButton
+                        aria-label="Remove status"
+                        onClick={() => setWorkflowRows(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Grid>
+                  </React.Fragment>
+                ))}
+                <Grid item xs={12}>
+                  <Button
+                    size="small"
+                    startIcon={<AddIcon />}
+                    onClick={() => setWorkflowRows(prev => [...prev, { status: '', category: 'in_progress' }])}
+                  >
+                    Add status
+                  </Button>
+                </Grid>
+
+                <Grid item xs={12}>
+                  <TextField
+                    fullWidth
+                    multiline
+                    minRows={3}
+                    label="Release detection rules (JSON)"
+                    value={releaseRulesJson}
+                    onChange={(e) => setReleaseRulesJson(e.target.value)}
+                    placeholder={RELEASE_RULES_PLACEHOLDER}
+                    error={releaseRules === null}
+                    helperText={releaseRules === null
+                      ? 'Must be a JSON object keyed by pipeline slug'
+                      : 'Per pipeline: blockStepPattern, followTriggers, and metaData or env patterns that mark release builds'}
+                    InputProps={{ sx: { fontFamily: 'monospace' } }}
+                  />
+                </Grid>
               </Grid>
             </AccordionDetails>
           </Accordion>
         </Grid>
       </Grid>
 
+      {validationError && (
+        <Alert severity="error" sx={{ mt: 3 }} onClose={() => setValidationError(null)}>
+          {validationError}
+        </Alert>
+      )}
+      {validation && (
+        <Box sx={{ mt: 3 }}>
+          <Typography variant="subtitle2">
+            Connection test
+            {validatedKey !== connectionKey && ' (settings changed since the last test)'}
+          </Typography>
+          <List dense disablePadding>
+            {validation.checks.map(check => (
+              <ListItem key={check.id} disableGutters>
+                <ListItemIcon sx={{ minWidth: 32 }}>{VALIDATION_ICONS[check.status]}</ListItemIcon>
+                <ListItemText primary={check.label} secondary={check.message} />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+
       <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
         <Button onClick={onCancel}>
           Cancel
         </Button>
-        <Button type="submit" variant="contained">
+        <Button
+          variant="outlined"
+          onClick={handleValidate}
+          disabled={validating || !isValidJiraBaseUrl(formData.JIRA_BASE_URL) || !isValidJiraBaseUrl(formData.GITLAB_BASE_URL) || releaseRules === null}
+          startIcon={validating ? <CircularProgress size={16} /> : undefined}
+        >
+          Test connection
+        </Button>
+        <Button type="submit" variant="contained" disabled={!isValidated || releaseRules === null}>
           {team ? 'Update Team' : 'Create Team'}
         </Button>
       </Box>
@@ -0,0 +1,44 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Box, CircularProgress } from '@mui/material';
+import { completeLogin } from '../services/auth';
+import SignInPage from './SignInPage';
+
+interface AuthCallbackPageProps {
+  onSignedIn: () => void;
+}
+
+const AuthCallbackPage: React.FC<AuthCallbackPageProps> = ({ onSignedIn }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code can only be exchanged once, so don't repeat it when the effect runs twice
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    completeLogin(location.search)
+      .then(returnTo => {
+        onSignedIn();
+        navigate(returnTo, { replace: true });
+      })
+      .catch(err => {
+        setError(`Sign-in failed: ${err.message}`);
+        console.error('Error completing sign-in:', err);
+      });
+  }, []);
+
+  if (error) {
+    return <SignInPage message={error} />;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+      <CircularProgress />
+    </Box>
+  );
+};
+
+export default AuthCallbackPage;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Box, Typography, Button, Alert, Paper } from '@mui/material';
+import { Login as LoginIcon } from '@mui/icons-material';
+import { beginLogin, isLoginConfigured, AUTH_CALLBACK_PATH } from '../services/auth';
+
+interface SignInPageProps {
+  message?: string | null;
+}
+
+const SignInPage: React.FC<SignInPageProps> = ({ message }) => {
+  const location = useLocation();
+  const [redirecting, setRedirecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSignIn = async () => {
+    try {
+      setRedirecting(true);
+      const returnTo = location.pathname === AUTH_CALLBACK_PATH ? '/' : `${location.pathname}${location.search}`;
+      await beginLogin(returnTo);
+    } catch (err) {
+      setRedirecting(false);
+      setError('Could not reach the identity provider');
+      console.error('Error starting sign-in:', err);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+      <Paper sx={{ p: 4, maxWidth: 480, width: '100%' }}>
+        <Typography variant="h5" gutterBottom>
+          Sign in to Sprint Insights
+        </Typography>
+        {message && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {isLoginConfigured() ? (
+          <Button
+            variant="contained"
+            startIcon={<LoginIcon />}
+            onClick={handleSignIn}
+            disabled={redirecting}
+          >
+            Sign in
+          </Button>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            Sign-in is not configured for this app. Build it with VITE_OIDC_ISSUER and VITE_OIDC_CLIENT_ID set,
+            or store an API key under sprint-insights-auth-token in local storage.
+          </Typography>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default SignInPage;
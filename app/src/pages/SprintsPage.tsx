@@ -6,7 +6,6 @@ import {
   Grid,
   Card,
   CardContent,
-  TextField,
   FormControl,
   InputLabel,
   Select,
@@ -30,15 +29,17 @@ import {
   ChevronRight as ChevronRightIcon,
   ChevronLeft as ChevronLeftIcon,
   RocketLaunch as RocketLaunchIcon,
+  Refresh as RefreshIcon,
 } from '@mui/icons-material';
-import { TeamConfig, SprintData, LLMAnalysisResponse } from '../types';
+import { TeamConfig, SprintData, SprintSummary, LLMAnalysisResponse } from '../types';
 import { teamApi, sprintApi, llmApi } from '../services/api';
 import SprintIssuesTable from '../components/SprintIssuesTable';
 import SprintAnalysis from '../components/SprintAnalysis';
 import SprintTrends from '../components/SprintTrends';
 import SprintReleases from '../components/SprintReleases';
 import LLMChat from '../components/LLMChat';
-import { formatDate, formatDateRange } from '../utils/dateFormat';
+import SprintPicker from '../components/SprintPicker';
+import { formatDate, formatDateRange, formatDateTime, formatRelativeTime } from '../utils/dateFormat';
 import { applyIssueFlagsToSprintData, FLAG_FILTERS } from '../services/issue';
 import { calculateSprintStats, calculateDoraMetrics } from '../services/stats';
 import { calculateBuildSummaryByPipeline } from '../utils/buildStats';
@@ -69,6 +70,8 @@ const SprintsPage: React.FC = () => {
   const [teams, setTeams] = useState<TeamConfig[]>([]);
   const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [sprintIdentifier, setSprintIdentifier] = useState<string>('');
+  const [teamSprints, setTeamSprints] = useState<SprintSummary[]>([]);
+  const [teamSprintsLoading, setTeamSprintsLoading] = useState(false);
   const [historyCount, setHistoryCount] = useState<number>(4);
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('Loading sprint data...');
@@ -137,6 +140,14 @@ const SprintsPage: React.FC = () => {
     loadTeams();
   }, []);
 
+  // Load the board's sprint catalogue for the picker whenever the team changes
+  useEffect(() => {
+    setTeamSprints([]);
+    if (selectedTeam) {
+      loadTeamSprints(selectedTeam);
+    }
+  }, [selectedTeam]);
+
   // Smooth dynamic chat panel height calculation
   useEffect(() => {
     const calculateHeight = () => {
@@ -201,7 +212,23 @@ const SprintsPage: React.FC = () => {
     }
   };
 
-  const handleSearch = async () => {
+  const loadTeamSprints = async (team: string) => {
+    try {
+      setTeamSprintsLoading(true);
+      const sprints = await teamApi.getTeamSprints(team);
+      setTeamSprints(sprints);
+    } catch (err) {
+      // The picker still accepts free text if the catalogue can't be loaded
+      console.error('Error loading team sprints:', err);
+    } finally {
+      setTeamSprintsLoading(false);
+    }
+  };
+
+  /**
+   * @param refresh - Fetch the selected sprint from Jira again instead of using cached data
+   */
+  const handleSearch = async (refresh: boolean = false) => {
     if (!selectedTeam) {
       setError('Please select a team');
       return;
@@ -215,7 +242,8 @@ const SprintsPage: React.FC = () => {
       setError(null);
       
       // Check if current sprint data has not changed (team and sprint identifier unchanged)
-      const isCurrentSprintNotChange = previousSearchRef.current &&
+      const isCurrentSprintNotChange = !refresh &&
+        previousSearchRef.current &&
         previousSearchRef.current.team === selectedTeam &&
         previousSearchRef.current.sprintIdentifier === identifier &&
         sprintData !== null &&
@@ -235,14 +263,25 @@ const SprintsPage: React.FC = () => {
         setLoadingMessage('Updating historical data...');
       } else {
         // Load current sprint data (use 'name' since user enters sprint name)
-        // This will automatically handle polling if data is not cached
-        setLoadingMessage('Loading sprint data...');
-        currentSprint = await sprintApi.getSprintData(selectedTeam, identifier, 'name');
+        // This enqueues a background fetch job and polls it if data is not cached
+        setLoadingMessage(refresh ? 'Refreshing sprint data from Jira...' : 'Loading sprint data...');
+        currentSprint = await sprintApi.getSprintData(selectedTeam, identifier, 'name', (job) => {
+          const { issuesFetched, issuesTotal, pipelinesDone, pipelinesTotal } = job.progress;
+          if (job.status === 'queued') {
+            setLoadingMessage(`Waiting to fetch ${job.sprintName}...`);
+          } else if (job.status === 'running') {
+            setLoadingMessage(
+              `Fetching ${job.sprintName}: ${issuesFetched}/${issuesTotal} issues` +
+              (pipelinesTotal > 0 ? `, ${pipelinesDone}/${pipelinesTotal} pipelines` : '')
+            );
+          }
+        }, refresh);
         
-        // Apply issue flags to the sprint data (pass incident config from selected team)
+        // Apply issue flags to the sprint data (pass incident and workflow config from selected team)
         currentSprintWithFlags = applyIssueFlagsToSprintData(currentSprint, {
           incidentField: teamConfig?.INCIDENT_FIELD,
-          incidentRegex: teamConfig?.INCIDENT_REGEX
+          incidentRegex: teamConfig?.INCIDENT_REGEX,
+          workflowProfile: teamConfig?.WORKFLOW_PROFILE
         });
         setSprintData(currentSprintWithFlags);
       }
@@ -272,7 +311,9 @@ const SprintsPage: React.FC = () => {
           ? inSprintBuilds.reduce((sum, b) => sum + b.duration, 0) / inSprintBuilds.length / 60
           : 0,
         deploymentFrequency: doraMetrics.deploymentFrequency,
-        medianLeadTime: doraMetrics.avgLeadTime,
+        medianCycleTime: doraMetrics.avgLeadTime,
+        medianChangeLeadTime: doraMetrics.medianChangeLeadTime,
+        p85ChangeLeadTime: doraMetrics.p85ChangeLeadTime,
         changeFailureRate: doraMetrics.changeFailureRate,
         medianMTTR: doraMetrics.mttr,
         buildSummaryByPipeline,
@@ -328,20 +369,19 @@ const SprintsPage: React.FC = () => {
                 console.log(`Loading ${newSprintsNeeded} additional historical sprints...`);
                 setLoadingMessage(`Loading ${newSprintsNeeded} additional historical sprints...`);
                 
-                const newHistoricalPromises = Array.from({ length: newSprintsNeeded }, (_, i) => {
-                  const historicalIndex = currentSmallestIndex - (i + 1);
-                  return sprintApi.getSprintData(selectedTeam, historicalIndex, 'index').catch(err => {
-                    console.warn(`Failed to get historical sprint at index ${historicalIndex}:`, err);
-                    return null;
-                  });
-                });
-
-                const newHistoricalSprints = await Promise.all(newHistoricalPromises);
+                const newHistoricalSprints = currentSmallestIndex > 0
+                  ? await sprintApi.getSprintRange(
+                      selectedTeam,
+                      Math.max(0, currentSmallestIndex - newSprintsNeeded),
+                      currentSmallestIndex - 1,
+                      (loaded, total) => setLoadingMessage(`Loading additional historical sprints (${loaded}/${total})...`)
+                    )
+                  : [];
                 historicalSprintsToLoad = newHistoricalSprints
-                  .filter((s): s is SprintData => s !== null)
                   .map(sprint => applyIssueFlagsToSprintData(sprint, {
                     incidentField: teamConfig?.INCIDENT_FIELD,
-                    incidentRegex: teamConfig?.INCIDENT_REGEX
+                    incidentRegex: teamConfig?.INCIDENT_REGEX,
+                    workflowProfile: teamConfig?.WORKFLOW_PROFILE
                   }));
                 
                 existingHistoricalSprints = historicalData.historicalSprints;
@@ -358,20 +398,20 @@ const SprintsPage: React.FC = () => {
           } else {
             // Load all historical sprints (team or sprint changed, or first load, or no existing data)
             setLoadingMessage(`Loading ${historyCount} historical sprints...`);
-            const historicalPromises = Array.from({ length: historyCount }, (_, i) => {
-              const historicalIndex = currentSprintIndex - (i + 1);
-              return sprintApi.getSprintData(selectedTeam, historicalIndex, 'index').catch(err => {
-                console.warn(`Failed to get historical sprint at index ${historicalIndex}:`, err);
-                return null;
-              });
-            });
-
-            const results = await Promise.all(historicalPromises);
+            // One request for the whole range: cached sprints come from S3, misses are fetched by sprint jobs
+            const results = currentSprintIndex > 0
+              ? await sprintApi.getSprintRange(
+                  selectedTeam,
+                  Math.max(0, currentSprintIndex - historyCount),
+                  currentSprintIndex - 1,
+                  (loaded, total) => setLoadingMessage(`Loading historical sprints (${loaded}/${total})...`)
+                )
+              : [];
             historicalSprintsToLoad = results
-              .filter((s): s is SprintData => s !== null)
               .map(sprint => applyIssueFlagsToSprintData(sprint, {
                 incidentField: teamConfig?.INCIDENT_FIELD,
-                incidentRegex: teamConfig?.INCIDENT_REGEX
+                incidentRegex: teamConfig?.INCIDENT_REGEX,
+                workflowProfile: teamConfig?.WORKFLOW_PROFILE
               }));
           }
 
@@ -410,7 +450,9 @@ const SprintsPage: React.FC = () => {
                 ? inSprintBuilds.reduce((sum, b) => sum + b.duration, 0) / inSprintBuilds.length / 60
                 : 0,
               deploymentFrequency: histDora.deploymentFrequency,
-              medianLeadTime: histDora.avgLeadTime,
+              medianCycleTime: histDora.avgLeadTime,
+              medianChangeLeadTime: histDora.medianChangeLeadTime,
+              p85ChangeLeadTime: histDora.p85ChangeLeadTime,
               changeFailureRate: histDora.changeFailureRate,
               medianMTTR: histDora.mttr,
               buildSummaryByPipeline,
@@ -444,11 +486,19 @@ const SprintsPage: React.FC = () => {
       // Wait for both AI analysis and historical data to complete
       await Promise.all(promises);
 
-    } catch (err) {
-      setError('Failed to load sprint data');
+    } catch (err: any) {
+      // Sprint lookups that match nothing come back as 404 with the closest sprint names
+      const errorData = err.response?.data;
+      if (errorData?.candidates?.length > 0) {
+        setError(`${errorData.error}. Did you mean: ${errorData.candidates.join(', ')}?`);
+      } else {
+        setError(errorData?.error || 'Failed to load sprint data');
+      }
       console.error('Error loading sprint data:', err);
     } finally {
       setLoading(false);
+      // Refresh cached indicators in the sprint picker
+      loadTeamSprints(selectedTeam);
     }
   };
 
@@ -505,12 +555,12 @@ const SprintsPage: React.FC = () => {
               </FormControl>
             </Grid>
             <Grid item xs={12} sm={3}>
-              <TextField
-                fullWidth
-                label="Sprint Identifier"
+              <SprintPicker
+                sprints={teamSprints}
                 value={sprintIdentifier}
-                onChange={(e) => setSprintIdentifier(e.target.value)}
-                placeholder="Sprint name/number (default: latest closed)"
+                onChange={setSprintIdentifier}
+                loading={teamSprintsLoading}
+                disabled={!selectedTeam}
               />
             </Grid>
             <Grid item xs={12} sm={3}>
@@ -528,19 +578,37 @@ const SprintsPage: React.FC = () => {
               </Box>
             </Grid>
             <Grid item xs={12} sm={3}>
-              <Button
-                fullWidth
-                variant="contained"
-                startIcon={loading ? undefined : <SearchIcon />}
-                onClick={handleSearch}
-                disabled={loading}
-              >
-                {loading ? (
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    <CircularProgress size={20} color="inherit" />
-                  </Box>
-                ) : 'Search'}
-              </Button>
+              <Stack spacing={1}>
+                <Button
+                  fullWidth
+                  variant="contained"
+                  startIcon={loading ? undefined : <SearchIcon />}
+                  onClick={() => handleSearch()}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <CircularProgress size={20} color="inherit" />
+                    </Box>
+                  ) : 'Search'}
+                </Button>
+                {sprintData && (
+                  <Tooltip title="Ignore cached data and fetch this sprint from Jira and CI again">
+                    <span>
+                      <Button
+                        fullWidth
+                        size="small"
+                        variant="outlined"
+                        startIcon={<RefreshIcon />}
+                        onClick={() => handleSearch(true)}
+                        disabled={loading}
+                      >
+                        Refresh from Jira
+                      </Button>
+                    </span>
+                  </Tooltip>
+                )}
+              </Stack>
             </Grid>
           </Grid>
         </CardContent>
@@ -616,6 +684,13 @@ const SprintsPage: React.FC = () => {
                           <strong>Goal:</strong> {sprintData.sprint.goal}
                         </Typography>
                       )}
+                      {sprintData.fetchedAt && (
+                        <Tooltip title={formatDateTime(sprintData.fetchedAt)}>
+                          <Typography variant="body2" color="text.secondary" sx={{ mt: 1, width: 'fit-content' }}>
+                            <strong>Data as of:</strong> {formatRelativeTime(sprintData.fetchedAt)}
+                          </Typography>
+                        </Tooltip>
+                      )}
                     </Box>
                   </CardContent>
                 </Card>
@@ -793,6 +868,12 @@ const SprintsPage: React.FC = () => {
         </Box>
       )}
 
+      {!sprintData && error && !loading && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
       {!sprintData && !loading && (
         <Box textAlign="center" py={4}>
           <Typography variant="h6" color="text.secondary">
@@ -20,10 +20,12 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   ArrowBack as ArrowBackIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
-import { TeamConfig } from '../types';
-import { teamApi } from '../services/api';
+import { TeamConfig, AuthUser } from '../types';
+import { teamApi, authApi } from '../services/api';
 import TeamForm from '../components/TeamForm';
+import TeamAuditDialog from '../components/TeamAuditDialog';
 
 const TeamsPage: React.FC = () => {
   const navigate = useNavigate();
@@ -32,9 +34,15 @@ const TeamsPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingTeam, setEditingTeam] = useState<TeamConfig | null>(null);
+  const [historyTeam, setHistoryTeam] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const isAdmin = currentUser?.role === 'admin';
 
   useEffect(() => {
     loadTeams();
+    authApi.getCurrentUser()
+      .then(setCurrentUser)
+      .catch(err => console.error('Error loading current user:', err));
   }, []);
 
   const loadTeams = async () => {
@@ -60,12 +68,18 @@ const TeamsPage: React.FC = () => {
     setDialogOpen(true);
   };
 
-  const handleDeleteTeam = async (teamId: string) => {
+  const handleDeleteTeam = async (team: TeamConfig) => {
     if (window.confirm('Are you sure you want to delete this team?')) {
       try {
-        await teamApi.deleteTeam(teamId);
+        await teamApi.deleteTeam(team.team, team.etag);
         await loadTeams();
-      } catch (err) {
+      } catch (err: any) {
+        if (err.response?.status === 409) {
+          // Someone else changed the team; show the latest version
+          setError(err.response.data?.error || 'The team was changed by someone else');
+          await loadTeams();
+          return;
+        }
         setError('Failed to delete team');
         console.error('Error deleting team:', err);
       }
@@ -78,14 +92,22 @@ const TeamsPage: React.FC = () => {
   }) => {
     try {
       if (editingTeam) {
-        await teamApi.updateTeam(editingTeam.team, teamData);
+        await teamApi.updateTeam(editingTeam.team, teamData, editingTeam.etag);
       } else {
         await teamApi.createTeam(teamData);
       }
       setDialogOpen(false);
       await loadTeams();
-    } catch (err) {
-      setError('Failed to save team');
+    } catch (err: any) {
+      if (err.response?.status === 409) {
+        // Duplicate name, or someone else saved first; reload so the next edit starts from the latest version
+        setError(err.response.data?.error || 'The team was changed by someone else');
+        setDialogOpen(false);
+        await loadTeams();
+        return;
+      }
+      // e.g. a changed Jira or GitLab URL whose token wasn't entered again
+      setError(err.response?.status === 400 && err.response.data?.error || 'Failed to save team');
       console.error('Error saving team:', err);
     }
   };
@@ -113,13 +135,15 @@ const TeamsPage: React.FC = () => {
             Team Management
           </Typography>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={handleCreateTeam}
-        >
-          Add Team
-        </Button>
+        {isAdmin && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleCreateTeam}
+          >
+            Add Team
+          </Button>
+        )}
       </Box>
 
       {error && (
@@ -136,6 +160,11 @@ const TeamsPage: React.FC = () => {
                 <Typography variant="h6" component="h2" gutterBottom>
                   {team.team}
                 </Typography>
+                {team.JIRA_BASE_URL && (
+                  <Typography variant="body2" color="text.secondary" gutterBottom noWrap>
+                    JIRA Site: {team.JIRA_BASE_URL}
+                  </Typography>
+                )}
                 <Typography variant="body2" color="text.secondary" gutterBottom>
                   JIRA Project: {team.JIRA_PROJECT}
                 </Typography>
@@ -147,17 +176,27 @@ const TeamsPage: React.FC = () => {
                 </Typography>
               </CardContent>
               <CardActions>
+                {isAdmin && (
+                  <>
+                    <IconButton
+                      color="primary"
+                      onClick={() => handleEditTeam(team)}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton
+                      color="error"
+                      onClick={() => handleDeleteTeam(team)}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </>
+                )}
                 <IconButton
-                  color="primary"
-                  onClick={() => handleEditTeam(team)}
+                  aria-label="History"
+                  onClick={() => setHistoryTeam(team.team)}
                 >
-                  <EditIcon />
-                </IconButton>
-                <IconButton
-                  color="error"
-                  onClick={() => handleDeleteTeam(team.team)}
-                >
-                  <DeleteIcon />
+                  <HistoryIcon />
                 </IconButton>
               </CardActions>
             </Card>
@@ -171,7 +210,7 @@ const TeamsPage: React.FC = () => {
             No teams configured yet
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            Click "Add Team" to get started
+            {isAdmin ? 'Click "Add Team" to get started' : 'Ask an admin to add you to a team'}
           </Typography>
         </Box>
       )}
@@ -193,6 +232,16 @@ const TeamsPage: React.FC = () => {
           />
         </DialogContent>
       </Dialog>
+
+      <TeamAuditDialog
+        team={historyTeam}
+        canRestore={isAdmin}
+        onClose={() => setHistoryTeam(null)}
+        onRestored={() => {
+          setHistoryTeam(null);
+          loadTeams();
+        }}
+      />
     </Box>
   );
 };
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { TeamConfig, SprintData, LLMAnalysisResponse } from '../types';
+import { TeamConfig, SprintData, SprintDataChunkPart, SprintJob, SprintRangeResponse, SprintSummary, JiraField, TeamValidationResult, TeamAuditEntry, AuthUser, LLMAnalysisResponse } from '../types';
 
 // Use VITE_API_URL environment variable in production, fallback to /api for local dev
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
@@ -9,6 +9,49 @@ const api = axios.create({
   timeout: 90000, // 60 seconds for long-running requests like sprint data fetching
 });
 
+// Bearer token (OIDC access token or API key) stored after sign-in, sent with every request
+const AUTH_TOKEN_STORAGE_KEY = 'sprint-insights-auth-token';
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+  }
+};
+
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// Called when the API rejects a request's credentials; tokenRejected is false when the request had none
+let unauthorizedHandler: ((tokenRejected: boolean) => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: ((tokenRejected: boolean) => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+api.interceptors.response.use(undefined, (error) => {
+  if (error.response?.status === 401) {
+    // An expired or revoked token won't start working again, so drop it and let the app ask for a new sign-in
+    const tokenRejected = !!error.config?.headers?.Authorization;
+    setAuthToken(null);
+    unauthorizedHandler?.(tokenRejected);
+  }
+  return Promise.reject(error);
+});
+
+export const authApi = {
+  getCurrentUser: async (): Promise<AuthUser> => {
+    const response = await api.get('/me');
+    return response.data;
+  }
+};
+
 // Team management API
 export const teamApi = {
   getTeams: async (): Promise<TeamConfig[]> => {
@@ -27,90 +70,294 @@ export const teamApi = {
   updateTeam: async (teamId: string, team: Omit<TeamConfig, 'JIRA_TOKEN' | 'BUILDKITE_TOKEN'> & { 
     JIRA_TOKEN: string; 
     BUILDKITE_TOKEN: string; 
-  }): Promise<TeamConfig> => {
-    const response = await api.put(`/teams/${teamId}`, team);
+  }, etag?: string): Promise<TeamConfig> => {
+    const response = await api.put(`/teams/${teamId}`, team, {
+      headers: etag ? { 'If-Match': etag } : undefined,
+    });
+    return response.data;
+  },
+
+  deleteTeam: async (teamId: string, etag?: string): Promise<void> => {
+    await api.delete(`/teams/${teamId}`, {
+      headers: etag ? { 'If-Match': etag } : undefined,
+    });
+  },
+
+  discoverJiraFields: async (credentials: Pick<TeamConfig, 'team' | 'JIRA_EMAIL' | 'JIRA_TOKEN' | 'JIRA_BASE_URL'>): Promise<JiraField[]> => {
+    const response = await api.post('/teams/jira-fields', credentials);
+    return response.data;
+  },
+
+  validateTeam: async (team: Omit<TeamConfig, 'JIRA_TOKEN' | 'BUILDKITE_TOKEN'> & {
+    JIRA_TOKEN: string;
+    BUILDKITE_TOKEN: string;
+  }): Promise<TeamValidationResult> => {
+    const response = await api.post('/teams/validate', team);
+    return response.data;
+  },
+
+  getTeamAudit: async (teamId: string): Promise<TeamAuditEntry[]> => {
+    const response = await api.get(`/teams/${encodeURIComponent(teamId)}/audit`);
+    return response.data;
+  },
+
+  restoreTeam: async (teamId: string, version: number): Promise<TeamConfig> => {
+    const response = await api.post(`/teams/${encodeURIComponent(teamId)}/restore`, { version });
     return response.data;
   },
 
-  deleteTeam: async (teamId: string): Promise<void> => {
-    await api.delete(`/teams/${teamId}`);
+  getTeamSprints: async (teamId: string, refresh: boolean = false): Promise<SprintSummary[]> => {
+    const response = await api.get(`/teams/${encodeURIComponent(teamId)}/sprints`, {
+      params: refresh ? { refresh: true } : undefined
+    });
+    return response.data;
   }
 };
 
 // Helper to wait for a specified time
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// When any of the sprint jobs being waited for was last seen updated, i.e. the worker was last known to be working
+interface JobActivity {
+  lastUpdateAt: number;
+}
+
+// A request cut off by the API Gateway (504) or the client timeout; the Lambda may still finish and cache the sprint
+const isGatewayTimeout = (error: any) => error.response?.status === 504 ||
+  error.code === 'ECONNABORTED' ||
+  error.code === 'ERR_NETWORK';
+
+/**
+ * Poll /sprints/wait until a sprint fetched by a timed-out request is in the cache
+ * @param fetchedAfter - Only accept data fetched after this time (so a refresh doesn't return the old entry)
+ */
+const waitForCachedSprint = async (team: string, sprintIndex: number, fetchedAfter?: Date): Promise<SprintData> => {
+  const pollIntervalMs = 10000;
+  const maxAttempts = 12; // Past the Lambda timeout, by which time the fetch has finished or failed
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    await sleep(pollIntervalMs);
+    try {
+      const response = await api.get('/sprints/wait', {
+        params: { team, sprintIdentifier: sprintIndex, identifierType: 'index' }
+      });
+      const data = response.data;
+      const isFresh = !fetchedAfter || (data.fetchedAt && new Date(data.fetchedAt) > fetchedAfter);
+      if (data.status !== 'processing' && isFresh) {
+        return data;
+      }
+    } catch (pollError) {
+      console.warn(`Polling attempt ${attempt} for sprint ${sprintIndex} failed:`, pollError);
+      // Continue polling even if one request fails
+    }
+  }
+
+  throw new Error(`Timeout waiting for sprint data after ${(maxAttempts * pollIntervalMs) / 1000} seconds. The data may still be processing.`);
+};
+
 // Sprint data API
 export const sprintApi = {
+  createSprintJob: async (
+    team: string,
+    sprintIdentifier: string | number,
+    identifierType: 'index' | 'name',
+    refresh: boolean = false
+  ): Promise<SprintJob> => {
+    const response = await api.post('/sprints/jobs', {
+      team,
+      sprintIdentifier,
+      identifierType,
+      ...(refresh && { refresh })
+    });
+    return response.data;
+  },
+
+  getSprintJob: async (jobId: string): Promise<SprintJob> => {
+    const response = await api.get(`/sprints/jobs/${encodeURIComponent(jobId)}`);
+    return response.data;
+  },
+
+  /**
+   * Load a range of sprints: cached ones come back at once (a large one's issues and builds from its chunks), the
+   * rest are fetched by sprint jobs, waited for together. The worker runs them one at a time, so a job only counts
+   * as abandoned once none of them has been updated for a while.
+   * @param onProgress - Called as each sprint loads or fails
+   * @returns The sprints that loaded, sorted by sprint index (descending)
+   */
+  getSprintRange: async (
+    team: string,
+    fromIndex: number,
+    toIndex: number,
+    onProgress?: (sprintsLoaded: number, sprintsTotal: number) => void
+  ): Promise<SprintData[]> => {
+    const response = await api.get('/sprints/range', {
+      params: {
+        team,
+        from: fromIndex,
+        to: toIndex,
+        identifierType: 'index'
+      }
+    });
+    const { sprints, jobs }: SprintRangeResponse = response.data;
+
+    const sprintsTotal = sprints.length + jobs.length;
+    const loaded: SprintData[] = [];
+    const activity: JobActivity = { lastUpdateAt: Date.now() };
+    const load = async (sprintName: string, loadSprint: () => Promise<SprintData>) => {
+      try {
+        loaded.push(await loadSprint());
+      } catch (error) {
+        console.warn(`Failed to load sprint ${sprintName}:`, error);
+      }
+      onProgress?.(loaded.length, sprintsTotal);
+    };
+    onProgress?.(0, sprintsTotal);
+    // Large cached sprints come without their issues and builds, which are loaded from their chunks
+    await Promise.all([
+      ...sprints.map(sprint => load(sprint.sprint.name, () => sprintApi.loadSprintChunks(team, sprint))),
+      ...jobs.map(job => load(job.sprintName, () => sprintApi.loadSprintFromJob(team, job, undefined, false, activity)))
+    ]);
+
+    return loaded.sort((a, b) => b.sprint.index - a.sprint.index);
+  },
+
   getSprintData: async (
     team: string, 
     sprintIdentifier: string | number, 
-    identifierType: 'index' | 'name'
+    identifierType: 'index' | 'name',
+    onProgress?: (job: SprintJob) => void,
+    refresh: boolean = false
+  ): Promise<SprintData> => {
+    // Enqueue a background fetch (returns immediately as completed if the sprint is cached, unless refreshing)
+    const job = await sprintApi.createSprintJob(team, sprintIdentifier, identifierType, refresh);
+    return await sprintApi.loadSprintFromJob(team, job, onProgress, refresh);
+  },
+
+  /**
+   * Wait for a sprint job to finish and load its sprint from the cache it filled. A job no worker
+   * picks up is fetched inline instead (the API takes the queued job over, so the worker skips it).
+   * @param activity - Shared by jobs waited for together: when any of them was last updated
+   */
+  loadSprintFromJob: async (
+    team: string,
+    queuedJob: SprintJob,
+    onProgress?: (job: SprintJob) => void,
+    refresh: boolean = false,
+    activity: JobActivity = { lastUpdateAt: Date.now() }
   ): Promise<SprintData> => {
+    let job = queuedJob;
+    onProgress?.(job);
+
+    const pollIntervalMs = 2000;
+    const maxQueuedMs = 30000; // No worker picked up or worked on a job in this time - fetch inline instead
+    const maxWaitMs = 10 * 60 * 1000; // Running jobs are updated every minute, so the worker is gone
+
+    while (job.status === 'queued' || job.status === 'running') {
+      const idle = Date.now() - activity.lastUpdateAt;
+      if (job.status === 'queued' && idle > maxQueuedMs) {
+        console.warn(`Sprint job ${job.id} still queued after ${maxQueuedMs / 1000}s without any job being updated, fetching inline`);
+        break;
+      }
+      if (idle > maxWaitMs) {
+        throw new Error(`Timeout waiting for sprint job ${job.id}: not updated for ${maxWaitMs / 1000} seconds. The data may still be processing.`);
+      }
+
+      await sleep(pollIntervalMs);
+
+      try {
+        const previousUpdate = job.updatedAt;
+        job = await sprintApi.getSprintJob(job.id);
+        if (job.updatedAt !== previousUpdate) {
+          activity.lastUpdateAt = Date.now();
+        }
+        onProgress?.(job);
+      } catch (pollError) {
+        console.warn(`Polling sprint job ${job.id} failed:`, pollError);
+        // Continue polling even if one request fails
+      }
+    }
+
+    if (job.status === 'failed') {
+      throw new Error(`Sprint job ${job.id} failed: ${job.errors.join('; ')}`);
+    }
+
+    // Job completed: this is served from the cache the worker just filled.
+    // A refresh nobody picked up is fetched inline so the stale entry isn't served.
+    const inlineRefresh = refresh && job.status !== 'completed';
+    const requestedAt = new Date();
+    let sprintData: SprintData;
     try {
-      // First, try the main endpoint with a timeout
       const response = await api.get('/sprints', {
         params: { 
           team, 
-          sprintIdentifier,
-          identifierType
+          sprintIdentifier: job.sprintIndex,
+          identifierType: 'index',
+          lazyChunks: true,
+          ...(inlineRefresh && { refresh: true })
         },
         timeout: 110000 // 110 seconds (slightly longer than Lambda timeout of 120s)
       });
-      
-      return response.data;
+      sprintData = response.data;
     } catch (error: any) {
-      // Check if this is a 504 Gateway Timeout error
-      const isTimeout = error.response?.status === 504 || 
-                       error.code === 'ERR_NETWORK' || 
-                       error.message?.includes('timeout') ||
-                       error.message?.includes('Network');
-      
-      if (!isTimeout) {
-        // Not a timeout error, rethrow
+      if (!isGatewayTimeout(error)) {
         throw error;
       }
-      
-      console.log('Main request timed out (504 or timeout), falling back to polling...');
-      
-      // Poll /sprints/wait endpoint every 10 seconds until data is ready
-      const maxAttempts = 10; // 100 seconds max (10 * 10 seconds)
-      let attempt = 0;
-      
-      while (attempt < maxAttempts) {
-        attempt++;
-        
-        // Wait 10 seconds before polling
-        await sleep(10000);
-        
-        console.log(`Polling attempt ${attempt}/${maxAttempts}...`);
-        
-        try {
-          const pollResponse = await api.get('/sprints/wait', {
-            params: { 
-              team, 
-              sprintIdentifier,
-              identifierType
-            }
-          });
-          
-          const pollData = pollResponse.data;
-          
-          // Check if data is ready
-          if (!pollData.status || pollData.status !== 'processing') {
-            console.log(`Sprint data ready after ${attempt} polling attempts (${attempt * 10}s)`);
-            return pollData;
+      console.log(`Fetching sprint ${job.sprintIndex} timed out, waiting for it to be cached...`);
+      sprintData = await waitForCachedSprint(team, job.sprintIndex, inlineRefresh ? requestedAt : undefined);
+    }
+    
+    return await sprintApi.loadSprintChunks(team, sprintData);
+  },
+
+  /**
+   * Load the issues and builds of a large sprint, which the API serves as separate chunks.
+   * A sprint rewritten since it was read has its old chunks deleted, so on a missing chunk the
+   * sprint is read again and its new chunks loaded (up to `reloadsLeft` times).
+   */
+  loadSprintChunks: async (team: string, sprintData: SprintData, reloadsLeft = 2): Promise<SprintData> => {
+    const { chunks, ...data } = sprintData;
+    if (!chunks) {
+      return sprintData;
+    }
+
+    const loadPart = async (part: SprintDataChunkPart, count: number) => {
+      const responses = await Promise.all(Array.from({ length: count }, (_, chunk) =>
+        api.get('/sprints/chunk', {
+          params: {
+            team,
+            sprintIndex: data.sprint.index,
+            active: data.sprint.state === 'active',
+            chunkSet: chunks.id,
+            part,
+            chunk
           }
-          
-          console.log('Data still processing, will retry...');
-        } catch (pollError) {
-          console.warn(`Polling attempt ${attempt} failed:`, pollError);
-          // Continue polling even if one request fails
-        }
+        })
+      ));
+      return responses.flatMap(response => response.data);
+    };
+
+    try {
+      const [issues, builds] = await Promise.all([
+        loadPart('issues', chunks.issues.count),
+        loadPart('builds', chunks.builds.count)
+      ]);
+      return { ...data, issues, builds };
+    } catch (error: any) {
+      if (error.response?.status !== 404 || reloadsLeft === 0) {
+        throw error;
       }
-      
-      // If we reach here, we've exceeded max attempts
-      throw new Error(`Timeout waiting for sprint data after ${maxAttempts * 10} seconds. The data may still be processing.`);
+
+      console.log(`Chunks of sprint ${data.sprint.index} were replaced, reloading it...`);
+      const response = await api.get('/sprints', {
+        params: {
+          team,
+          sprintIdentifier: data.sprint.index,
+          identifierType: 'index',
+          lazyChunks: true
+        },
+        timeout: 110000 // 110 seconds (slightly longer than Lambda timeout of 120s)
+      });
+      return await sprintApi.loadSprintChunks(team, response.data, reloadsLeft - 1);
     }
   }
 };
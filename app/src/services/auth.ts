@@ -0,0 +1,126 @@
+import axios from 'axios';
+import { setAuthToken } from './api';
+
+// OIDC sign-in (authorization code flow with PKCE) for the API's `oidc` auth provider.
+// Disabled when VITE_OIDC_ISSUER or VITE_OIDC_CLIENT_ID is not set, e.g. when the API runs with AUTH_PROVIDERS=none.
+const OIDC_ISSUER = (import.meta.env.VITE_OIDC_ISSUER || '').replace(/\/+$/, '');
+const OIDC_CLIENT_ID = import.meta.env.VITE_OIDC_CLIENT_ID || '';
+const OIDC_SCOPE = import.meta.env.VITE_OIDC_SCOPE || 'openid profile email';
+const OIDC_AUDIENCE = import.meta.env.VITE_OIDC_AUDIENCE || '';
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+// Verifier and state of the sign-in in progress; session storage so it doesn't outlive the tab
+const PENDING_LOGIN_STORAGE_KEY = 'sprint-insights-pending-login';
+
+interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+const getDiscovery = (): Promise<OidcDiscovery> => {
+  if (!discovery) {
+    discovery = axios.get<OidcDiscovery>(`${OIDC_ISSUER}/.well-known/openid-configuration`)
+      .then(response => response.data)
+      .catch(error => {
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery;
+};
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (): string => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const getRedirectUri = (): string => `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+
+export const isLoginConfigured = (): boolean => !!OIDC_ISSUER && !!OIDC_CLIENT_ID;
+
+/**
+ * Redirect to the identity provider's sign-in page
+ * @param returnTo - App path to go back to once signed in
+ */
+export const beginLogin = async (returnTo: string): Promise<void> => {
+  const { authorization_endpoint } = await getDiscovery();
+  const codeVerifier = randomString();
+  const challenge = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  const pending: PendingLogin = { state: randomString(), codeVerifier, returnTo };
+  sessionStorage.setItem(PENDING_LOGIN_STORAGE_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: OIDC_CLIENT_ID,
+    redirect_uri: getRedirectUri(),
+    scope: OIDC_SCOPE,
+    state: pending.state,
+    code_challenge: base64UrlEncode(new Uint8Array(challenge)),
+    code_challenge_method: 'S256',
+  });
+  if (OIDC_AUDIENCE) {
+    params.set('audience', OIDC_AUDIENCE);
+  }
+  window.location.assign(`${authorization_endpoint}?${params}`);
+};
+
+/**
+ * Exchange the authorization code the identity provider redirected back with for an access token, and store it
+ * @param search - Query string of the callback URL
+ * @returns The app path the sign-in started from
+ * @throws Error when the callback carries an error, doesn't match the sign-in in progress or the exchange fails
+ */
+export const completeLogin = async (search: string): Promise<string> => {
+  const params = new URLSearchParams(search);
+  const stored = sessionStorage.getItem(PENDING_LOGIN_STORAGE_KEY);
+  sessionStorage.removeItem(PENDING_LOGIN_STORAGE_KEY);
+
+  const error = params.get('error');
+  if (error) {
+    throw new Error(params.get('error_description') || error);
+  }
+  const pending: PendingLogin | null = stored ? JSON.parse(stored) : null;
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new Error('Sign-in response does not match a sign-in started from this browser');
+  }
+
+  const { token_endpoint } = await getDiscovery();
+  const response = await axios.post(token_endpoint, new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(),
+    client_id: OIDC_CLIENT_ID,
+    code_verifier: pending.codeVerifier,
+  }));
+  if (typeof response.data?.access_token !== 'string') {
+    throw new Error('Identity provider did not return an access token');
+  }
+
+  setAuthToken(response.data.access_token);
+  return pending.returnTo;
+};
+
+/**
+ * Forget the stored token and end the identity provider's session when it supports that
+ */
+export const logout = async (): Promise<void> => {
+  setAuthToken(null);
+  const { end_session_endpoint } = await getDiscovery().catch(() => ({} as Partial<OidcDiscovery>));
+  if (end_session_endpoint) {
+    const params = new URLSearchParams({ client_id: OIDC_CLIENT_ID, post_logout_redirect_uri: window.location.origin });
+    window.location.assign(`${end_session_endpoint}?${params}`);
+  } else {
+    window.location.assign('/');
+  }
+};
@@ -1,5 +1,6 @@
-import { Issue, SprintData } from '../types';
+import { Issue, SprintData, WorkflowCategory } from '../types';
 import { calculateBusinessDays } from '../utils/timeCalculation';
+import { getStatusCategory } from '../utils/workflow';
 
 interface TimelineEvent {
   timestamp: Date;
@@ -18,13 +19,19 @@ export interface IssueFlags {
   isClosed: boolean;
 }
 
+export interface IssueFlagOptions {
+  incidentField?: 'summary' | 'subCategory';
+  incidentRegex?: string;
+  workflowProfile?: Record<string, WorkflowCategory>;
+}
+
 /**
  * Determines if an issue is incident response based on sub-category
  */
 export function isIncidentResponse(
   issue: Issue,
   _: SprintData,
-  options?: { incidentField?: 'summary' | 'subCategory'; incidentRegex?: string }
+  options?: IssueFlagOptions
 ): boolean {
   // If config provided, use it
   if (options?.incidentRegex) {
@@ -45,23 +52,21 @@ export function isIncidentResponse(
 /**
  * Determines if an issue was blocked during the sprint
  */
-export function isIssueBlocked(issue: Issue, _: SprintData): boolean {
-  const blockRegex = /block/i;
+export function isIssueBlocked(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const historiesInSprint = getHistoriesInSprint(issue);
-  return historiesInSprint.some(h => blockRegex.test(h.toString));
+  return historiesInSprint.some(h => getCategory(h.toString, sprintData, options) === 'blocked');
 }
 
 /**
  * Determines if an issue moved back and forth between statuses during the sprint
  */
-export function isIssueBackAndForth(issue: Issue, _: SprintData): boolean {
+export function isIssueBackAndForth(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const historiesInSprint = getHistoriesInSprint(issue);
   const uniqueStatuses = new Set(historiesInSprint.map(h => h.toString));
   const repeatedStatuses = [...uniqueStatuses].filter(status =>
     historiesInSprint.filter(h => h.toString === status).length > 1
   );
-  const blockRegex = /block/i;
-  return repeatedStatuses.filter(status => !blockRegex.test(status)).length > 0;
+  return repeatedStatuses.filter(status => getCategory(status, sprintData, options) !== 'blocked').length > 0;
 }
 
 /**
@@ -79,9 +84,9 @@ export function isIssueUnplanned(issue: Issue, sprintData: SprintData): boolean
  * Determines if an issue was inherited from the previous sprint
  * An issue is inherited if:
  * 1. It was created before this sprint started, AND
- * 2. The first move in this sprint is NOT from the first column (meaning it was already in progress)
+ * 2. The first move in this sprint is NOT from a backlog column (meaning it was already in progress)
  */
-export function isIssueInherited(issue: Issue, sprintData: SprintData): boolean {
+export function isIssueInherited(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const createdDate = new Date(issue.created);
   const sprintStart = new Date(sprintData.sprint.start);
   
@@ -96,25 +101,16 @@ export function isIssueInherited(issue: Issue, sprintData: SprintData): boolean
     return false;
   }
   
-  // Check the first event in sprint - if it's from a non-first column, it's inherited
+  // Check the first event in sprint - if it's from outside the backlog, it's inherited
   const historiesInSprint = getHistoriesInSprint(issue, true);
   const firstEventInSprint = historiesInSprint[0];
-  return historiesInSprint.length > 0 && firstEventInSprint.fromString.toLowerCase() !== sprintData.columns[0].name.toLowerCase();
+  return historiesInSprint.length > 0 && getCategory(firstEventInSprint.fromString, sprintData, options) !== 'backlog';
 }
 
 /**
  * Determines if an issue carried over to the next sprint (spillover)
  */
-export function isIssueSpillover(issue: Issue, sprintData: SprintData): boolean {
-  const columns = sprintData.columns;
-  const endStatuses = [
-    columns[columns.length - 1]?.name.toLowerCase(),
-    'done',
-    'closed',
-    'resolved',
-    'complete'
-  ].filter(Boolean);
-  
+export function isIssueSpillover(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const historiesInSprint = getHistoriesInSprint(issue, true);
   const historiesAfterSprint = historiesInSprint.filter(h =>
     new Date(h.at) >= new Date(sprintData.sprint.end)
@@ -123,39 +119,31 @@ export function isIssueSpillover(issue: Issue, sprintData: SprintData): boolean
   return (
     historiesAfterSprint.length > 0 ||
     (historiesInSprint.length !== 0 &&
-      !endStatuses.includes(historiesInSprint[historiesInSprint.length - 1].toString.toLowerCase()))
+      !isEndCategory(getCategory(historiesInSprint[historiesInSprint.length - 1].toString, sprintData, options)))
   );
 }
 
 /**
  * Determines if an issue was completed during this sprint
  */
-export function isIssueCompleted(issue: Issue, sprintData: SprintData): boolean {
-  const columns = sprintData.columns;
-  const completedStatuses = [
-    columns[columns.length - 1]?.name.toLowerCase(),
-    'done',
-    'complete'
-  ].filter(Boolean);
-  
+export function isIssueCompleted(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const historiesInSprint = getHistoriesInSprint(issue);
 
   return (
     historiesInSprint.length > 0 &&
-    completedStatuses.includes(historiesInSprint[historiesInSprint.length - 1].toString.toLowerCase())
+    getCategory(historiesInSprint[historiesInSprint.length - 1].toString, sprintData, options) === 'done'
   );
 }
 
 /**
  * Determines if an issue was closed during this sprint
  */
-export function isIssueClosed(issue: Issue, _: SprintData): boolean {
-  const closedStatuses = ['closed', 'resolved'];
+export function isIssueClosed(issue: Issue, sprintData: SprintData, options?: IssueFlagOptions): boolean {
   const historiesInSprint = getHistoriesInSprint(issue);
 
   return (
     historiesInSprint.length > 0 &&
-    closedStatuses.includes(historiesInSprint[historiesInSprint.length - 1].toString.toLowerCase())
+    getCategory(historiesInSprint[historiesInSprint.length - 1].toString, sprintData, options) === 'cancelled'
   );
 }
 
@@ -166,23 +154,34 @@ function getHistoriesInSprint(issue: Issue, withBoundary: boolean = false) {
   return issue.history.filter(h => withBoundary ? true : h.inSprint === true);
 }
 
+/**
+ * Helper function to categorise a column or status using the team's workflow profile
+ */
+function getCategory(status: string, sprintData: SprintData, options?: IssueFlagOptions): WorkflowCategory {
+  return getStatusCategory(status, sprintData.columns, options?.workflowProfile);
+}
+
+function isEndCategory(category: WorkflowCategory): boolean {
+  return category === 'done' || category === 'cancelled';
+}
+
 /**
  * Calculate flags for an issue
  */
 export function calculateIssueFlags(
   issue: Issue,
   sprintData: SprintData,
-  options?: { incidentField?: 'summary' | 'subCategory'; incidentRegex?: string }
+  options?: IssueFlagOptions
 ): IssueFlags {
   return {
-    isBlocked: isIssueBlocked(issue, sprintData),
+    isBlocked: isIssueBlocked(issue, sprintData, options),
     isIncidentResponse: isIncidentResponse(issue, sprintData, options),
-    isBackAndForth: isIssueBackAndForth(issue, sprintData),
+    isBackAndForth: isIssueBackAndForth(issue, sprintData, options),
     isUnplanned: isIssueUnplanned(issue, sprintData),
-    isInherited: isIssueInherited(issue, sprintData),
-    isSpillover: isIssueSpillover(issue, sprintData),
-    isCompleted: isIssueCompleted(issue, sprintData),
-    isClosed: isIssueClosed(issue, sprintData)
+    isInherited: isIssueInherited(issue, sprintData, options),
+    isSpillover: isIssueSpillover(issue, sprintData, options),
+    isCompleted: isIssueCompleted(issue, sprintData, options),
+    isClosed: isIssueClosed(issue, sprintData, options)
   };
 }
 
@@ -191,7 +190,7 @@ export function calculateIssueFlags(
  */
 export function applyIssueFlagsToSprintData(
   sprintData: SprintData,
-  options?: { incidentField?: 'summary' | 'subCategory'; incidentRegex?: string }
+  options?: IssueFlagOptions
 ): SprintData {
   return {
     ...sprintData,
@@ -37,6 +37,9 @@ export interface ReleaseStats {
 export interface DoraMetrics {
   deploymentFrequency: number;
   avgLeadTime: number;
+  // Commit to production deployment, in business days like the cycle-time proxy (0 when no deployed commits are known)
+  medianChangeLeadTime: number;
+  p85ChangeLeadTime: number;
   changeFailureRate: number;
   mttr: number;
 }
@@ -157,10 +160,20 @@ export function calculateReleaseStats(sprintData: SprintData): ReleaseStats {
   };
 }
 
+/**
+ * Nearest-rank percentile of sorted values (0 when there are none)
+ */
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.max(0, rank - 1)];
+}
+
 /**
  * Calculate DORA metrics (DevOps Research and Assessment)
  * - Deployment Frequency: How often we deploy to production
- * - Lead Time for Changes: Time from code commit to production (using issue cycle time as proxy)
+ * - Lead Time for Changes: Time from code commit to production, both as issue cycle time (a proxy)
+ *   and from each deployed commit to the deployment that shipped it
  * - Change Failure Rate: Percentage of deployments causing incidents
  * - Mean Time to Restore: Time to recover from incidents
  * Only counts builds that occurred during the sprint (inSprint = true)
@@ -207,6 +220,17 @@ export function calculateDoraMetrics(sprintData: SprintData): DoraMetrics {
     avgLeadTime = leadTimes[medianIndex];
   }
   
+  // Change lead time: each commit a successful deployment shipped, from its commit time to the deployment
+  const changeLeadTimes = inSprintBuilds
+    .flatMap(build => build.deployments)
+    .filter(deployment => deployment.status === 'success')
+    .flatMap(deployment => (deployment.commits || [])
+      .filter(commit => new Date(commit.committedAt) <= new Date(deployment.deployedAt))
+      .map(commit => calculateBusinessDays(new Date(commit.committedAt), new Date(deployment.deployedAt))))
+    .sort((a, b) => a - b);
+  const medianChangeLeadTime = percentile(changeLeadTimes, 50);
+  const p85ChangeLeadTime = percentile(changeLeadTimes, 85);
+  
   // 3. Change Failure Rate: incidents per successful release (not percentage of failed releases)
   // An incident is an unplanned issue created during the sprint
   const incidents = sprintData.issues.filter(issue => 
@@ -253,6 +277,8 @@ export function calculateDoraMetrics(sprintData: SprintData): DoraMetrics {
   return {
     deploymentFrequency,
     avgLeadTime,
+    medianChangeLeadTime,
+    p85ChangeLeadTime,
     changeFailureRate,
     mttr,
   };
@@ -271,7 +297,7 @@ export function getDeploymentFrequencyLevel(frequency: number): { label: string;
 }
 
 /**
- * Get DORA performance level for Lead Time for Changes
+ * Get DORA performance level for Lead Time for Changes (change lead time or the cycle-time proxy)
  * @param leadTime - Lead time in business days
  */
 export function getLeadTimeLevel(leadTime: number): { label: string; color: 'success' | 'warning' | 'error' | 'default' } {
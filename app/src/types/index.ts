@@ -2,13 +2,86 @@ export interface TeamConfig {
   team: string;
   JIRA_EMAIL: string;
   JIRA_TOKEN: string;
+  JIRA_BASE_URL?: string;
   JIRA_PROJECT: string;
   JIRA_BOARD_ID: string;
   BUILDKITE_TOKEN: string;
-  BUILDKITE_PIPELINES: string;
+  BUILDKITE_PIPELINES: string; // Buildkite slugs, `github:owner/repo[/workflow-file]` and `gitlab:group/project` entries
+  GITHUB_TOKEN?: string;
+  GITLAB_BASE_URL?: string;
+  GITLAB_TOKEN?: string;
   // Optional advanced settings
   INCIDENT_FIELD?: 'summary' | 'subCategory';
   INCIDENT_REGEX?: string; // e.g. `/incident|sev[1-2]/i`
+  // Optional Jira field mappings (field IDs from /rest/api/3/field)
+  JIRA_STORY_POINTS_FIELD?: string;
+  JIRA_CATEGORY_FIELDS?: string; // comma-separated
+  JIRA_EPIC_FIELD?: string;
+  JIRA_ASSIGNEE_FIELD?: string;
+  JIRA_TEAM_FIELD?: string;
+  // Optional workflow profile: board column or status name -> category
+  WORKFLOW_PROFILE?: Record<string, WorkflowCategory>;
+  // Optional release detection rules per Buildkite pipeline slug
+  BUILDKITE_RELEASE_RULES?: Record<string, ReleaseDetectionRules>;
+  // Version returned by GET /teams, sent back as If-Match when saving
+  etag?: string;
+}
+
+export type WorkflowCategory = 'backlog' | 'in_progress' | 'review' | 'blocked' | 'done' | 'cancelled';
+
+export interface ReleaseDetectionRules {
+  blockStepPattern?: string;
+  followTriggers?: boolean;
+  metaData?: Record<string, string>;
+  env?: Record<string, string>;
+}
+
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  type?: string;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+  name?: string;
+  role: 'admin' | 'member';
+  teams: string[];
+  authMethod: 'oidc' | 'api-key' | 'none';
+}
+
+export type TeamAuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface TeamFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface TeamAuditEntry {
+  team: string;
+  version: number;
+  action: TeamAuditAction;
+  actor: { id: string; name?: string; authMethod: AuthUser['authMethod'] };
+  timestamp: string;
+  changes: TeamFieldChange[];
+  restoredFromVersion?: number;
+}
+
+export type TeamValidationStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+export interface TeamValidationCheck {
+  id: string;
+  label: string;
+  status: TeamValidationStatus;
+  message: string;
+}
+
+export interface TeamValidationResult {
+  valid: boolean;
+  checks: TeamValidationCheck[];
 }
 
 export interface SprintMeta {
@@ -20,6 +93,17 @@ export interface SprintMeta {
   goal?: string;
 }
 
+export interface SprintSummary {
+  id: number;
+  name: string;
+  index: number;
+  state: 'active' | 'closed' | 'future';
+  start?: Date;
+  end?: Date;
+  goal?: string;
+  cached: boolean;
+}
+
 export interface SprintColumn {
   name: string;
 }
@@ -52,11 +136,15 @@ export interface Issue {
   created: Date;
   storyPoints: number;
   subCategory: string;
+  epic?: string;
+  assignee?: string;
+  team?: string;
   history: IssueHistory[];
   flags?: IssueFlags;
   workStartedAt?: Date;  // When work actually began (moved out of first column)
   completedAt?: Date;     // When work was completed (moved to last column)
   timeSpent?: Record<string, number>;  // Time spent in each board column (in business days)
+  builds?: IssueBuildRef[];  // Builds whose branch or commits mention the issue's key
 }
 
 export interface Build {
@@ -68,17 +156,36 @@ export interface Build {
   duration: number;
   branch: string;
   commit: string;
+  message?: string;  // First line of the commit message (not available from GitLab)
   repository: string;
   deployments: Deployment[];
   isRelease: boolean;
   isReleaseSuccess: boolean;
   inSprint: boolean;
+  provider?: CiProviderName; // Builds cached before GitHub Actions support are Buildkite's
 }
 
+export type CiProviderName = 'buildkite' | 'github' | 'gitlab';
+
 export interface Deployment {
   deployedAt: string;
   name: string;
   status: string;
+  // Successful deployments: commits shipped since the pipeline's previous successful deployment (only the
+  // deployed commit when there was none before). Absent when its repository's commits can't be read.
+  commits?: DeployedCommit[];
+}
+
+export interface DeployedCommit {
+  sha: string;
+  committedAt: string;  // Author date, which survives rebases and cherry-picks
+  message: string;      // First line
+}
+
+export interface IssueBuildRef {
+  pipelineName: string;
+  buildNumber: number;
+  provider?: CiProviderName;
 }
 
 export interface SprintData {
@@ -86,6 +193,46 @@ export interface SprintData {
   columns: SprintColumn[];
   issues: Issue[];
   builds: Build[];
+  fetchedAt?: string;  // When Jira and CI were last read, fully or by an incremental sync
+  chunks?: SprintDataChunks;  // Set when the API serves issues and builds separately, leaving both arrays empty
+}
+
+export type SprintDataChunkPart = 'issues' | 'builds';
+
+export interface SprintDataChunks {
+  id: string;
+  issues: { count: number; total: number };
+  builds: { count: number; total: number };
+}
+
+export type SprintJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface SprintJobProgress {
+  issuesTotal: number;
+  issuesFetched: number;
+  pipelinesTotal: number;
+  pipelinesDone: number;
+}
+
+export interface SprintJob {
+  id: string;
+  team: string;
+  sprintIndex: number;
+  sprintName: string;
+  status: SprintJobStatus;
+  progress: SprintJobProgress;
+  errors: string[];
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// GET /sprints/range: the cached sprints (large ones with `chunks` to load, as with lazyChunks), and jobs fetching
+// the ones that weren't cached (or were due a sync)
+export interface SprintRangeResponse {
+  sprints: SprintData[];
+  jobs: SprintJob[];
 }
 
 export interface SprintStats {
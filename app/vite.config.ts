@@ -14,6 +14,10 @@ export default defineConfig({
   },
   define: {
     // Make environment variables available to the app
-    'import.meta.env.VITE_API_URL': JSON.stringify(process.env.VITE_API_URL || '/api')
+    'import.meta.env.VITE_API_URL': JSON.stringify(process.env.VITE_API_URL || '/api'),
+    'import.meta.env.VITE_OIDC_ISSUER': JSON.stringify(process.env.VITE_OIDC_ISSUER || ''),
+    'import.meta.env.VITE_OIDC_CLIENT_ID': JSON.stringify(process.env.VITE_OIDC_CLIENT_ID || ''),
+    'import.meta.env.VITE_OIDC_SCOPE': JSON.stringify(process.env.VITE_OIDC_SCOPE || ''),
+    'import.meta.env.VITE_OIDC_AUDIENCE': JSON.stringify(process.env.VITE_OIDC_AUDIENCE || '')
   }
 })
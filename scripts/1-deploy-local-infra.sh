@@ -15,6 +15,8 @@ export AWS_ACCESS_KEY_ID=test
 export AWS_SECRET_ACCESS_KEY=test
 export AWS_DEFAULT_REGION=us-east-1
 export TF_VAR_use_localstack=true
+# The Lambda needs an encryption key; LocalStack only ever holds development credentials
+export TF_VAR_encryption_key=${TF_VAR_encryption_key:-local-development-encryption-key-only}
 
 # Navigate to terraform directory
 cd terraform
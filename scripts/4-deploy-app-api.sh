@@ -56,6 +56,10 @@ API_GATEWAY_URL=$(terraform output -state=$PRODUCTION_STATE_FILE -raw api_gatewa
 CLOUDFRONT_DISTRIBUTION_ID=$(terraform output -state=$PRODUCTION_STATE_FILE -raw cloudfront_distribution_id)
 WEBSITE_URL=$(terraform output -state=$PRODUCTION_STATE_FILE -raw website_url)
 LAMBDA_FUNCTION_NAME=$(terraform output -state=$PRODUCTION_STATE_FILE -raw lambda_function_name 2>/dev/null || echo "sprint-insights-api")
+WORKER_FUNCTION_NAME=$(terraform output -state=$PRODUCTION_STATE_FILE -raw worker_function_name 2>/dev/null || echo "sprint-insights-worker")
+OIDC_ISSUER=$(terraform output -state=$PRODUCTION_STATE_FILE -raw oidc_issuer 2>/dev/null || echo "")
+OIDC_CLIENT_ID=$(terraform output -state=$PRODUCTION_STATE_FILE -raw oidc_client_id 2>/dev/null || echo "")
+OIDC_AUDIENCE=$(terraform output -state=$PRODUCTION_STATE_FILE -raw oidc_audience 2>/dev/null || echo "")
 cd "$ROOT_DIR"
 
 # ========================================
@@ -93,6 +97,20 @@ else
     exit 1
 fi
 
+echo "  ➜ Updating worker Lambda function code..."
+$AWS_CMD lambda update-function-code \
+    --function-name $WORKER_FUNCTION_NAME \
+    --zip-file fileb://lambda-deployment.zip \
+    --region $REGION \
+    --publish > /dev/null
+
+if [ $? -eq 0 ]; then
+    echo -e "${GREEN}✅ Worker Lambda code updated!${NC}"
+else
+    echo -e "${RED}❌ Failed to update worker Lambda${NC}"
+    exit 1
+fi
+
 # Update env vars
 echo "  ➜ Updating Lambda environment variables..."
 cd "$ROOT_DIR/terraform"
@@ -117,7 +135,7 @@ APP_BUCKET_NAME=$(get_tfvar "app_bucket_name" "sprint-insights-application")
 S3_BUCKET_NAME=$(get_tfvar "s3_bucket_name" "sprint-insights-analytics")
 JIRA_BASE_URL=$(get_tfvar "jira_base_url" "https://www.atlassian.net")
 BUILDKITE_ORG_SLUG=$(get_tfvar "buildkite_org_slug" "org")
-ENCRYPTION_KEY=$(get_tfvar "encryption_key" "default-key")
+ENCRYPTION_KEY=$(get_tfvar "encryption_key" "")
 BEDROCK_MODEL_ID=$(get_tfvar "bedrock_model_id" "anthropic.claude-3-5-sonnet-20241022")
 BEDROCK_REGION=$(get_tfvar "bedrock_region" "us-east-1")
 API_VERSION=$(get_tfvar "api_version" "v1")
@@ -152,6 +170,12 @@ npm install > /dev/null
 
 echo "  ➜ Building app..."
 export VITE_API_URL=$API_GATEWAY_URL
+export VITE_OIDC_ISSUER=$OIDC_ISSUER
+export VITE_OIDC_CLIENT_ID=$OIDC_CLIENT_ID
+export VITE_OIDC_AUDIENCE=$OIDC_AUDIENCE
+if [ -z "$OIDC_CLIENT_ID" ]; then
+    echo -e "${YELLOW}  ⚠ oidc_client_id is not set; the app is built without sign-in${NC}"
+fi
 npm run build
 
 echo "  ➜ Uploading to S3..."
@@ -94,22 +94,87 @@ resource "aws_lambda_function" "sprint_insights_api" {
   )
 
   environment {
-    variables = {
-      NODE_ENV           = "production"
-      BEDROCK_REGION     = var.bedrock_region
-      BEDROCK_MODEL_ID   = var.bedrock_model_id
-      S3_BUCKET_NAME     = aws_s3_bucket.sprint_insights_data.bucket
-      FRONTEND_URL       = var.use_localstack ? "http://localhost:3000" : "https://${aws_cloudfront_distribution.sprint_insights_app[0].domain_name}"
-      JIRA_BASE_URL      = var.jira_base_url
-      BUILDKITE_ORG_SLUG = var.buildkite_org_slug
-      ENCRYPTION_KEY     = var.encryption_key
-      API_VERSION        = var.api_version
+    variables = merge(local.lambda_environment, {
+      # Queued jobs are run by the worker function below
+      SPRINT_JOB_RUNNER = "lambda"
+    })
+  }
+
+  depends_on = [aws_iam_role_policy_attachment.lambda_policy]
+}
+
+# Environment shared by the API and worker functions
+locals {
+  lambda_environment = {
+    NODE_ENV                 = "production"
+    BEDROCK_REGION           = var.bedrock_region
+    BEDROCK_MODEL_ID         = var.bedrock_model_id
+    S3_BUCKET_NAME           = aws_s3_bucket.sprint_insights_data.bucket
+    FRONTEND_URL             = var.use_localstack ? "http://localhost:3000" : "https://${aws_cloudfront_distribution.sprint_insights_app[0].domain_name}"
+    JIRA_BASE_URL            = var.jira_base_url
+    BUILDKITE_ORG_SLUG       = var.buildkite_org_slug
+    ENCRYPTION_KEY           = var.encryption_key
+    ENCRYPTION_KEY_ID        = var.encryption_key_id
+    ENCRYPTION_PREVIOUS_KEYS = var.encryption_previous_keys
+    ENCRYPTION_LEGACY_KEY_ID = var.encryption_legacy_key_id
+    API_VERSION              = var.api_version
+    OIDC_ISSUER              = var.oidc_issuer
+    OIDC_AUDIENCE            = var.oidc_audience
+    AUTH_ADMIN_USERS         = var.auth_admin_users
+  }
+}
+
+# Lambda function for sprint jobs, invoked by S3 when a job is queued (only created when skip_lambda = false).
+# Same package as the API; a job can run for up to Lambda's 15 minute limit, well past the API's timeout.
+resource "aws_lambda_function" "sprint_insights_worker" {
+  count = var.skip_lambda ? 0 : 1
+
+  filename         = data.archive_file.lambda_zip[0].output_path
+  source_code_hash = data.archive_file.lambda_zip[0].output_base64sha256
+  function_name    = "sprint-insights-worker"
+  role             = aws_iam_role.lambda_role[0].arn
+  handler          = "workerLambda.handler"
+  runtime          = "nodejs22.x"
+  timeout          = 900
+
+  tags = merge(
+    local.common_tags,
+    {
+      Name = "${var.project}-${var.environment}-worker-lambda"
     }
+  )
+
+  environment {
+    variables = local.lambda_environment
   }
 
   depends_on = [aws_iam_role_policy_attachment.lambda_policy]
 }
 
+resource "aws_lambda_permission" "s3_job_queue" {
+  count = var.skip_lambda ? 0 : 1
+
+  statement_id  = "AllowExecutionFromJobQueue"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.sprint_insights_worker[0].function_name
+  principal     = "s3.amazonaws.com"
+  source_arn    = aws_s3_bucket.sprint_insights_data.arn
+}
+
+# Enqueueing a job writes a marker under sprint-jobs/queue/, which starts the worker
+resource "aws_s3_bucket_notification" "sprint_job_queue" {
+  count  = var.skip_lambda ? 0 : 1
+  bucket = aws_s3_bucket.sprint_insights_data.id
+
+  lambda_function {
+    lambda_function_arn = aws_lambda_function.sprint_insights_worker[0].arn
+    events              = ["s3:ObjectCreated:*"]
+    filter_prefix       = "sprint-jobs/queue/"
+  }
+
+  depends_on = [aws_lambda_permission.s3_job_queue]
+}
+
 # IAM role for Lambda (only created when skip_lambda = false)
 resource "aws_iam_role" "lambda_role" {
   count = var.skip_lambda ? 0 : 1
@@ -13,6 +13,26 @@ output "lambda_function_name" {
   value       = var.skip_lambda ? "N/A - Use local dev server" : aws_lambda_function.sprint_insights_api[0].function_name
 }
 
+output "worker_function_name" {
+  description = "Sprint job worker Lambda function name (only available when skip_lambda=false)"
+  value       = var.skip_lambda ? "N/A - Use the local worker (npm run worker)" : aws_lambda_function.sprint_insights_worker[0].function_name
+}
+
+output "oidc_issuer" {
+  description = "OIDC issuer the web app signs in with"
+  value       = var.oidc_issuer
+}
+
+output "oidc_client_id" {
+  description = "OIDC client id the web app signs in with"
+  value       = var.oidc_client_id
+}
+
+output "oidc_audience" {
+  description = "Audience the web app requests access tokens for"
+  value       = var.oidc_audience
+}
+
 output "app_bucket_name" {
   description = "S3 bucket name for static website hosting"
   value       = aws_s3_bucket.sprint_insights_app.bucket
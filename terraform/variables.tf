@@ -77,6 +77,30 @@ variable "jira_base_url" {
   default     = "https://www.atlassian.net"
 }
 
+variable "oidc_issuer" {
+  description = "OIDC issuer URL whose access tokens the API accepts"
+  type        = string
+  default     = ""
+}
+
+variable "oidc_audience" {
+  description = "Expected audience of OIDC access tokens (leave empty to skip the check)"
+  type        = string
+  default     = ""
+}
+
+variable "oidc_client_id" {
+  description = "OIDC client id the web app signs in with (a public client using authorization code + PKCE; leave empty to build the app without sign-in)"
+  type        = string
+  default     = ""
+}
+
+variable "auth_admin_users" {
+  description = "Comma-separated OIDC subjects or verified emails that are always admins"
+  type        = string
+  default     = ""
+}
+
 variable "buildkite_org_slug" {
   description = "Buildkite organization slug"
   type        = string
@@ -84,10 +108,33 @@ variable "buildkite_org_slug" {
 }
 
 variable "encryption_key" {
-  description = "Encryption key for sensitive data (change in production)"
+  description = "Active key for stored credentials, at least 32 characters (e.g. openssl rand -base64 32)"
   type        = string
   sensitive   = true
-  default     = "default-key-change-in-production"
+
+  validation {
+    condition     = length(var.encryption_key) >= 32
+    error_message = "encryption_key must be at least 32 characters."
+  }
+}
+
+variable "encryption_key_id" {
+  description = "ID recorded with values encrypted by encryption_key (defaults to a fingerprint of the key)"
+  type        = string
+  default     = ""
+}
+
+variable "encryption_previous_keys" {
+  description = "Comma-separated id=secret keys kept for decryption while rotating to a new encryption_key"
+  type        = string
+  sensitive   = true
+  default     = ""
+}
+
+variable "encryption_legacy_key_id" {
+  description = "ID of the key (encryption_key_id or one of encryption_previous_keys) that tokens saved before the versioned format were written with"
+  type        = string
+  default     = ""
 }
 
 variable "api_version" {